@@ -1,247 +1,875 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { 
-  AppState, 
-  ReceiptData, 
-  SUPPORTED_LANGUAGES, 
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useReducer } from 'react';
+import {
+  AppState,
+  ReceiptData,
+  TipPolicy,
+  ExchangeRate,
+  Claim,
+  ExtractorId,
+  ExtractionErrorKind,
+  FieldError,
+  FieldSource,
+  Group,
+  LOW_CONFIDENCE,
+  SavedBill,
+  ValidatedReceipt,
   UserSelection,
-  ReceiptItem
+  ReceiptItem,
+  BillSplit,
+  Payment,
+  QueuedScan,
+  RecordedTransfer,
+  SplitRule,
+  Transfer
 } from './types';
 import CameraCapture from './components/CameraCapture';
-import { analyzeReceipt } from './services/geminiService';
-
-// --- SECURITY UTILITIES ---
+import ImagePreview from './components/ImagePreview';
+import ReceiptEditor from './components/ReceiptEditor';
+import TipPanel from './components/TipPanel';
+import ExchangeRatePanel from './components/ExchangeRatePanel';
+import ShareDialog from './components/ShareDialog';
+import ClaimDialog from './components/ClaimDialog';
+import PayerPanel from './components/PayerPanel';
+import UnlockLinkDialog from './components/UnlockLinkDialog';
+import SourceRegionDialog from './components/SourceRegionDialog';
+import LanguageBar from './components/LanguageBar';
+import ExportPanel from './components/ExportPanel';
+import PrintableShares from './components/PrintableShares';
+import Avatar from './components/Avatar';
+import GroupEditor from './components/GroupEditor';
+import SplitRulesPanel from './components/SplitRulesPanel';
+import { EXTRACTORS, extractPages, getExtractor } from './services/extractors';
+import { ExtractionError } from './services/extractionErrors';
+import { translateDescriptions } from './services/geminiService';
+import { listLocales, matchLocale } from './services/locales';
+import { deleteBill, deleteGroup, deleteQueuedScan, deleteTransfer, listBills, listGroups, listQueuedScans, listTransfers, loadCurrentSession, matchesHistoryQuery, saveBill, saveCurrentSession, saveGroup, saveQueuedScan, saveTransfer } from './services/historyStore';
+import { currencyDecimals, toMinor } from './services/money';
+import { convertMinor, DEFAULT_CURRENCY, findRate, isCurrencyCode } from './services/currency';
+import { decodeClaim, decodeSharePayload, isClaimFragment } from './services/shareLink';
+import { findClaimConflicts, mergeClaim } from './services/claims';
+import { shareDenominator, shareLabel, sharedBy } from './services/itemShares';
+import { affectsTotal, DEFAULT_TIP_POLICY, sanitizeString, TOTAL_FIELDS, validateReceipt } from './services/receiptValidation';
+import { computeShares, computeSoloShares, settlementEntry } from './services/splitEngine';
+import { billReducer, initialBillState, newBillId, toSavedBill } from './services/billStore';
+import { computeBalances, formatTransfer, settlementText, simplifyDebts } from './services/settleUp';
+import { parseBillJson, paymentRequestText } from './services/billExport';
+import { groupsToJson, newGroup, parseGroupsJson, prefillFromGroup } from './services/groups';
+import { downloadFile } from './services/download';
+import { itemCategory } from './services/itemCategories';
+import { coverLabel, describeRule, ruleForItem, ruleFractions } from './services/splitRules';
+import { processQueuedScan, queueScan, scanStatus, shouldQueueScan } from './services/scanQueue';
+import { guardState, pathForState, readSharePayload, stateFromPath, TRANSIENT_STATES, withoutSharePayload } from './services/router';
+import { categoryName, formatAmount, formatDate, formatDateTime, formatMoney, formatNumber, formatPercent, formatTimestamp, setUiLocale, t } from './services/i18n';
 
 /**
- * Strips potential HTML tags to prevent XSS from untrusted AI output 
- * or manipulated URL parameters.
+ * Swaps in translated item names. The printed text is kept as the original
+ * (or dropped when the translation is identical) so it can always be shown
+ * again and translated from afresh.
  */
-const sanitizeString = (str: string): string => {
-  return str.replace(/<[^>]*>?/gm, '').trim().substring(0, 255);
-};
-
-const safeBtoa = (str: string) => {
-  try {
-    const bytes = new TextEncoder().encode(str);
-    let binary = "";
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  } catch (e) {
-    console.error("Base64 encoding error", e);
-    return "";
-  }
-};
+const applyTranslations = (receipt: ReceiptData, translations: string[], language: string): ReceiptData => ({
+  ...receipt,
+  language,
+  items: receipt.items.map((item, idx) => {
+    const original = item.originalDescription || item.description;
+    const { originalDescription, ...rest } = item;
+    return translations[idx] === original
+      ? { ...rest, description: original }
+      : { ...rest, description: translations[idx], originalDescription: original };
+  })
+});
 
-const safeAtob = (base64: string) => {
-  try {
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return new TextDecoder().decode(bytes);
-  } catch (e) {
-    console.error("Base64 decoding error", e);
-    return "";
-  }
-};
-
-/**
- * Validates the structure and integrity of the receipt data.
- * Prevents "Bill Tampering" (e.g., manually changing total in the URL).
- */
-const validateReceiptIntegrity = (data: any): ReceiptData | null => {
-  try {
-    if (!data || typeof data !== 'object') return null;
-    
-    // 1. Check Required Fields & Types
-    if (typeof data.restaurantName !== 'string') return null;
-    if (!Array.isArray(data.items)) return null;
-
-    // 2. Sanitize Strings
-    const sanitized: ReceiptData = {
-      restaurantName: sanitizeString(data.restaurantName),
-      date: sanitizeString(data.date || ''),
-      currency: sanitizeString(data.currency || '$'),
-      subtotal: Number(data.subtotal) || 0,
-      tax: Number(data.tax) || 0,
-      tip: Number(data.tip) || 0,
-      total: Number(data.total) || 0,
-      items: data.items.map((item: any, idx: number) => ({
-        id: sanitizeString(item.id || `shared-${idx}`),
-        quantity: Math.max(0, Number(item.quantity) || 1),
-        description: sanitizeString(item.description || 'Unknown Item'),
-        price: Math.max(0, Number(item.price) || 0)
-      }))
-    };
+/** Screens a reload in the middle of a scan may fall back to, from the saved session. */
+const RESUMABLE_STATES = [AppState.CONFIRM_INFO, AppState.SELECT_ITEMS, AppState.SUMMARY];
 
-    // 3. Mathematical Integrity Check (Tolerance for floating point)
-    const itemsSum = sanitized.items.reduce((acc, item) => acc + item.price, 0);
-    // Note: We don't strictly block if sum !== total (due to discounts/rounding), 
-    // but we ensure numbers are valid.
-    
-    return sanitized;
-  } catch (e) {
-    return null;
-  }
+/** The screen a reload lands on: the URL's, or the session's when the URL was mid-scan. */
+const resumeState = (routed: AppState, saved?: AppState): AppState => {
+  if (!TRANSIENT_STATES.includes(routed)) return routed;
+  return saved && RESUMABLE_STATES.includes(saved) ? saved : AppState.HOME;
 };
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.HOME);
-  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
-  const [userSelections, setUserSelections] = useState<Record<string, UserSelection>>({});
-  const [loadingMessage, setLoadingMessage] = useState('Analyzing...');
-  const [targetLang, setTargetLang] = useState('en');
+  const [billState, dispatch] = useReducer(billReducer, initialBillState);
+  const { receipt, reconciliation, billId, isSettled, splitMode, userSelections, participants, assignments, splitRules, activeParticipantId, payments, fieldErrors } = billState;
+  const receiptImages = billState.images;
+  const [homeCurrency, setHomeCurrency] = useState('');
+  const [newParticipantName, setNewParticipantName] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [settleBillIds, setSettleBillIds] = useState<string[]>([]);
+  const [recordedTransfers, setRecordedTransfers] = useState<RecordedTransfer[]>([]);
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+  const [history, setHistory] = useState<SavedBill[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [loadingMessage, setLoadingMessage] = useState('');
+  const [targetLang, setTargetLang] = useState(() => matchLocale(navigator.languages || [navigator.language]));
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [extractorId, setExtractorId] = useState<ExtractorId>('gemini');
+  const [receiptText, setReceiptText] = useState('');
+  const [pendingImages, setPendingImages] = useState<string[]>([]);
+  const [queuedScans, setQueuedScans] = useState<QueuedScan[]>([]);
+  const [readingScanId, setReadingScanId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupId, setGroupId] = useState(''); // Group to seat at the next scan; '' for none
+  const [newGroupName, setNewGroupName] = useState('');
+  const [groupNotice, setGroupNotice] = useState<string | null>(null);
+  const [inspecting, setInspecting] = useState<{ label: string; source: FieldSource } | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [printTarget, setPrintTarget] = useState<string | null>(null); // 'all' or a participant id
+  const [lockedLink, setLockedLink] = useState<string | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [pendingClaim, setPendingClaim] = useState<Claim | null>(null);
+  const [claimCode, setClaimCode] = useState('');
+  const [claimNotice, setClaimNotice] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<ExtractionErrorKind | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const extractionRef = useRef<AbortController | null>(null);
+  const lastExtractionRef = useRef<{ images?: string[]; text?: string } | null>(null);
+  const drainingRef = useRef(false);
+
+  // Every t() and format call below reads the module-level UI locale. It follows the committed
+  // language only; setting the rendered locale re-renders in it before the browser paints.
+  const [renderedLocale, setRenderedLocale] = useState('en');
+  useLayoutEffect(() => {
+    setUiLocale(targetLang);
+    setRenderedLocale(targetLang);
+    document.documentElement.lang = targetLang;
+  }, [targetLang]);
+
+  /** Starts a new bill from a freshly validated receipt (scan, text, link or blank). */
+  const loadReceipt = (validated: ValidatedReceipt, editing = false, extracted: { images?: string[]; fieldErrors?: FieldError[] } = {}) => {
+    dispatch({ type: 'LOAD_RECEIPT', validated, billId: newBillId(), createdAt: Date.now(), ...extracted });
+    setClaimNotice(null);
+    setIsEditing(editing);
+    setAppState(AppState.CONFIRM_INFO);
+  };
+
+  /** Re-opens a bill from history or the saved session, re-validating the stored receipt. */
+  const restoreBill = (bill: SavedBill, nextState: AppState) => {
+    const validated = validateReceipt(bill.receipt);
+    if (!validated) return;
+    dispatch({ type: 'RESTORE_BILL', bill, validated });
+    setIsEditing(false);
+    setAppState(nextState);
+  };
+
+  /**
+   * Opens a share link fragment. Locked links park the fragment until the
+   * passphrase is entered; everything else goes through the usual validation.
+   */
+  const openSharedLink = async (fragment: string, passphrase?: string): Promise<boolean> => {
+    const decoded = await decodeSharePayload(fragment, passphrase);
+    if (decoded.status === 'locked') {
+      setLockedLink(fragment);
+      return false;
+    }
+    const validated = validateReceipt(decoded.data);
+    if (!validated) throw new Error(t('link.invalidReceipt'));
+    setLockedLink(null);
+    loadReceipt(validated);
+    setError(null);
+    return true;
+  };
+
+  const clearShareLink = () => window.history.replaceState(null, '', withoutSharePayload(window.location.href));
+
+  const dismissLockedLink = () => {
+    setLockedLink(null);
+    clearShareLink();
+  };
+
+  /**
+   * Merges a diner's claim into the matching bill, switching to it from
+   * history if a different bill is open, and shows the table split.
+   */
+  const importClaim = async (claim: Claim) => {
+    let base = receipt && receipt.id === claim.receiptId ? { receipt, participants, assignments } : null;
+    if (!base) {
+      const bill = (await listBills()).find(b => b.receipt.id === claim.receiptId);
+      if (!bill) throw new Error(t('claim.unknownBill'));
+      restoreBill(bill, AppState.SELECT_ITEMS);
+      base = { receipt: bill.receipt, participants: bill.participants || [], assignments: bill.assignments || {} };
+    }
+    const name = sanitizeString(claim.name).substring(0, 40);
+    if (!name) throw new Error(t('claim.noName'));
+    const merged = mergeClaim({ ...claim, name }, base.receipt, base.participants, base.assignments);
+    dispatch({ type: 'MERGE_CLAIM', participants: merged.participants, assignments: merged.assignments, participantId: merged.participantId });
+    setAppState(AppState.SELECT_ITEMS);
+    setError(null);
+    setClaimNotice(merged.unmatchedItemIds.length > 0
+      ? t('claim.addedMissing', { name, count: merged.unmatchedItemIds.length })
+      : t('claim.added', { name }));
+  };
 
+  const handleClaimCode = () => {
+    decodeClaim(claimCode)
+      .then(importClaim)
+      .then(() => setClaimCode(''))
+      .catch((e: any) => setClaimNotice(e.message));
+  };
+
+  // Claim links need the organizer's bills loaded, so they wait for the session restore
   useEffect(() => {
-    const handleHashChange = () => {
-      const hash = window.location.hash.slice(1);
-      if (hash && hash.length > 10) {
-        try {
-          const jsonStr = safeAtob(decodeURIComponent(hash));
-          if (jsonStr) {
-            const rawData = JSON.parse(jsonStr);
-            const validated = validateReceiptIntegrity(rawData);
-            
-            if (validated) {
-              setReceipt(validated);
-              setAppState(AppState.CONFIRM_INFO);
-              setError(null);
-            } else {
-              throw new Error("Invalid receipt data");
-            }
-          }
-        } catch (e) {
-          console.error("Deep Link Error", e);
-          setError("The shared link is invalid or has been tampered with.");
-          setAppState(AppState.HOME);
+    if (!pendingClaim || !isSessionRestored) return;
+    importClaim(pendingClaim)
+      .catch((e: any) => setError(e.message))
+      .finally(() => {
+        setPendingClaim(null);
+        clearShareLink();
+      });
+  }, [pendingClaim, isSessionRestored]);
+
+  useEffect(() => {
+    const handleSharedLink = async (): Promise<boolean> => {
+      const payload = readSharePayload(window.location.href);
+      if (!payload) return false;
+      try {
+        if (isClaimFragment(payload)) {
+          setPendingClaim(await decodeClaim(payload));
+          return false;
         }
+        return await openSharedLink(payload);
+      } catch (e: any) {
+        console.error("Deep Link Error", e);
+        setError(e.message || t('link.invalid'));
+        setAppState(AppState.HOME);
+        return false;
       }
     };
+    // Only links from before routing arrive in the hash; new ones reload the page
+    const onHashChange = () => { handleSharedLink(); };
 
-    handleHashChange();
-    window.addEventListener('hashchange', handleHashChange);
-    return () => window.removeEventListener('hashchange', handleHashChange);
+    // A shared link wins over the bill left open before the reload
+    const routed = stateFromPath(window.location.pathname);
+    handleSharedLink().then(opened => {
+      if (opened) {
+        setIsSessionRestored(true);
+        return;
+      }
+      loadCurrentSession()
+        .then(session => {
+          if (session) restoreBill(session.bill, resumeState(routed, session.appState));
+          else setAppState(guardState(resumeState(routed), { hasReceipt: false, hasPendingImages: false, isExtracting: false }));
+        })
+        .catch(e => console.error("Session restore error", e))
+        .finally(() => setIsSessionRestored(true));
+    });
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
   }, []);
 
-  const handleCapture = async (base64Image: string) => {
+  // The URL follows the screen. Steps out of a scan replace their entry, so back never lands mid-scan.
+  const routedStateRef = useRef<AppState>(appState);
+  useEffect(() => {
+    if (!isSessionRestored) return;
+    const previous = routedStateRef.current;
+    routedStateRef.current = appState;
+    const path = pathForState(appState);
+    if (window.location.pathname === path) return;
+    if (TRANSIENT_STATES.includes(previous)) window.history.replaceState(null, '', path);
+    else window.history.pushState(null, '', path);
+  }, [appState, isSessionRestored]);
+
+  // Back and forward: show the screen for the URL, or the nearest one that makes sense without its data
+  useEffect(() => {
+    const onPopState = () => {
+      const requested = stateFromPath(window.location.pathname);
+      const allowed = guardState(requested, { hasReceipt: !!receipt, hasPendingImages: pendingImages.length > 0, isExtracting: !!extractionRef.current });
+      if (allowed !== AppState.PROCESSING) extractionRef.current?.abort();
+      if (allowed !== requested) window.history.replaceState(null, '', pathForState(allowed));
+      routedStateRef.current = allowed;
+      setAppState(allowed);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [receipt, pendingImages]);
+
+  /** Runs the backend picked in settings and hands its output to the usual validation. */
+  const runExtraction = async (input: { images?: string[]; text?: string }) => {
+    const extractor = getExtractor(extractorId);
+    if (input.images && input.images.length > 0 && shouldQueueScan(extractor)) {
+      queueImages(input.images).catch((e: any) => setError(e.message));
+      return;
+    }
+    const controller = new AbortController();
+    extractionRef.current = controller;
+    lastExtractionRef.current = input;
     setAppState(AppState.PROCESSING);
-    setLoadingMessage('Gemini AI is scanning your receipt securely...');
+    setLoadingMessage(t('processing.reading', { extractor: extractor.name }));
     setError(null);
+    setErrorKind(null);
+    const options = {
+      targetLanguage: targetLang,
+      signal: controller.signal,
+      onRetry: (attempt: number, reason: string) => setLoadingMessage(t('processing.retrying', { reason, attempt: attempt + 1 }))
+    };
     try {
-      const data = await analyzeReceipt(base64Image, targetLang);
-      const validated = validateReceiptIntegrity(data);
+      const data = input.images && input.images.length > 0
+        ? await extractPages(extractor, input.images, options, (page, pageCount) => {
+            if (pageCount > 1) setLoadingMessage(t('processing.readingPhoto', { extractor: extractor.name, page, count: pageCount }));
+          })
+        : await extractor.extract({ ...options, text: input.text });
+      const validated = validateReceipt(data);
       if (validated) {
-        setReceipt(validated);
-        setAppState(AppState.CONFIRM_INFO);
+        loadReceipt(validated, false, { images: input.images, fieldErrors: data.fieldErrors });
+        seatGroup(validated.receipt);
       } else {
-        throw new Error("Received malformed data from AI analysis.");
+        throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.malformed'));
       }
     } catch (err: any) {
-      setError(err.message);
+      if (err instanceof ExtractionError && err.kind === 'CANCELLED') {
+        setAppState(AppState.HOME);
+        return;
+      }
+      // Going offline mid-read keeps the photos for later rather than losing them
+      if (err instanceof ExtractionError && err.kind === 'NETWORK' && input.images && input.images.length > 0 && shouldQueueScan(extractor)) {
+        try {
+          await queueImages(input.images);
+          return;
+        } catch (e) {
+          console.error("Scan queue error", e);
+        }
+      }
+      const details = err instanceof ExtractionError && err.fieldErrors.length > 0
+        ? ` (${err.fieldErrors.slice(0, 3).map(f => `${f.path}: ${f.message}`).join('; ')})`
+        : '';
+      setError(err.message + details);
+      setErrorKind(err instanceof ExtractionError ? err.kind : null);
       setAppState(AppState.HOME);
+    } finally {
+      if (extractionRef.current === controller) extractionRef.current = null;
+    }
+  };
+
+  const cancelExtraction = () => extractionRef.current?.abort();
+
+  /** Seats the group picked on HOME at a receipt that was just read or started. */
+  const seatGroup = (newReceipt: ReceiptData) => {
+    const group = groups.find(g => g.id === groupId);
+    if (group) dispatch({ type: 'SEAT_GROUP', ...prefillFromGroup(group, newReceipt) });
+  };
+
+  /** Keeps photos for a reader that needs a connection until there is one. */
+  const queueImages = async (images: string[]) => {
+    const scan = await queueScan(images, extractorId, targetLang, groupId || undefined);
+    setQueuedScans(prev => [...prev, scan]);
+    setError(null);
+    setErrorKind(null);
+    setAppState(AppState.HOME);
+  };
+
+  /** Reads waiting scans one at a time into history, stopping if the connection drops again. */
+  const drainScanQueue = async () => {
+    if (drainingRef.current) return;
+    drainingRef.current = true;
+    try {
+      const waiting = (await listQueuedScans()).filter(scan => scanStatus(scan) === 'waiting');
+      for (const scan of waiting) {
+        if (!navigator.onLine) break;
+        setReadingScanId(scan.id);
+        const updated = await processQueuedScan(scan);
+        setQueuedScans(prev => prev.map(s => s.id === updated.id ? updated : s));
+        if (scanStatus(updated) === 'waiting') break;
+      }
+    } catch (e) {
+      console.error("Scan queue error", e);
+    } finally {
+      drainingRef.current = false;
+      setReadingScanId(null);
     }
   };
 
+  // Scans queued offline are read as soon as the connection is back, or on the next visit
+  useEffect(() => {
+    if (!isSessionRestored) return;
+    const onOnline = () => {
+      setIsOnline(true);
+      drainScanQueue();
+    };
+    const onOffline = () => setIsOnline(false);
+    listQueuedScans()
+      .then(scans => {
+        setQueuedScans(scans);
+        if (navigator.onLine) drainScanQueue();
+      })
+      .catch(e => console.error("Scan queue error", e));
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, [isSessionRestored]);
+
+  const dismissQueuedScan = (id: string) =>
+    deleteQueuedScan(id)
+      .then(() => setQueuedScans(prev => prev.filter(scan => scan.id !== id)))
+      .catch(e => setError(e.message));
+
+  const retryQueuedScan = (scan: QueuedScan) => {
+    const waiting = { ...scan, error: undefined, attempts: 0 };
+    saveQueuedScan(waiting)
+      .then(() => {
+        setQueuedScans(prev => prev.map(s => s.id === scan.id ? waiting : s));
+        drainScanQueue();
+      })
+      .catch(e => setError(e.message));
+  };
+
+  /** Opens the bill a queued scan was read into; the scan has done its job then. */
+  const openQueuedScan = (scan: QueuedScan) => {
+    listBills()
+      .then(bills => {
+        const bill = bills.find(b => b.id === scan.billId);
+        if (!bill) throw new Error(t('queue.missing'));
+        restoreBill(bill, AppState.CONFIRM_INFO);
+        return dismissQueuedScan(scan.id);
+      })
+      .catch(e => setError(e.message));
+  };
+
+  const retryExtraction = () => {
+    if (lastExtractionRef.current) runExtraction(lastExtractionRef.current);
+  };
+
+  /** New photos are shown processed before anything is sent. */
+  const handleCapture = (images: string[]) => {
+    setPendingImages(images);
+    setAppState(AppState.PREVIEW);
+  };
+
+  const handleParseText = () => runExtraction({ text: receiptText });
+
+  /** Several files are read as consecutive photos of one receipt, in file name order. */
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+    const files: File[] = Array.from(event.target.files || []);
+    files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    event.target.value = '';
+    if (files.length === 0) return;
+    Promise.all(files.map(file => new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        if (result) handleCapture(result);
-      };
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.onerror = () => reject(new Error(t('home.readFileFailed', { file: file.name })));
       reader.readAsDataURL(file);
-    }
+    })))
+      .then(images => handleCapture(images.filter(Boolean)))
+      .catch(e => setError(e.message));
   };
 
-  const toggleItem = (itemId: string) => {
-    setUserSelections(prev => {
-      const existing = prev[itemId];
-      return {
-        ...prev,
-        [itemId]: { itemId, isSelected: !existing?.isSelected, splitCount: existing?.splitCount || 1 }
-      };
-    });
+  const handleStartBlank = () => {
+    const blank = validateReceipt({ restaurantName: '', date: '', currency: DEFAULT_CURRENCY, items: [] });
+    if (!blank) return;
+    loadReceipt(blank, true);
+    seatGroup(blank.receipt);
+    setError(null);
   };
 
-  const updateSplit = (itemId: string, count: number) => {
-    setUserSelections(prev => {
-      const existing = prev[itemId];
-      return {
-        ...prev,
-        [itemId]: { ...(existing || { itemId, isSelected: true, splitCount: 1 }), splitCount: Math.max(1, count) }
-      };
-    });
+  /** Re-translates from the printed text, so repeated translations don't drift. */
+  const retranslate = async (code: string) => {
+    if (!receipt) return;
+    const sources = receipt.items.map(item => item.originalDescription || item.description);
+    const translations = await translateDescriptions(sources, code);
+    handleReceiptEdit(applyTranslations(receipt, translations, code));
+    setShowOriginal(false);
+  };
+
+  const itemName = (item: ReceiptItem) => (showOriginal && item.originalDescription) || item.description;
+
+  /**
+   * Manual edits are treated as untrusted input just like AI output,
+   * so every change is re-validated before it replaces the receipt.
+   */
+  const handleReceiptEdit = (edited: ReceiptData) => {
+    const validated = validateReceipt(edited);
+    if (validated) dispatch({ type: 'EDIT_RECEIPT', validated });
+  };
+
+  /** Switches the UI and the translation target together; reconciliation messages are rebuilt in the new language. */
+  const changeLanguage = (code: string) => {
+    setUiLocale(code);
+    setTargetLang(code);
+    if (receipt) handleReceiptEdit(receipt);
+  };
+
+  const toggleItem = (item: ReceiptItem) => dispatch({ type: 'TOGGLE_ITEM', item });
+
+  const updateSelectionShare = (itemId: string, portion: number, outOf: number) =>
+    dispatch({ type: 'SET_SELECTION_SHARE', itemId, portion, outOf });
+
+  const addParticipant = () => {
+    const name = sanitizeString(newParticipantName);
+    if (!name) return;
+    dispatch({ type: 'ADD_PARTICIPANT', participant: { id: `p-${Date.now()}-${participants.length}`, name } });
+    setNewParticipantName('');
   };
 
+  const removeParticipant = (participantId: string) => dispatch({ type: 'REMOVE_PARTICIPANT', participantId });
+
+  const toggleAssignment = (itemId: string) => dispatch({ type: 'TOGGLE_ASSIGNMENT', itemId });
+
+  const setItemWeight = (itemId: string, participantId: string, weight: number) =>
+    dispatch({ type: 'SET_ITEM_WEIGHT', itemId, participantId, weight });
+
+  /** An empty total goes back to splitting the item between whoever has a share. */
+  const setItemTotal = (itemId: string, value: string) =>
+    dispatch({ type: 'SET_ITEM_TOTAL', itemId, total: value === '' ? 0 : Number(value) });
+
   const calculations = useMemo(() => {
-    if (!receipt) return { subtotal: 0, tax: 0, tip: 0, total: 0, ratio: 0 };
-    
-    const selections = Object.values(userSelections);
-    const userSubtotal = selections
-      .filter(s => s.isSelected)
-      .reduce((acc, sel) => {
-        const item = receipt.items.find(i => i.id === sel.itemId);
-        return item ? acc + (item.price / sel.splitCount) : acc;
-      }, 0);
-
-    const receiptSubtotal = receipt.subtotal || receipt.items.reduce((acc, item) => acc + item.price, 0);
-    const userRatio = receiptSubtotal > 0 ? (userSubtotal / receiptSubtotal) : 0;
-    
-    return {
-      subtotal: userSubtotal,
-      tax: (receipt.tax || 0) * userRatio,
-      tip: (receipt.tip || 0) * userRatio,
-      total: userSubtotal + ((receipt.tax || 0) * userRatio) + ((receipt.tip || 0) * userRatio),
-      ratio: userRatio
-    };
-  }, [receipt, userSelections]);
+    if (!receipt) return null;
+    const solo = computeSoloShares(receipt, userSelections, t('summary.you'));
+    const table = computeShares(receipt, participants, assignments, splitRules);
+    return { mine: solo.shares[0], solo, table };
+  }, [receipt, userSelections, participants, assignments, splitRules, renderedLocale]);
+
+  const settlement = useMemo(() => {
+    const bills = history.filter(b => settleBillIds.includes(b.id));
+    // A paid transfer only counts while every bill it settled is still selected
+    const paid = recordedTransfers.filter(t => t.billIds.length > 0 && t.billIds.every(id => settleBillIds.includes(id)));
+    const balances = computeBalances(bills.map(settlementEntry), paid);
+    const transfers = Object.keys(balances).flatMap(currency => simplifyDebts(balances[currency], currency));
+    return { bills, balances, paid, transfers };
+  }, [history, settleBillIds, recordedTransfers]);
+
+  const exportSettlement = () => {
+    const text = settlementText(t('home.settleUp'), settlement.transfers, settlement.paid);
+    if (navigator.clipboard && navigator.clipboard.writeText) {
+      navigator.clipboard.writeText(text).then(() => alert(t('settle.copied')));
+    } else {
+      prompt(t('settle.copyPrompt'), text);
+    }
+  };
 
-  const generateShareLink = () => {
+  const claimConflicts = useMemo(
+    () => receipt ? findClaimConflicts(receipt, participants, assignments) : [],
+    [receipt, participants, assignments, renderedLocale]
+  );
+
+  const decimals = currencyDecimals(receipt?.currency || '');
+  const currency = receipt?.currency || DEFAULT_CURRENCY;
+  const formatShare = (minor: number) => formatAmount(minor, currency);
+  const money = (minor: number) => formatMoney(minor, currency);
+  const price = (amount: number) => money(toMinor(amount, decimals));
+
+  /** Currencies a share can be shown in: the receipt's own plus any with a recorded rate. */
+  const homeCurrencyOptions = receipt
+    ? Array.from(new Set([receipt.currency, ...(receipt.exchangeRates || []).flatMap(r => [r.from, r.to])]))
+    : [];
+
+  const renderConverted = (minor: number, target?: string) => {
+    if (!receipt || !target || target === receipt.currency) return null;
+    const rate = findRate(receipt.exchangeRates || [], receipt.currency, target);
+    if (!rate) return <p className="text-xs text-amber-600 text-right">{t('summary.noRate', { from: receipt.currency, to: target })}</p>;
+    const converted = convertMinor(minor, rate);
+    return (
+      <p className="text-xs text-gray-400 text-right">
+        {t('summary.converted', { amount: formatMoney(converted, target), from: rate.from, rate: rate.rate, to: rate.to, date: formatDate(rate.date) })}
+      </p>
+    );
+  };
+
+  const renderCurrencySelect = (value: string | undefined, onSelect: (code: string) => void) => {
+    if (homeCurrencyOptions.length < 2) return null;
+    return (
+      <select
+        value={value || receipt?.currency}
+        onChange={(e) => onSelect(e.target.value)}
+        className="px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-xs font-semibold text-gray-600"
+      >
+        {homeCurrencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+      </select>
+    );
+  };
+
+  const updateExchangeRates = (rates: ExchangeRate[]) => {
+    if (receipt) handleReceiptEdit({ ...receipt, exchangeRates: rates });
+  };
+
+  const setParticipantCurrency = (participantId: string, code: string) => {
+    dispatch({ type: 'SET_PARTICIPANT_CURRENCY', participantId, currency: code });
+  };
+
+  const updateTipPolicy = (policy: TipPolicy) => {
+    if (receipt) handleReceiptEdit({ ...receipt, tipPolicy: policy });
+  };
+
+  const setTipOverride = (participantId: string, value: string) => {
     if (!receipt) return;
-    try {
-      const minifiedReceipt = {
-        restaurantName: receipt.restaurantName,
-        date: receipt.date,
-        currency: receipt.currency,
-        subtotal: receipt.subtotal,
-        tax: receipt.tax,
-        tip: receipt.tip,
-        total: receipt.total,
-        items: receipt.items.map(i => ({
-          id: i.id,
-          quantity: i.quantity,
-          description: i.description,
-          price: i.price
-        }))
-      };
-
-      const encoded = encodeURIComponent(safeBtoa(JSON.stringify(minifiedReceipt)));
-      const url = `${window.location.href.split('#')[0]}#${encoded}`;
-      
-      if (navigator.clipboard && navigator.clipboard.writeText) {
-        navigator.clipboard.writeText(url).then(() => alert("Secure share link copied!"));
-      } else {
-        prompt("Copy this secure link:", url);
-      }
-    } catch (e) {
-      alert("Encryption failed. Data too large?");
+    const overrides = { ...(receipt.tipPolicy || DEFAULT_TIP_POLICY).overrides };
+    if (value === '') delete overrides[participantId];
+    else overrides[participantId] = Number(value);
+    updateTipPolicy({ ...(receipt.tipPolicy || DEFAULT_TIP_POLICY), overrides });
+  };
+
+  /** The open bill as it would be saved to history. */
+  const currentBill = (): SavedBill | null => toSavedBill(billState, Date.now());
+
+  // Keep history and the reload session in step with the open bill
+  useEffect(() => {
+    if (!isSessionRestored) return;
+    const bill = currentBill();
+    if (!bill) {
+      saveCurrentSession(null).catch(e => console.error("Session save error", e));
+      return;
     }
+    saveCurrentSession({ bill, appState }).catch(e => console.error("Session save error", e));
+    // Empty drafts stay out of history until they have something worth finding again
+    if (bill.receipt.items.length > 0) saveBill(bill).catch(e => console.error("History save error", e));
+  }, [isSessionRestored, billState, appState]);
+
+  const loadHistory = () => {
+    listBills()
+      .then(setHistory)
+      .catch(e => setError(e.message));
+  };
+
+  const handleDeleteBill = (id: string) => {
+    deleteBill(id)
+      .then(() => setHistory(prev => prev.filter(bill => bill.id !== id)))
+      .catch(e => setError(e.message));
+    if (id === billId) dispatch({ type: 'CLOSE_BILL' });
+  };
+
+  /** Reads a bill exported from SUMMARY back into history and opens it. */
+  const handleImportBill = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(json => {
+        const bill = parseBillJson(json);
+        return saveBill(bill).then(() => {
+          setError(null);
+          restoreBill(bill, AppState.SUMMARY);
+        });
+      })
+      .catch(e => setError(e.message));
+  };
+
+  // The printable receipts render first, then the browser's print dialog picks them up
+  useEffect(() => {
+    if (!printTarget) return;
+    const done = () => setPrintTarget(null);
+    window.addEventListener('afterprint', done);
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [printTarget]);
+
+  /** Starts settle-up with every open table bill that has a payer recorded. */
+  const loadSettleUp = () => {
+    Promise.all([listBills(), listTransfers()])
+      .then(([bills, transfers]) => {
+        setHistory(bills);
+        setRecordedTransfers(transfers);
+        setSettleBillIds(bills.filter(b => !b.isSettled && b.splitMode === 'table' && (b.payments || []).length > 0).map(b => b.id));
+      })
+      .catch(e => setError(e.message));
+  };
+
+  // These screens read from storage whenever they're shown, back and forward included
+  useEffect(() => {
+    if (appState === AppState.HISTORY) loadHistory();
+    if (appState === AppState.SETTLE_UP) loadSettleUp();
+    if (appState === AppState.HOME || appState === AppState.GROUPS) loadGroups();
+    if (appState !== AppState.GROUPS) setGroupNotice(null);
+  }, [appState]);
+
+  const openHistory = () => setAppState(AppState.HISTORY);
+
+  const openSettleUp = () => setAppState(AppState.SETTLE_UP);
+
+  const loadGroups = () => {
+    listGroups()
+      .then(loaded => {
+        setGroups(loaded);
+        setGroupId(prev => loaded.some(g => g.id === prev) ? prev : '');
+      })
+      .catch(e => setError(e.message));
+  };
+
+  const createGroup = () => {
+    const name = sanitizeString(newGroupName).substring(0, 40);
+    if (!name) return;
+    const group = newGroup(name);
+    saveGroup(group)
+      .then(() => {
+        setGroups(prev => [...prev, group]);
+        setNewGroupName('');
+      })
+      .catch(e => setError(e.message));
+  };
+
+  const updateGroup = (group: Group) => {
+    const updated = { ...group, updatedAt: Date.now() };
+    saveGroup(updated)
+      .then(() => setGroups(prev => prev.map(g => g.id === updated.id ? updated : g)))
+      .catch(e => setError(e.message));
+  };
+
+  const removeGroup = (id: string) => {
+    deleteGroup(id)
+      .then(() => {
+        setGroups(prev => prev.filter(g => g.id !== id));
+        if (groupId === id) setGroupId('');
+      })
+      .catch(e => setError(e.message));
+  };
+
+  const exportGroups = () => downloadFile(groupsToJson(groups), 'application/json', 'billsplit-groups.json');
+
+  /** Adds groups from a teammate's export; a group that's already here is replaced by the file's copy. */
+  const handleImportGroups = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(json => {
+        const imported = parseGroupsJson(json);
+        return Promise.all(imported.map(saveGroup)).then(() => {
+          setError(null);
+          setGroupNotice(t('group.imported', { count: imported.length }));
+          loadGroups();
+        });
+      })
+      .catch(e => setError(e.message));
+  };
+
+  const toggleSettleBill = (id: string) => {
+    setSettleBillIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const markTransferPaid = (transfer: Transfer) => {
+    const record: RecordedTransfer = { ...transfer, id: `tr-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, billIds: settleBillIds, paidAt: Date.now() };
+    saveTransfer(record)
+      .then(() => setRecordedTransfers(prev => [...prev, record]))
+      .catch(e => setError(e.message));
+  };
+
+  const undoTransfer = (id: string) => {
+    deleteTransfer(id)
+      .then(() => setRecordedTransfers(prev => prev.filter(t => t.id !== id)))
+      .catch(e => setError(e.message));
+  };
+
+  const markBillsSettled = () => {
+    const updated = history.filter(b => settleBillIds.includes(b.id)).map(b => ({ ...b, isSettled: true, updatedAt: Date.now() }));
+    Promise.all(updated.map(saveBill))
+      .then(() => {
+        setHistory(prev => prev.map(b => updated.find(u => u.id === b.id) || b));
+        setSettleBillIds([]);
+      })
+      .catch(e => setError(e.message));
+    if (billId && settleBillIds.includes(billId)) dispatch({ type: 'SET_SETTLED', isSettled: true });
   };
 
   const handleStartOver = () => {
-    setReceipt(null);
-    setUserSelections({});
+    dispatch({ type: 'CLOSE_BILL' });
+    setHomeCurrency('');
+    setIsEditing(false);
     setAppState(AppState.HOME);
-    window.history.replaceState(null, "", window.location.href.split('#')[0]);
+    window.history.replaceState(null, '', withoutSharePayload(window.location.href));
+  };
+
+  const renderFieldErrors = () => {
+    if (fieldErrors.length === 0) return null;
+    return (
+      <div className="mb-6 p-4 bg-amber-50 text-amber-700 rounded-xl border border-amber-100 text-sm text-left space-y-1">
+        <p className="font-semibold">{t('confirm.fieldErrors')}</p>
+        {fieldErrors.slice(0, 5).map((f, idx) => <p key={idx} className="font-mono text-xs">{f.path}: {f.message}</p>)}
+        {fieldErrors.length > 5 && <p className="text-xs">{t('confirm.moreFieldErrors', { count: fieldErrors.length - 5 })}</p>}
+      </div>
+    );
+  };
+
+  /** Everything the extractor gave a confidence or position for; unsure values stand out and open their photo region. */
+  const renderExtractedValues = () => {
+    if (!receipt) return null;
+    const rows = [
+      ...receipt.items.map(item => ({ key: item.id, label: item.description, amount: item.price, source: item.source })),
+      ...TOTAL_FIELDS.map(field => ({ key: field, label: t(`totals.${field}`), amount: receipt[field], source: receipt.totalSources?.[field] }))
+    ].filter((row): row is typeof row & { source: FieldSource } => !!row.source);
+    if (rows.length === 0) return null;
+    const unsure = rows.filter(row => (row.source.confidence ?? 1) < LOW_CONFIDENCE).length;
+    return (
+      <div className="mb-6 bg-white rounded-2xl border border-gray-100 text-sm text-left overflow-hidden">
+        <p className="px-4 pt-4 pb-2 text-xs font-bold text-gray-400 uppercase tracking-wider">
+          {unsure > 0 ? t('confirm.toCheck', { count: unsure }) : t('confirm.readFromPhoto')}
+        </p>
+        {rows.map(row => {
+          const isUnsure = (row.source.confidence ?? 1) < LOW_CONFIDENCE;
+          const canInspect = !!row.source.box && receiptImages.length > 0;
+          return (
+            <button
+              key={row.key}
+              onClick={() => setInspecting({ label: `${row.label} · ${price(row.amount)}`, source: row.source })}
+              disabled={!canInspect && row.source.confidence === undefined}
+              className={`w-full flex items-center justify-between px-4 py-2 border-t border-gray-50 text-left ${isUnsure ? 'bg-amber-50 text-amber-800' : 'text-gray-700'}`}
+            >
+              <span className="truncate mr-3">{row.label}</span>
+              <span className="flex items-center space-x-2 shrink-0">
+                {row.source.confidence !== undefined && (
+                  <span className={`text-xs ${isUnsure ? 'font-bold' : 'text-gray-400'}`}>{formatPercent(Math.round(row.source.confidence * 100))}</span>
+                )}
+                <span className="font-mono">{price(row.amount)}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderReconciliationWarnings = () => {
+    if (!reconciliation || reconciliation.isBalanced) return null;
+    return (
+      <div className="mb-6 p-4 bg-amber-50 text-amber-700 rounded-xl border border-amber-100 text-sm text-left space-y-1">
+        <p className="font-semibold">{t('reconcile.title')}</p>
+        {reconciliation.issues.map((issue, idx) => (
+          <p key={`${issue.kind}-${issue.itemId || idx}`}>{issue.message}</p>
+        ))}
+      </div>
+    );
+  };
+
+  /** A currency symbol nobody could place is kept as printed; the user confirms the real one in the editor. */
+  const renderCurrencyCheck = () => {
+    if (!receipt || isCurrencyCode(receipt.currency)) return null;
+    return (
+      <div className="mb-6 p-4 bg-amber-50 text-amber-700 rounded-xl border border-amber-100 text-sm text-left space-y-2">
+        <p>{t('confirm.unknownCurrency', { currency: receipt.currency })}</p>
+        <button onClick={() => setIsEditing(true)} className="font-semibold text-amber-800 underline">{t('confirm.setCurrency')}</button>
+      </div>
+    );
+  };
+
+  const renderTipPanel = () => {
+    if (!receipt || !calculations) return null;
+    return (
+      <TipPanel
+        policy={receipt.tipPolicy || DEFAULT_TIP_POLICY}
+        currency={currency}
+        receiptTip={receipt.tip}
+        tipTotal={(splitMode === 'table' ? calculations.table : calculations.solo).tipTotal}
+        decimals={decimals}
+        showHeadcount={splitMode === 'solo'}
+        onChange={updateTipPolicy}
+      />
+    );
+  };
+
+  const renderLanguageBar = () => {
+    if (!receipt || receipt.items.length === 0) return null;
+    return <LanguageBar receipt={receipt} showOriginal={showOriginal} onToggle={setShowOriginal} onTranslate={retranslate} />;
+  };
+
+  const renderExchangeRatePanel = () => {
+    if (!receipt) return null;
+    return <ExchangeRatePanel receiptCurrency={receipt.currency} rates={receipt.exchangeRates || []} onChange={updateExchangeRates} />;
   };
 
   const renderContent = () => {
+    const tipLabel = receipt?.tipPolicy?.split === 'EQUAL' ? t('summary.tipEqual') : t('summary.tipProportional');
     switch (appState) {
       case AppState.HOME:
         return (
@@ -252,122 +880,598 @@ const App: React.FC = () => {
               </svg>
             </div>
             <h1 className="text-3xl font-bold text-gray-900 mb-2">BillSplit Pro</h1>
-            <p className="text-gray-500 mb-8 max-w-xs">AI-powered receipt splitting. Secure, private, and client-side only.</p>
+            <p className="text-gray-500 mb-8 max-w-xs">{t('home.tagline')}</p>
             
             <div className="w-full max-w-xs space-y-4">
               <div className="flex flex-col text-left">
-                <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Translation Language</label>
+                <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">{t('home.language')}</label>
                 <select 
                   value={targetLang}
-                  onChange={(e) => setTargetLang(e.target.value)}
+                  onChange={(e) => changeLanguage(e.target.value)}
                   className="w-full p-3 bg-white border border-gray-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500"
                 >
-                  {SUPPORTED_LANGUAGES.map(lang => (
-                    <option key={lang.code} value={lang.code}>{lang.name}</option>
+                  {listLocales().map(locale => (
+                    <option key={locale.code} value={locale.code}>{locale.nativeName}</option>
                   ))}
                 </select>
               </div>
 
-              <div className="space-y-3">
-                <button 
-                  onClick={() => setAppState(AppState.CAMERA)}
-                  className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold shadow-lg shadow-blue-200 hover:bg-blue-700 transition-all flex items-center justify-center space-x-2"
-                >
-                  <span>Scan New Receipt</span>
-                </button>
-
-                <button 
-                  onClick={() => fileInputRef.current?.click()}
-                  className="w-full bg-white border border-gray-200 text-gray-700 py-4 px-6 rounded-2xl font-semibold hover:bg-gray-50 transition-all"
+              <div className="flex flex-col text-left">
+                <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">{t('home.reader')}</label>
+                <select 
+                  value={extractorId}
+                  onChange={(e) => setExtractorId(e.target.value as ExtractorId)}
+                  className="w-full p-3 bg-white border border-gray-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500"
                 >
-                  Upload from Gallery
-                </button>
-                <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" className="hidden" />
+                  {EXTRACTORS.map(extractor => (
+                    <option key={extractor.id} value={extractor.id}>{extractor.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-2">{getExtractor(extractorId).description}</p>
               </div>
+
+              {groups.length > 0 && (
+                <div className="flex flex-col text-left">
+                  <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">{t('group.pick')}</label>
+                  <select
+                    value={groupId}
+                    onChange={(e) => setGroupId(e.target.value)}
+                    className="w-full p-3 bg-white border border-gray-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">{t('group.none')}</option>
+                    {groups.map(group => (
+                      <option key={group.id} value={group.id}>{group.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {getExtractor(extractorId).input === 'text' ? (
+                <div className="space-y-3">
+                  <textarea
+                    value={receiptText}
+                    onChange={(e) => setReceiptText(e.target.value)}
+                    rows={8}
+                    placeholder={"Joe's Pizza\n2 x Margherita 24.00\nSalad 9.50\nTax 2.70\nTotal 36.20"}
+                    className="w-full p-3 bg-white border border-gray-200 rounded-xl shadow-sm font-mono text-sm text-left focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button 
+                    onClick={handleParseText}
+                    disabled={!receiptText.trim()}
+                    className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold shadow-lg shadow-blue-200 hover:bg-blue-700 transition-all disabled:bg-gray-200 disabled:shadow-none"
+                  >
+                    {t('home.readText')}
+                  </button>
+                  <button 
+                    onClick={handleStartBlank}
+                    className="w-full text-gray-500 py-2 text-sm font-semibold hover:text-gray-900 transition-all"
+                  >
+                    {t('home.manual')}
+                  </button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <button 
+                    onClick={() => setAppState(AppState.CAMERA)}
+                    className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold shadow-lg shadow-blue-200 hover:bg-blue-700 transition-all flex items-center justify-center space-x-2"
+                  >
+                    <span>{t('home.scan')}</span>
+                  </button>
+
+                  <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full bg-white border border-gray-200 text-gray-700 py-4 px-6 rounded-2xl font-semibold hover:bg-gray-50 transition-all"
+                  >
+                    {t('home.upload')}
+                  </button>
+                  <button 
+                    onClick={handleStartBlank}
+                    className="w-full text-gray-500 py-2 text-sm font-semibold hover:text-gray-900 transition-all"
+                  >
+                    {t('home.manual')}
+                  </button>
+                  <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" multiple className="hidden" />
+                </div>
+              )}
             </div>
             
+            {(!isOnline || queuedScans.length > 0) && (
+              <div className="w-full max-w-xs mt-6 bg-white rounded-2xl border border-gray-100 text-sm text-left overflow-hidden">
+                <p className="px-4 pt-4 pb-2 text-xs font-bold text-gray-400 uppercase tracking-wider">{t('queue.title')}</p>
+                {!isOnline && <p className="px-4 pb-3 text-xs text-amber-700">{t('queue.offline')}</p>}
+                {queuedScans.map(scan => {
+                  const status = readingScanId === scan.id ? 'reading' : scanStatus(scan);
+                  return (
+                    <div key={scan.id} className="px-4 py-3 border-t border-gray-50 space-y-1">
+                      <p className="font-semibold text-gray-700">{t('queue.scannedAt', { time: formatDateTime(scan.queuedAt) })}</p>
+                      {status === 'reading' && <p className="text-xs text-blue-600">{t('queue.reading')}</p>}
+                      {status === 'waiting' && (
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="text-gray-400">{t('queue.waiting')}</span>
+                          <span className="space-x-3">
+                            {isOnline && <button onClick={drainScanQueue} className="font-semibold text-blue-600">{t('queue.readNow')}</button>}
+                            <button onClick={() => dismissQueuedScan(scan.id)} className="font-semibold text-gray-400">{t('queue.discard')}</button>
+                          </span>
+                        </div>
+                      )}
+                      {status === 'failed' && (
+                        <div className="space-y-1 text-xs">
+                          <p className="text-red-600">{t('queue.failed', { reason: scan.error || '' })}</p>
+                          <span className="space-x-3">
+                            <button onClick={() => retryQueuedScan(scan)} className="font-semibold text-blue-600">{t('home.tryAgain')}</button>
+                            <button onClick={() => dismissQueuedScan(scan.id)} className="font-semibold text-gray-400">{t('queue.discard')}</button>
+                          </span>
+                        </div>
+                      )}
+                      {status === 'ready' && (
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="text-green-600">{t('queue.ready')}</span>
+                          <span className="space-x-3">
+                            <button onClick={() => openQueuedScan(scan)} className="font-semibold text-blue-600">{t('queue.open')}</button>
+                            <button onClick={() => dismissQueuedScan(scan.id)} className="font-semibold text-gray-400">{t('queue.dismiss')}</button>
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="w-full max-w-xs mt-6 pt-6 border-t border-gray-100 space-y-2">
+              {receipt && (
+                <button onClick={() => setAppState(AppState.SELECT_ITEMS)} className="w-full text-blue-600 py-2 text-sm font-semibold">
+                  {t('home.continue', { name: receipt.restaurantName || t('home.currentBill') })}
+                </button>
+              )}
+              <button onClick={openHistory} className="w-full text-gray-500 py-2 text-sm font-semibold hover:text-gray-900 transition-all">
+                {t('home.history')}
+              </button>
+              <button onClick={openSettleUp} className="w-full text-gray-500 py-2 text-sm font-semibold hover:text-gray-900 transition-all">
+                {t('home.settleUp')}
+              </button>
+              <button onClick={() => setAppState(AppState.GROUPS)} className="w-full text-gray-500 py-2 text-sm font-semibold hover:text-gray-900 transition-all">
+                {t('group.title')}
+              </button>
+            </div>
+
             {error && (
               <div className="mt-6 p-4 bg-red-50 text-red-600 rounded-xl border border-red-100 text-sm max-w-xs">
                 {error}
+                {errorKind && errorKind !== 'NO_API_KEY' && lastExtractionRef.current && (
+                  <button onClick={retryExtraction} className="block mx-auto mt-3 font-semibold underline">{t('home.tryAgain')}</button>
+                )}
+                {errorKind === 'NO_API_KEY' && (
+                  <button onClick={() => { setExtractorId('local'); setError(null); }} className="block mx-auto mt-3 font-semibold underline">{t('home.typeInstead')}</button>
+                )}
               </div>
             )}
           </div>
         );
 
+      case AppState.HISTORY: {
+        const matches = history.filter(bill => matchesHistoryQuery(bill, historyQuery));
+        return (
+          <div className="max-w-md mx-auto p-6 space-y-4 pb-20 animate-in slide-in-from-right duration-300">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{t('home.history')}</h2>
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-semibold text-blue-600 cursor-pointer">
+                  {t('export.import')}
+                  <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportBill} />
+                </label>
+                <button onClick={() => setAppState(AppState.HOME)} className="text-sm font-semibold text-gray-400">{t('common.close')}</button>
+              </div>
+            </div>
+            {error && <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100 text-sm">{error}</div>}
+            <input
+              value={historyQuery}
+              onChange={(e) => setHistoryQuery(e.target.value)}
+              placeholder={t('history.search')}
+              className="w-full p-3 bg-white border border-gray-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500"
+            />
+            {matches.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-10">{history.length === 0 ? t('history.empty') : t('history.noMatch')}</p>
+            ) : matches.map(bill => (
+              <div key={bill.id} className={`bg-white rounded-2xl p-4 border ${bill.id === billId ? 'border-blue-200' : 'border-gray-100'}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{bill.receipt.restaurantName || t('common.untitled')}</h3>
+                    <p className="text-xs text-gray-400">
+                      {bill.receipt.date ? formatDate(bill.receipt.date) : formatTimestamp(bill.createdAt)} · {t('history.items', { count: bill.receipt.items.length })}
+                      {bill.splitMode === 'table' && ` · ${t('history.diners', { count: bill.participants.length })}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono font-bold text-gray-900">
+                      {formatMoney(toMinor(bill.receipt.total, currencyDecimals(bill.receipt.currency)), bill.receipt.currency)}
+                    </p>
+                    <span className={`text-xs font-bold uppercase ${bill.isSettled ? 'text-green-600' : 'text-amber-600'}`}>{bill.isSettled ? t('common.settled') : t('common.open')}</span>
+                  </div>
+                </div>
+                <div className="flex justify-end space-x-4 mt-3 text-sm font-semibold">
+                  <button onClick={() => handleDeleteBill(bill.id)} className="text-red-500">{t('common.delete')}</button>
+                  <button onClick={() => restoreBill(bill, AppState.SELECT_ITEMS)} className="text-blue-600">{t('history.reopen')}</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case AppState.GROUPS:
+        return (
+          <div className="max-w-md mx-auto p-6 space-y-4 pb-20 animate-in slide-in-from-right duration-300">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{t('group.title')}</h2>
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-semibold text-blue-600 cursor-pointer">
+                  {t('group.import')}
+                  <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportGroups} />
+                </label>
+                {groups.length > 0 && (
+                  <button onClick={exportGroups} className="text-sm font-semibold text-blue-600">{t('group.export')}</button>
+                )}
+                <button onClick={() => setAppState(AppState.HOME)} className="text-sm font-semibold text-gray-400">{t('common.close')}</button>
+              </div>
+            </div>
+            {error && <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100 text-sm">{error}</div>}
+            {groupNotice && <div className="p-4 bg-green-50 text-green-700 rounded-xl border border-green-100 text-sm">{groupNotice}</div>}
+            <form onSubmit={(e) => { e.preventDefault(); createGroup(); }} className="flex items-center space-x-2">
+              <input
+                value={newGroupName}
+                onChange={(e) => setNewGroupName(e.target.value)}
+                placeholder={t('group.newPlaceholder')}
+                className="flex-1 p-3 bg-white border border-gray-200 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500"
+              />
+              <button type="submit" disabled={!newGroupName.trim()} className="px-4 py-3 bg-gray-900 text-white rounded-xl font-semibold disabled:bg-gray-200">
+                {t('group.create')}
+              </button>
+            </form>
+            {groups.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-10">{t('group.empty')}</p>
+            ) : groups.map(group => (
+              <GroupEditor key={group.id} group={group} onChange={updateGroup} onDelete={() => removeGroup(group.id)} />
+            ))}
+          </div>
+        );
+
+      case AppState.SETTLE_UP: {
+        const candidates = history.filter(b => b.splitMode === 'table');
+        return (
+          <div className="max-w-md mx-auto p-6 space-y-6 pb-20 animate-in slide-in-from-right duration-300">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{t('home.settleUp')}</h2>
+              <button onClick={() => setAppState(receipt ? AppState.SUMMARY : AppState.HOME)} className="text-sm font-semibold text-gray-400">{t('common.close')}</button>
+            </div>
+
+            <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-3">
+              <h3 className="font-bold text-gray-900">{t('settle.bills')}</h3>
+              {candidates.length === 0 && <p className="text-sm text-gray-400">{t('settle.noBills')}</p>}
+              {candidates.map(bill => {
+                const paid = (bill.payments || []).map(p => bill.participants.find(x => x.id === p.participantId)?.name).filter(Boolean);
+                return (
+                  <label key={bill.id} className="flex items-start space-x-3 text-sm">
+                    <input type="checkbox" checked={settleBillIds.includes(bill.id)} onChange={() => toggleSettleBill(bill.id)} className="mt-1" />
+                    <span className="flex-1">
+                      <span className="font-semibold text-gray-800">{bill.receipt.restaurantName || t('common.untitled')}</span>
+                      {bill.isSettled && <span className="text-xs font-bold text-green-600 uppercase"> · {t('common.settled')}</span>}
+                      <span className="block text-xs text-gray-400">
+                        {bill.receipt.date ? formatDate(bill.receipt.date) : formatTimestamp(bill.createdAt)} · {paid.length > 0 ? t('settle.paidBy', { names: paid.join(', ') }) : t('settle.noPayer')}
+                      </span>
+                    </span>
+                    <span className="font-mono text-gray-700">{formatMoney(toMinor(bill.receipt.total, currencyDecimals(bill.receipt.currency)), bill.receipt.currency)}</span>
+                  </label>
+                );
+              })}
+            </div>
+
+            {Object.keys(settlement.balances).map(currency => (
+              <div key={currency} className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-2">
+                <h3 className="font-bold text-gray-900">{t('settle.balances', { currency })}</h3>
+                {Object.keys(settlement.balances[currency]).map(name => {
+                  const amount = settlement.balances[currency][name];
+                  return (
+                    <div key={name} className="flex justify-between text-sm">
+                      <span className="text-gray-700">{name}</span>
+                      <span className={`font-mono font-semibold ${amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {t(amount > 0 ? 'settle.getsBack' : 'settle.owes', { amount: formatMoney(Math.abs(amount), currency) })}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+
+            <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-3">
+              <h3 className="font-bold text-gray-900">{t('settle.transfers')}</h3>
+              {settlement.transfers.length === 0 ? (
+                <p className="text-sm text-gray-400">{settlement.bills.length === 0 ? t('settle.pickBills') : t('settle.allSettled')}</p>
+              ) : settlement.transfers.map(transfer => (
+                <div key={`${transfer.currency}-${transfer.from}-${transfer.to}`} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-800">{formatTransfer(transfer)}</span>
+                  <button onClick={() => markTransferPaid(transfer)} className="text-xs font-semibold text-blue-600">{t('settle.markPaid')}</button>
+                </div>
+              ))}
+              {settlement.paid.map(transfer => (
+                <div key={transfer.id} className="flex items-center justify-between text-sm text-gray-400">
+                  <span className="line-through">{formatTransfer(transfer)}</span>
+                  <button onClick={() => undoTransfer(transfer.id)} className="text-xs font-semibold">{t('common.undo')}</button>
+                </div>
+              ))}
+            </div>
+
+            <button onClick={exportSettlement} disabled={settlement.bills.length === 0} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold disabled:bg-gray-200">
+              {t('settle.export')}
+            </button>
+            {settlement.bills.length > 0 && settlement.transfers.length === 0 && (
+              <button onClick={markBillsSettled} className="w-full bg-green-50 border border-green-200 text-green-700 py-4 rounded-2xl font-semibold">
+                {t('settle.markBills', { count: settlement.bills.length })}
+              </button>
+            )}
+          </div>
+        );
+      }
+
+      case AppState.PREVIEW:
+        return (
+          <ImagePreview
+            images={pendingImages}
+            onConfirm={(images) => { setPendingImages([]); runExtraction({ images }); }}
+            onCancel={() => { setPendingImages([]); setAppState(AppState.CAMERA); }}
+          />
+        );
+
       case AppState.PROCESSING:
         return (
           <div className="flex flex-col items-center justify-center min-h-[80vh] px-6 text-center">
             <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-6"></div>
-            <h2 className="text-xl font-semibold text-gray-900 mb-2">Analyzing Data</h2>
-            <p className="text-gray-500 text-sm">{loadingMessage}</p>
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">{t('processing.title')}</h2>
+            <p className="text-gray-500 text-sm">{loadingMessage || t('processing.analyzing')}</p>
+            <button onClick={cancelExtraction} className="mt-8 text-sm font-semibold text-gray-400 hover:text-gray-900">
+              {t('common.cancel')}
+            </button>
           </div>
         );
 
       case AppState.CONFIRM_INFO:
         if (!receipt) return null;
+        if (isEditing) {
+          return (
+            <div className="max-w-md mx-auto p-6 pb-20 animate-in slide-in-from-bottom duration-500">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">{t('confirm.review')}</h2>
+              {renderReconciliationWarnings()}
+              <ReceiptEditor receipt={receipt} onChange={handleReceiptEdit} onDone={() => setIsEditing(false)} />
+            </div>
+          );
+        }
         return (
           <div className="max-w-md mx-auto p-6 animate-in slide-in-from-bottom duration-500">
             <div className="bg-white rounded-3xl p-8 shadow-sm border border-gray-100 mb-6 text-center relative overflow-hidden">
-               <div className="absolute top-0 left-0 w-full h-1 bg-green-500 opacity-50"></div>
-               <span className="text-xs font-bold text-blue-600 uppercase tracking-widest block mb-4">Integrity Verified</span>
-               <h2 className="text-2xl font-bold text-gray-900 mb-1">{receipt.restaurantName}</h2>
-               <p className="text-gray-400 mb-6">{receipt.date || 'No Date'}</p>
+               <div className={`absolute top-0 left-0 w-full h-1 opacity-50 ${reconciliation?.isBalanced ? 'bg-green-500' : 'bg-amber-500'}`}></div>
+               <span className={`text-xs font-bold uppercase tracking-widest block mb-4 ${reconciliation?.isBalanced ? 'text-blue-600' : 'text-amber-600'}`}>
+                 {reconciliation?.isBalanced ? t('confirm.reconciled') : t('confirm.needsReview')}
+               </span>
+               <h2 className="text-2xl font-bold text-gray-900 mb-1">{receipt.restaurantName || t('common.untitled')}</h2>
+               <p className="text-gray-400 mb-6">{receipt.date ? formatDate(receipt.date) : t('common.noDate')}</p>
                <div className="text-3xl font-mono font-bold text-gray-900 bg-gray-50 py-4 rounded-2xl">
-                 {receipt.currency}{receipt.total.toFixed(2)}
+                 {price(receipt.total)}
                </div>
             </div>
 
+            {renderFieldErrors()}
+            {renderCurrencyCheck()}
+            {renderReconciliationWarnings()}
+            {renderExtractedValues()}
+
             <div className="space-y-3">
-              <button onClick={() => setAppState(AppState.SELECT_ITEMS)} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold">
-                Claim My Items
+              <button onClick={() => { dispatch({ type: 'SET_SPLIT_MODE', splitMode: 'solo' }); setAppState(AppState.SELECT_ITEMS); }} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold">
+                {t('confirm.claimMine')}
+              </button>
+              <button onClick={() => { dispatch({ type: 'SET_SPLIT_MODE', splitMode: 'table' }); setAppState(AppState.SELECT_ITEMS); }} className="w-full bg-gray-900 text-white py-4 px-6 rounded-2xl font-semibold">
+                {t('confirm.splitTable')}
+              </button>
+              <button onClick={() => setIsSharing(true)} className="w-full bg-white border border-gray-200 text-gray-700 py-4 px-6 rounded-2xl font-semibold">
+                {t('confirm.share')}
               </button>
-              <button onClick={generateShareLink} className="w-full bg-white border border-gray-200 text-gray-700 py-4 px-6 rounded-2xl font-semibold">
-                Share Link with Friends
+              <button onClick={() => setIsEditing(true)} className="w-full bg-white border border-gray-200 text-gray-700 py-4 px-6 rounded-2xl font-semibold">
+                {t('confirm.edit')}
               </button>
               <button onClick={handleStartOver} className="w-full text-gray-400 py-3 text-sm font-medium">
-                Reset
+                {t('confirm.reset')}
               </button>
             </div>
           </div>
         );
 
       case AppState.SELECT_ITEMS:
-        if (!receipt) return null;
+        if (!receipt || !calculations) return null;
+        if (splitMode === 'table') {
+          return (
+            <div className="max-w-2xl mx-auto pb-40 animate-in slide-in-from-right duration-300">
+              <div className="p-6 sticky top-0 bg-white/90 backdrop-blur-md z-10 border-b border-gray-100 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">{t('table.title')}</h2>
+                    <p className="text-xs text-gray-400">{receipt.restaurantName}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs font-bold text-gray-400 uppercase">{t('table.unclaimed')}</p>
+                    <p className={`text-lg font-bold ${calculations.table.unclaimedItemIds.length > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                      {money(calculations.table.unclaimedAmount)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {participants.map(p => (
+                    <div key={p.id} onClick={() => dispatch({ type: 'SET_ACTIVE_PARTICIPANT', participantId: p.id })} className={`flex items-center pl-3 pr-1 py-1 rounded-full text-sm font-semibold cursor-pointer border ${activeParticipantId === p.id ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-700'}`}>
+                      <Avatar participant={p} className="w-5 h-5 -ml-1 mr-2" />
+                      <span>{p.name}</span>
+                      <button onClick={(e) => { e.stopPropagation(); removeParticipant(p.id); }} className="ml-1 px-2 opacity-60 hover:opacity-100">×</button>
+                    </div>
+                  ))}
+                  <form onSubmit={(e) => { e.preventDefault(); addParticipant(); }} className="flex items-center">
+                    <input
+                      value={newParticipantName}
+                      onChange={(e) => setNewParticipantName(e.target.value)}
+                      placeholder={t('table.addDiner')}
+                      className="w-28 px-3 py-1 text-sm bg-gray-50 border border-gray-200 rounded-full focus:ring-2 focus:ring-blue-500"
+                    />
+                  </form>
+                </div>
+                {participants.length > 0 && !activeParticipantId && (
+                  <p className="text-xs text-gray-400">{t('table.tapHint')}</p>
+                )}
+                {renderLanguageBar()}
+                <form onSubmit={(e) => { e.preventDefault(); handleClaimCode(); }} className="flex items-center space-x-2">
+                  <input
+                    value={claimCode}
+                    onChange={(e) => setClaimCode(e.target.value)}
+                    placeholder={t('table.claimPlaceholder')}
+                    className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button type="submit" disabled={!claimCode.trim()} className="px-4 py-2 bg-gray-900 text-white rounded-xl text-sm font-semibold disabled:bg-gray-200">{t('table.addClaim')}</button>
+                </form>
+                {claimNotice && <p className="text-xs text-gray-500">{claimNotice}</p>}
+                {claimConflicts.some(c => c.kind !== 'UNCLAIMED') && (
+                  <p className="text-xs font-semibold text-red-600">
+                    {t('table.conflicts', { count: claimConflicts.filter(c => c.kind !== 'UNCLAIMED').length })}
+                  </p>
+                )}
+              </div>
+
+              <div className="px-6 py-4 space-y-3">
+                {participants.length > 0 && (
+                  <SplitRulesPanel rules={splitRules} participants={participants} onChange={(rules: SplitRule[]) => dispatch({ type: 'SET_SPLIT_RULES', rules })} />
+                )}
+                {receipt.items.map((item) => {
+                  const assignment = assignments[item.id];
+                  // A rule for the item's category decides who shares it; taps only change the assignment underneath
+                  const rule = ruleForItem(splitRules, item);
+                  const ruled = rule && ruleFractions(rule, participants.map(p => p.id));
+                  const assignedIds = ruled ? Object.keys(ruled) : sharedBy(assignment, participants.map(p => p.id));
+                  const isActiveAssigned = !ruled && !!activeParticipantId && assignedIds.includes(activeParticipantId);
+                  const isUnclaimed = assignedIds.length === 0;
+                  const conflict = ruled ? undefined : claimConflicts.find(c => c.itemId === item.id && c.kind !== 'UNCLAIMED');
+
+                  return (
+                    <div key={item.id} onClick={() => !ruled && toggleAssignment(item.id)} className={`p-4 rounded-2xl border transition-all cursor-pointer ${isActiveAssigned ? 'bg-blue-50 border-blue-200 shadow-sm' : conflict ? 'bg-red-50 border-red-200' : isUnclaimed ? 'bg-white border-amber-200' : 'bg-white border-gray-100'}`}>
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <h3 className={`font-semibold ${isActiveAssigned ? 'text-blue-900' : 'text-gray-800'}`}>{itemName(item)}</h3>
+                          <p className="text-sm text-gray-500">
+                            {price(item.price)}
+                            <span className="text-xs text-gray-400"> · {categoryName(itemCategory(item))}</span>
+                            {assignedIds.length > 1 && <span className="text-xs text-gray-400"> · {t('table.ways', { count: assignedIds.length })}</span>}
+                          </p>
+                          {ruled && <p className="text-xs font-semibold text-blue-600 mt-1">{t('table.byRule', { rule: describeRule(rule!, participants) })}</p>}
+                          {conflict && <p className="text-xs font-semibold text-red-600 mt-1">{conflict.message}</p>}
+                          {isActiveAssigned && (
+                            <div onClick={(e) => e.stopPropagation()} className="flex items-center space-x-2 mt-2 text-xs font-bold text-blue-900">
+                              <span>{t('select.share')}</span>
+                              {/* Uncontrolled while typing: the "0" of "0.6" must not drop the share; taking a diner off is the tap's job */}
+                              <input
+                                key={`weight-${item.id}-${activeParticipantId}`}
+                                type="number"
+                                min="0"
+                                step="any"
+                                defaultValue={assignment!.shares[activeParticipantId!]}
+                                onChange={(e) => Number(e.target.value) > 0 && setItemWeight(item.id, activeParticipantId!, Number(e.target.value))}
+                                onBlur={(e) => { if (!(Number(e.target.value) > 0)) e.target.value = String(assignment!.shares[activeParticipantId!]); }}
+                                className="w-14 px-2 py-1 bg-white border border-blue-100 rounded-lg font-mono"
+                              />
+                              <span>{t('select.of')}</span>
+                              <input
+                                key={`total-${item.id}`}
+                                type="number"
+                                min="0"
+                                step="any"
+                                defaultValue={assignment!.totalShares ?? ''}
+                                placeholder={formatNumber(shareDenominator(assignment, participants.map(p => p.id)))}
+                                onChange={(e) => (e.target.value === '' || Number(e.target.value) > 0) && setItemTotal(item.id, e.target.value)}
+                                onBlur={(e) => { if (e.target.value !== '' && !(Number(e.target.value) > 0)) e.target.value = String(assignment!.totalShares ?? ''); }}
+                                className="w-14 px-2 py-1 bg-white border border-blue-100 rounded-lg font-mono"
+                              />
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex -space-x-2">
+                          {isUnclaimed ? (
+                            <span className="text-xs font-bold text-amber-600 uppercase">{t('table.unclaimed')}</span>
+                          ) : assignedIds.map(id => {
+                            const participant = participants.find(p => p.id === id)!;
+                            return <Avatar key={id} participant={participant} isActive={id === activeParticipantId} className="w-8 h-8 border-2 border-white" />;
+                          })}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="fixed bottom-0 left-0 right-0 p-6 bg-white border-t border-gray-100 z-20">
+                <button onClick={() => setAppState(AppState.SUMMARY)} disabled={calculations.table.shares.every(s => s.subtotal === 0)} className="w-full max-w-2xl mx-auto block bg-gray-900 text-white py-4 rounded-2xl font-bold disabled:bg-gray-200">
+                  {t('table.viewSummary')}
+                </button>
+              </div>
+            </div>
+          );
+        }
         return (
           <div className="max-w-2xl mx-auto pb-40 animate-in slide-in-from-right duration-300">
-            <div className="p-6 sticky top-0 bg-white/90 backdrop-blur-md z-10 border-b border-gray-100 flex items-center justify-between">
-              <div>
-                <h2 className="text-xl font-bold text-gray-900">Select Items</h2>
-                <p className="text-xs text-gray-400">{receipt.restaurantName}</p>
-              </div>
-              <div className="text-right">
-                <p className="text-xs font-bold text-gray-400 uppercase">My Share</p>
-                <p className="text-lg font-bold text-blue-600">{receipt.currency}{calculations.total.toFixed(2)}</p>
+            <div className="p-6 sticky top-0 bg-white/90 backdrop-blur-md z-10 border-b border-gray-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">{t('select.title')}</h2>
+                  <p className="text-xs text-gray-400">{receipt.restaurantName}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xs font-bold text-gray-400 uppercase">{t('select.myShare')}</p>
+                  <p className="text-lg font-bold text-blue-600">{money(calculations.mine.total)}</p>
+                </div>
               </div>
+              {renderLanguageBar()}
             </div>
 
             <div className="px-6 py-4 space-y-3">
               {receipt.items.map((item) => {
                 const selection = userSelections[item.id];
                 const isSelected = selection?.isSelected;
-                const splitCount = selection?.splitCount || 1;
 
                 return (
                   <div key={item.id} className={`p-4 rounded-2xl border transition-all ${isSelected ? 'bg-blue-50 border-blue-200 shadow-sm' : 'bg-white border-gray-100'}`}>
                     <div className="flex items-start justify-between">
-                      <div className="flex-1 cursor-pointer" onClick={() => toggleItem(item.id)}>
-                        <h3 className={`font-semibold ${isSelected ? 'text-blue-900' : 'text-gray-800'}`}>{item.description}</h3>
-                        <p className="text-sm text-gray-500">{receipt.currency}{item.price.toFixed(2)}</p>
+                      <div className="flex-1 cursor-pointer" onClick={() => toggleItem(item)}>
+                        <h3 className={`font-semibold ${isSelected ? 'text-blue-900' : 'text-gray-800'}`}>{itemName(item)}</h3>
+                        <p className="text-sm text-gray-500">{price(item.price)}</p>
                       </div>
                       <div className="flex flex-col items-end space-y-2">
-                        <div onClick={() => toggleItem(item.id)} className={`w-6 h-6 rounded-full border-2 ${isSelected ? 'bg-blue-600 border-blue-600' : 'border-gray-200'}`}>
+                        <div onClick={() => toggleItem(item)} className={`w-6 h-6 rounded-full border-2 ${isSelected ? 'bg-blue-600 border-blue-600' : 'border-gray-200'}`}>
                            {isSelected && <svg className="w-4 h-4 text-white mx-auto mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"></path></svg>}
                         </div>
                         {isSelected && (
-                          <div className="flex items-center bg-white border border-blue-100 rounded-lg text-xs font-bold">
-                            <button onClick={(e) => { e.stopPropagation(); updateSplit(item.id, splitCount - 1); }} className="px-2 py-1">-</button>
-                            <span className="px-2">Split {splitCount}</span>
-                            <button onClick={(e) => { e.stopPropagation(); updateSplit(item.id, splitCount + 1); }} className="px-2 py-1">+</button>
+                          <div className="flex items-center space-x-1 text-xs font-bold text-blue-900">
+                            <span>{t('select.share')}</span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="any"
+                              value={selection.portion}
+                              onChange={(e) => e.target.value !== '' && updateSelectionShare(item.id, Number(e.target.value), selection.outOf)}
+                              className="w-12 px-1 py-1 bg-white border border-blue-100 rounded-lg font-mono text-center"
+                            />
+                            <span>{t('select.of')}</span>
+                            <input
+                              key={`out-of-${item.id}`}
+                              type="number"
+                              min="1"
+                              step="any"
+                              defaultValue={selection.outOf}
+                              onChange={(e) => Number(e.target.value) > 0 && updateSelectionShare(item.id, selection.portion, Number(e.target.value))}
+                              onBlur={(e) => { if (!(Number(e.target.value) > 0)) e.target.value = String(selection.outOf); }}
+                              className="w-12 px-1 py-1 bg-white border border-blue-100 rounded-lg font-mono text-center"
+                            />
                           </div>
                         )}
                       </div>
@@ -378,40 +1482,176 @@ const App: React.FC = () => {
             </div>
 
             <div className="fixed bottom-0 left-0 right-0 p-6 bg-white border-t border-gray-100 z-20">
-              <button onClick={() => setAppState(AppState.SUMMARY)} disabled={calculations.subtotal === 0} className="w-full max-w-2xl mx-auto block bg-gray-900 text-white py-4 rounded-2xl font-bold disabled:bg-gray-200">
-                View Summary
-              </button>
+              <div className="w-full max-w-2xl mx-auto flex space-x-3">
+                <button onClick={() => setIsClaiming(true)} disabled={calculations.mine.subtotal === 0} className="flex-1 bg-white border border-gray-200 text-gray-700 py-4 rounded-2xl font-bold disabled:opacity-50">
+                  {t('select.sendClaim')}
+                </button>
+                <button onClick={() => setAppState(AppState.SUMMARY)} disabled={calculations.mine.subtotal === 0} className="flex-1 bg-gray-900 text-white py-4 rounded-2xl font-bold disabled:bg-gray-200">
+                  {t('select.viewSummary')}
+                </button>
+              </div>
             </div>
           </div>
         );
 
       case AppState.SUMMARY:
-        if (!receipt) return null;
+        if (!receipt || !calculations) return null;
+        if (splitMode === 'table') {
+          const { shares, unclaimedItemIds, unclaimedAmount, roundingAdjustment, billTotal } = calculations.table;
+          const bill = currentBill()!;
+          const requests = simplifyDebts(computeBalances([settlementEntry(bill)], [])[currency] || {}, currency)
+            .map(transfer => paymentRequestText(receipt, transfer, participants.find(p => p.name === transfer.to)?.paymentHandle));
+          return (
+            <div className="max-w-md mx-auto p-6 space-y-6 pb-20 animate-in slide-in-from-bottom duration-400">
+              <div className="text-center">
+                <h2 className="text-xl font-bold mb-1">{receipt.restaurantName}</h2>
+                <p className="text-sm text-gray-400">{formatDate(receipt.date)}</p>
+              </div>
+
+              {renderLanguageBar()}
+              {renderTipPanel()}
+
+              {unclaimedItemIds.length > 0 && (
+                <div className="p-4 bg-amber-50 text-amber-700 rounded-xl border border-amber-100 text-sm">
+                  <p className="font-semibold mb-1">{t('summary.unclaimed', { amount: money(unclaimedAmount) })}</p>
+                  <p>{receipt.items.filter(i => unclaimedItemIds.includes(i.id)).map(itemName).join(', ')}</p>
+                </div>
+              )}
+              {roundingAdjustment !== 0 && (
+                <div className="p-4 bg-gray-100 text-gray-600 rounded-xl text-sm">
+                  {t('summary.roundingSpread', { amount: money(roundingAdjustment) })}
+                </div>
+              )}
+
+              {shares.map(share => (
+                <div key={share.participantId} className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 receipt-texture">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-bold text-gray-900">{share.name}</h3>
+                    <div className="flex items-center space-x-3">
+                      {renderCurrencySelect(participants.find(p => p.id === share.participantId)?.homeCurrency, code => setParticipantCurrency(share.participantId, code))}
+                      <button onClick={() => setPrintTarget(share.participantId)} className="text-xs font-semibold text-gray-400">{t('export.printOne')}</button>
+                    </div>
+                  </div>
+                  <div className="space-y-2 mb-4 border-b border-dashed border-gray-200 pb-3">
+                    {share.items.map(({ itemId, amount, ruleId }) => {
+                      const item = receipt.items.find(i => i.id === itemId)!;
+                      const rule = splitRules.find(r => r.id === ruleId);
+                      const fraction = !rule && shareLabel(assignments[itemId]?.shares[share.participantId] || 0, shareDenominator(assignments[itemId], participants.map(p => p.id)));
+                      return (
+                        <div key={itemId} className="flex justify-between text-sm">
+                          <span className="text-gray-600">
+                            {itemName(item)}
+                            {fraction && <span className="text-gray-400"> ({fraction})</span>}
+                            {rule && <span className="block text-xs text-blue-500">{describeRule(rule, participants)}</span>}
+                          </span>
+                          <span className="font-mono">{formatShare(amount)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="space-y-1 text-sm text-gray-500">
+                    <div className="flex justify-between"><span>{t('totals.subtotal')}</span><span className="font-mono">{formatShare(share.subtotal)}</span></div>
+                    <div className="flex justify-between"><span>{t('summary.taxProportional')}</span><span className="font-mono">{formatShare(share.tax)}</span></div>
+                    <div className="flex justify-between items-center">
+                      <span className="flex items-center">
+                        {receipt.tipPolicy?.overrides[share.participantId] !== undefined ? t('summary.tipOwn') : tipLabel}
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          placeholder={t('summary.ownPlaceholder')}
+                          value={receipt.tipPolicy?.overrides[share.participantId] ?? ''}
+                          onChange={(e) => setTipOverride(share.participantId, e.target.value)}
+                          className="ml-2 w-16 px-2 py-0.5 bg-gray-50 border border-gray-200 rounded text-xs font-mono"
+                        />
+                      </span>
+                      <span className="font-mono">{formatShare(share.tip)}</span>
+                    </div>
+                    {share.adjustments.map(adj => (
+                      <div key={adj.adjustmentId} className="flex justify-between">
+                        <span>{affectsTotal(adj.type) ? adj.label : t('summary.included', { label: adj.label })}</span><span className="font-mono">{formatShare(adj.amount)}</span>
+                      </div>
+                    ))}
+                    {share.roundingAdjustment !== 0 && (
+                      <div className="flex justify-between"><span>{t('summary.rounding')}</span><span className="font-mono">{formatShare(share.roundingAdjustment)}</span></div>
+                    )}
+                    {share.covers.map((cover, k) => (
+                      <div key={`cover-${k}`} className="flex justify-between text-blue-500">
+                        <span>{coverLabel(cover, share, shares)}</span><span className="font-mono">{formatShare(cover.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-base font-bold text-blue-600 pt-2 border-t border-gray-100">
+                      <span>{t('totals.total')}</span><span>{money(share.total)}</span>
+                    </div>
+                    {renderConverted(share.total, participants.find(p => p.id === share.participantId)?.homeCurrency)}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex justify-between text-sm font-semibold text-gray-500 px-2">
+                <span>{t('summary.billTotal')}</span><span className="font-mono">{money(billTotal)}</span>
+              </div>
+              <PayerPanel participants={participants} payments={payments} billTotal={billTotal} currency={currency} decimals={decimals} onChange={(next: Payment[]) => dispatch({ type: 'SET_PAYMENTS', payments: next })} />
+              <ExportPanel bill={bill} split={calculations.table} requests={requests} onPrint={() => setPrintTarget('all')} />
+              {renderExchangeRatePanel()}
+              <button onClick={() => setIsSharing(true)} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold">{t('summary.shareLink')}</button>
+              <button onClick={openSettleUp} disabled={payments.length === 0} className="w-full bg-gray-900 text-white py-4 px-6 rounded-2xl font-semibold disabled:bg-gray-200">{t('home.settleUp')}</button>
+              <button onClick={() => setAppState(AppState.SELECT_ITEMS)} className="w-full bg-white border border-gray-200 py-4 rounded-2xl font-semibold">{t('common.back')}</button>
+              <button onClick={() => dispatch({ type: 'SET_SETTLED', isSettled: !isSettled })} className={`w-full py-4 rounded-2xl font-semibold border ${isSettled ? 'bg-green-50 border-green-200 text-green-700' : 'bg-white border-gray-200 text-gray-700'}`}>
+                {isSettled ? t('summary.settled') : t('summary.markSettled')}
+              </button>
+              <button onClick={handleStartOver} className="w-full text-gray-400 text-sm">{t('summary.newBill')}</button>
+            </div>
+          );
+        }
         return (
           <div className="max-w-md mx-auto p-6 space-y-6 pb-20 animate-in slide-in-from-bottom duration-400">
+            {renderLanguageBar()}
             <div className="bg-white rounded-3xl p-8 shadow-sm border border-gray-100 relative receipt-texture">
                <h2 className="text-xl font-bold text-center mb-1">{receipt.restaurantName}</h2>
-               <p className="text-sm text-gray-400 text-center mb-6">{receipt.date}</p>
+               <p className="text-sm text-gray-400 text-center mb-6">{formatDate(receipt.date)}</p>
                <div className="space-y-3 mb-6 border-b border-dashed border-gray-200 pb-4">
-                 {receipt.items.filter(i => userSelections[i.id]?.isSelected).map(item => (
-                   <div key={item.id} className="flex justify-between text-sm">
-                     <span className="text-gray-600">{item.description}</span>
-                     <span className="font-mono">{(item.price / (userSelections[item.id]?.splitCount || 1)).toFixed(2)}</span>
-                   </div>
-                 ))}
+                 {calculations.mine.items.map(({ itemId, amount }) => {
+                   const selection = userSelections[itemId];
+                   const fraction = selection ? shareLabel(Math.min(selection.portion, selection.outOf), selection.outOf) : '';
+                   return (
+                     <div key={itemId} className="flex justify-between text-sm">
+                       <span className="text-gray-600">{itemName(receipt.items.find(i => i.id === itemId)!)}{fraction && <span className="text-gray-400"> ({fraction})</span>}</span>
+                       <span className="font-mono">{formatShare(amount)}</span>
+                     </div>
+                   );
+                 })}
                </div>
                <div className="space-y-2 text-sm text-gray-500">
-                 <div className="flex justify-between"><span>Subtotal</span><span className="font-mono">{calculations.subtotal.toFixed(2)}</span></div>
-                 <div className="flex justify-between"><span>Tax (Prop.)</span><span className="font-mono">{calculations.tax.toFixed(2)}</span></div>
-                 <div className="flex justify-between"><span>Tip (Prop.)</span><span className="font-mono">{calculations.tip.toFixed(2)}</span></div>
+                 <div className="flex justify-between"><span>{t('totals.subtotal')}</span><span className="font-mono">{formatShare(calculations.mine.subtotal)}</span></div>
+                 <div className="flex justify-between"><span>{t('summary.taxProportional')}</span><span className="font-mono">{formatShare(calculations.mine.tax)}</span></div>
+                 <div className="flex justify-between"><span>{tipLabel}</span><span className="font-mono">{formatShare(calculations.mine.tip)}</span></div>
+                 {calculations.mine.adjustments.map(adj => (
+                   <div key={adj.adjustmentId} className="flex justify-between">
+                     <span>{affectsTotal(adj.type) ? adj.label : t('summary.included', { label: adj.label })}</span><span className="font-mono">{formatShare(adj.amount)}</span>
+                   </div>
+                 ))}
                  <div className="flex justify-between text-lg font-bold text-blue-600 pt-2 border-t border-gray-100">
-                   <span>Your Total</span><span>{receipt.currency}{calculations.total.toFixed(2)}</span>
+                   <span>{t('summary.yourTotal')}</span><span>{money(calculations.mine.total)}</span>
                  </div>
+                 {renderConverted(calculations.mine.total, homeCurrency)}
+                 {homeCurrencyOptions.length > 1 && (
+                   <div className="flex justify-between items-center pt-1">
+                     <span className="text-xs">{t('summary.showIn')}</span>
+                     {renderCurrencySelect(homeCurrency, setHomeCurrency)}
+                   </div>
+                 )}
                </div>
             </div>
-            <button onClick={generateShareLink} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold">Share Link</button>
-            <button onClick={() => setAppState(AppState.SELECT_ITEMS)} className="w-full bg-white border border-gray-200 py-4 rounded-2xl font-semibold">Back</button>
-            <button onClick={handleStartOver} className="w-full text-gray-400 text-sm">New Bill</button>
+            {renderTipPanel()}
+            {renderExchangeRatePanel()}
+            <ExportPanel bill={currentBill()!} split={calculations.solo} onPrint={() => setPrintTarget('all')} />
+            <button onClick={() => setIsSharing(true)} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold">{t('summary.shareLink')}</button>
+            <button onClick={() => setAppState(AppState.SELECT_ITEMS)} className="w-full bg-white border border-gray-200 py-4 rounded-2xl font-semibold">{t('common.back')}</button>
+            <button onClick={() => dispatch({ type: 'SET_SETTLED', isSettled: !isSettled })} className={`w-full py-4 rounded-2xl font-semibold border ${isSettled ? 'bg-green-50 border-green-200 text-green-700' : 'bg-white border-gray-200 text-gray-700'}`}>
+              {isSettled ? t('summary.settled') : t('summary.markSettled')}
+            </button>
+            <button onClick={handleStartOver} className="w-full text-gray-400 text-sm">{t('summary.newBill')}</button>
           </div>
         );
     }
@@ -420,7 +1660,27 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen selection:bg-blue-100">
       {appState === AppState.CAMERA && <CameraCapture onCapture={handleCapture} onCancel={() => setAppState(AppState.HOME)} />}
-      <main>{renderContent()}</main>
+      <main className="print:hidden">{renderContent()}</main>
+      {printTarget && receipt && calculations && (
+        <PrintableShares
+          receipt={receipt}
+          shares={(splitMode === 'table' ? calculations.table : calculations.solo).shares.filter(s => printTarget === 'all' || s.participantId === printTarget)}
+          itemName={itemName}
+        />
+      )}
+      {isSharing && receipt && <ShareDialog receipt={receipt} onClose={() => setIsSharing(false)} />}
+      {isClaiming && receipt?.id && (
+        <ClaimDialog receiptId={receipt.id} selections={Object.values(userSelections) as UserSelection[]} onClose={() => setIsClaiming(false)} />
+      )}
+      {inspecting && (
+        <SourceRegionDialog label={inspecting.label} source={inspecting.source} images={receiptImages} onClose={() => setInspecting(null)} />
+      )}
+      {lockedLink && (
+        <UnlockLinkDialog
+          onUnlock={async (passphrase) => { await openSharedLink(lockedLink, passphrase); }}
+          onCancel={dismissLockedLink}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,35 @@
+import React from 'react';
+import { AvatarColor, Participant } from '../types';
+
+interface AvatarProps {
+  participant: Participant;
+  isActive?: boolean; // The diner items are being assigned to
+  className?: string; // Size and border
+}
+
+const COLOR_CLASSES: Record<AvatarColor, string> = {
+  gray: 'bg-gray-200 text-gray-700',
+  blue: 'bg-blue-100 text-blue-700',
+  green: 'bg-green-100 text-green-700',
+  amber: 'bg-amber-100 text-amber-700',
+  rose: 'bg-rose-100 text-rose-700',
+  violet: 'bg-violet-100 text-violet-700',
+  teal: 'bg-teal-100 text-teal-700'
+};
+
+export const avatarColorClass = (color?: AvatarColor): string => COLOR_CLASSES[color || 'gray'];
+
+const getInitials = (name: string): string =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+/** A diner's initials in their color, as set in their group. */
+const Avatar: React.FC<AvatarProps> = ({ participant, isActive, className = 'w-8 h-8' }) => (
+  <div
+    title={participant.name}
+    className={`${className} rounded-full flex items-center justify-center text-xs font-bold ${isActive ? 'bg-blue-600 text-white' : avatarColorClass(participant.color)}`}
+  >
+    {participant.initials || getInitials(participant.name)}
+  </div>
+);
+
+export default Avatar;
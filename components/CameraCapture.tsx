@@ -1,30 +1,41 @@
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
+import { guideCropRect } from '../services/imagePreprocess';
+import { t } from '../services/i18n';
+
+// Width of the darkened border around the dashed guide, in CSS pixels (matches border-[40px])
+const GUIDE_INSET = 40;
 
 interface CameraCaptureProps {
-  onCapture: (base64Image: string) => void;
+  onCapture: (images: string[]) => void; // data: URLs, in receipt order (top to bottom)
   onCancel: () => void;
 }
 
+/**
+ * Captures one or more photos of a receipt. Long receipts are shot in
+ * overlapping segments from top to bottom; the tray lets the user reorder or
+ * drop shots before sending them all for extraction.
+ */
 const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [shots, setShots] = useState<{ id: number; src: string }[]>([]);
 
   useEffect(() => {
     const startCamera = async () => {
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { facingMode: 'environment' }, 
-          audio: false 
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false
         });
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           setIsReady(true);
         }
       } catch (err) {
-        setError("Could not access camera. Please check permissions.");
+        setError(t('camera.noAccess'));
         console.error(err);
       }
     };
@@ -43,16 +54,30 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) =>
     if (videoRef.current && canvasRef.current) {
       const video = videoRef.current;
       const canvas = canvasRef.current;
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+      // Keep only what was inside the dashed guide
+      const crop = guideCropRect(video.videoWidth, video.videoHeight, video.clientWidth, video.clientHeight, GUIDE_INSET);
+      canvas.width = crop.width;
+      canvas.height = crop.height;
       const ctx = canvas.getContext('2d');
       if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        onCapture(dataUrl);
+        ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+        const dataUrl = canvas.toDataURL('image/jpeg', 0.92);
+        setShots(prev => [...prev, { id: Date.now(), src: dataUrl }]);
       }
     }
-  }, [onCapture]);
+  }, []);
+
+  const moveShot = (index: number, offset: -1 | 1) => {
+    setShots(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeShot = (index: number) => setShots(prev => prev.filter((_, i) => i !== index));
 
   return (
     <div className="fixed inset-0 bg-black z-50 flex flex-col">
@@ -63,29 +88,50 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) =>
           </div>
         ) : (
           <>
-            <video 
-              ref={videoRef} 
-              autoPlay 
-              playsInline 
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
               className="absolute inset-0 w-full h-full object-cover"
             />
             {/* Guide Overlay */}
             <div className="absolute inset-0 border-[40px] border-black/40 pointer-events-none flex items-center justify-center">
                <div className="w-full h-full border-2 border-dashed border-white/50 rounded-lg"></div>
             </div>
+            {shots.length > 0 && (
+              <div className="absolute top-4 left-0 right-0 text-center text-white text-xs font-semibold">
+                {t('camera.overlapHint', { number: shots.length + 1 })}
+              </div>
+            )}
           </>
         )}
       </div>
 
+      {shots.length > 0 && (
+        <div className="bg-black px-4 pt-4 flex space-x-3 overflow-x-auto">
+          {shots.map((shot, index) => (
+            <div key={shot.id} className="relative flex-shrink-0">
+              <img src={shot.src} alt={t('camera.photoAlt', { number: index + 1 })} className="w-16 h-20 object-cover rounded-lg border border-white/30" />
+              <span className="absolute top-1 left-1 bg-black/70 text-white text-[10px] font-bold rounded px-1">{index + 1}</span>
+              <button onClick={() => removeShot(index)} className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 text-white rounded-full text-xs leading-none">×</button>
+              <div className="flex justify-between mt-1">
+                <button onClick={() => moveShot(index, -1)} disabled={index === 0} className="text-white text-xs px-1 disabled:opacity-30">◀</button>
+                <button onClick={() => moveShot(index, 1)} disabled={index === shots.length - 1} className="text-white text-xs px-1 disabled:opacity-30">▶</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="bg-black p-8 flex items-center justify-around">
-        <button 
+        <button
           onClick={onCancel}
           className="text-white text-sm font-medium opacity-70 hover:opacity-100"
         >
-          Cancel
+          {t('common.cancel')}
         </button>
-        
-        <button 
+
+        <button
           onClick={capture}
           disabled={!isReady}
           className={`w-16 h-16 rounded-full border-4 border-white flex items-center justify-center transition-transform active:scale-95 ${!isReady ? 'opacity-50' : 'opacity-100'}`}
@@ -93,7 +139,13 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) =>
           <div className="w-12 h-12 bg-white rounded-full"></div>
         </button>
 
-        <div className="w-12"></div> {/* Spacer for symmetry */}
+        <button
+          onClick={() => onCapture(shots.map(shot => shot.src))}
+          disabled={shots.length === 0}
+          className="text-white text-sm font-semibold disabled:opacity-30"
+        >
+          {shots.length > 0 ? t('camera.doneCount', { count: shots.length }) : t('camera.done')}
+        </button>
       </div>
 
       <canvas ref={canvasRef} className="hidden" />
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { UserSelection } from '../types';
+import { encodeClaim } from '../services/shareLink';
+import { t } from '../services/i18n';
+import { shareUrl } from '../services/router';
+
+interface ClaimDialogProps {
+  receiptId: string;
+  selections: UserSelection[];
+  onClose: () => void;
+}
+
+/** Lets a diner send their claimed items back to whoever is organizing the bill. */
+const ClaimDialog: React.FC<ClaimDialogProps> = ({ receiptId, selections, onClose }) => {
+  const [name, setName] = useState('');
+  const [code, setCode] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const createClaim = async () => {
+    setStatus(null);
+    try {
+      const fragment = await encodeClaim({ receiptId, name: name.trim(), selections });
+      const url = shareUrl(fragment);
+      setCode(fragment);
+      if (navigator.clipboard && navigator.clipboard.writeText) {
+        await navigator.clipboard.writeText(url);
+        setStatus(t('claim.copied'));
+      }
+    } catch (e) {
+      console.error("Claim link error", e);
+      setStatus(t('claim.failed'));
+    }
+  };
+
+  const claimedCount = selections.filter(sel => sel.isSelected).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white rounded-3xl p-6 w-full max-w-md space-y-4 animate-in slide-in-from-bottom duration-300">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-gray-900">{t('claim.title')}</h3>
+          <button onClick={onClose} className="text-sm font-semibold text-gray-400">{t('common.close')}</button>
+        </div>
+        <p className="text-sm text-gray-500">
+          {t('claim.summary', { count: claimedCount })}
+        </p>
+        <input
+          value={name}
+          onChange={(e) => { setName(e.target.value); setCode(null); }}
+          placeholder={t('claim.namePlaceholder')}
+          maxLength={40}
+          className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500"
+        />
+        <button onClick={createClaim} disabled={!name.trim() || claimedCount === 0} className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold disabled:bg-gray-200">
+          {t('claim.create')}
+        </button>
+        {code && (
+          <textarea readOnly value={code} rows={3} onFocus={(e) => e.target.select()} className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-mono text-xs" />
+        )}
+        {status && <p className="text-xs text-gray-500">{status}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ClaimDialog;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ExchangeRate } from '../types';
+import { normalizeCurrency, parseRateTable } from '../services/currency';
+import { formatDate, formatNumber, t } from '../services/i18n';
+
+interface ExchangeRatePanelProps {
+  receiptCurrency: string;
+  rates: ExchangeRate[];
+  onChange: (rates: ExchangeRate[]) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Offline rate table: rates are typed or pasted in by the user, never fetched.
+ * Newer entries for the same currency pair replace older ones.
+ */
+const ExchangeRatePanel: React.FC<ExchangeRatePanelProps> = ({ receiptCurrency, rates, onChange }) => {
+  const [toCurrency, setToCurrency] = useState('');
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState(today());
+  const [pasted, setPasted] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const merge = (incoming: ExchangeRate[]) => {
+    const samePair = (a: ExchangeRate, b: ExchangeRate) =>
+      (a.from === b.from && a.to === b.to) || (a.from === b.to && a.to === b.from);
+    onChange([...rates.filter(r => !incoming.some(i => samePair(r, i))), ...incoming]);
+  };
+
+  const addRate = () => {
+    const value = Number(rate);
+    const to = normalizeCurrency(toCurrency);
+    if (!(value > 0) || to === receiptCurrency) return;
+    merge([{ from: receiptCurrency, to, rate: value, date, source: 'manual' }]);
+    setToCurrency('');
+    setRate('');
+  };
+
+  const importRates = () => {
+    const parsed = parseRateTable(pasted, receiptCurrency, date);
+    setImportMessage(parsed.length > 0 ? t('rates.imported', { count: parsed.length }) : t('rates.noneFound'));
+    if (parsed.length > 0) {
+      merge(parsed);
+      setPasted('');
+    }
+  };
+
+  const inputClass = "p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-4">
+      <h3 className="font-bold text-gray-900">{t('rates.title')}</h3>
+
+      {rates.length === 0 ? (
+        <p className="text-sm text-gray-400">{t('rates.empty')}</p>
+      ) : (
+        <div className="space-y-2">
+          {rates.map(r => (
+            <div key={`${r.from}-${r.to}`} className="flex items-center justify-between text-sm">
+              <span className="font-mono text-gray-700">1 {r.from} = {formatNumber(r.rate)} {r.to}</span>
+              <span className="flex items-center space-x-3">
+                <span className="text-xs text-gray-400">{formatDate(r.date)}</span>
+                <button onClick={() => onChange(rates.filter(x => x !== r))} className="text-xs font-semibold text-red-500">{t('rates.remove')}</button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <span className="text-sm font-mono text-gray-500">1 {receiptCurrency} =</span>
+        <input type="number" min="0" step="any" value={rate} onChange={(e) => setRate(e.target.value)} placeholder="0.92" className={`${inputClass} w-24 font-mono`} />
+        <input value={toCurrency} onChange={(e) => setToCurrency(e.target.value)} placeholder="EUR" maxLength={4} className={`${inputClass} w-20 uppercase`} />
+      </div>
+      <div className="flex items-center space-x-2">
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClass} flex-1`} />
+        <button onClick={addRate} className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold">{t('rates.add')}</button>
+      </div>
+
+      <div className="space-y-2">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          rows={3}
+          placeholder={t('rates.pastePlaceholder', { currency: receiptCurrency })}
+          className={`${inputClass} w-full font-mono`}
+        />
+        <button onClick={importRates} disabled={!pasted.trim()} className="w-full bg-white border border-gray-200 text-gray-700 py-2 rounded-lg text-sm font-semibold disabled:opacity-50">
+          {t('rates.import')}
+        </button>
+        {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRatePanel;
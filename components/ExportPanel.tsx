@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { BillSplit, SavedBill } from '../types';
+import { billToCsv, billToJson, exportFileName } from '../services/billExport';
+import { downloadFile } from '../services/download';
+import { t } from '../services/i18n';
+
+interface ExportPanelProps {
+  bill: SavedBill;
+  split: BillSplit;
+  requests?: string[]; // Payment request messages; left out in solo mode
+  onPrint: () => void;
+}
+
+/** Files for spreadsheets, printed receipts, and messages to paste into a chat. */
+const ExportPanel: React.FC<ExportPanelProps> = ({ bill, split, requests, onPrint }) => {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const copy = async (text: string, index: number) => {
+    if (navigator.clipboard && navigator.clipboard.writeText) {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+    } else {
+      prompt(t('settle.copyPrompt'), text);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-4">
+      <h3 className="font-bold text-gray-900">{t('export.title')}</h3>
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={() => downloadFile(billToCsv(bill.receipt, split), 'text/csv', exportFileName(bill.receipt, 'csv'))} className="py-2 bg-gray-50 border border-gray-200 rounded-xl text-xs font-semibold text-gray-700">
+          {t('export.csv')}
+        </button>
+        <button onClick={() => downloadFile(billToJson(bill, split), 'application/json', exportFileName(bill.receipt, 'json'))} className="py-2 bg-gray-50 border border-gray-200 rounded-xl text-xs font-semibold text-gray-700">
+          {t('export.json')}
+        </button>
+        <button onClick={onPrint} className="py-2 bg-gray-50 border border-gray-200 rounded-xl text-xs font-semibold text-gray-700">
+          {t('export.print')}
+        </button>
+      </div>
+      {requests && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-gray-400 uppercase">{t('export.requests')}</p>
+          {requests.length === 0 ? (
+            <p className="text-xs text-gray-400">{t('export.noPayer')}</p>
+          ) : requests.map((text, idx) => (
+            <div key={idx} className="flex items-start justify-between space-x-3 text-sm">
+              <span className="text-gray-600">{text}</span>
+              <button onClick={() => copy(text, idx)} className="text-xs font-semibold text-blue-600 whitespace-nowrap">
+                {copiedIndex === idx ? t('export.copied') : t('export.copy')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
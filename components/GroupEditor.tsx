@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Group, GroupMember, MemberRule } from '../types';
+import { AVATAR_COLORS, newMember } from '../services/groups';
+import { t } from '../services/i18n';
+import { sanitizeString } from '../services/receiptValidation';
+import Avatar, { avatarColorClass } from './Avatar';
+
+interface GroupEditorProps {
+  group: Group;
+  onChange: (group: Group) => void;
+  onDelete: () => void;
+}
+
+const clean = (value: string, max: number) => sanitizeString(value).slice(0, max);
+
+const excludedWords = (member: GroupMember): string[] =>
+  member.rules.flatMap(rule => rule.kind === 'EXCLUDE_WORDS' ? rule.words : []);
+
+const hasNoAlcohol = (member: GroupMember): boolean => member.rules.some(rule => rule.kind === 'NO_ALCOHOL');
+
+const withRules = (noAlcohol: boolean, words: string[]): MemberRule[] => [
+  ...(noAlcohol ? [{ kind: 'NO_ALCOHOL' } as MemberRule] : []),
+  ...(words.length > 0 ? [{ kind: 'EXCLUDE_WORDS', words } as MemberRule] : [])
+];
+
+/** One saved group: its name, and each member's look, currency, payment handle and rules. Text fields save on blur. */
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, onChange, onDelete }) => {
+  const [newName, setNewName] = useState('');
+
+  const updateMember = (id: string, changes: Partial<GroupMember>) => {
+    onChange({ ...group, members: group.members.map(m => m.id === id ? { ...m, ...changes } : m) });
+  };
+
+  const optional = (value: string, max: number) => clean(value, max) || undefined;
+
+  const addMember = () => {
+    const name = clean(newName, 40);
+    if (!name) return;
+    onChange({ ...group, members: [...group.members, newMember(name)] });
+    setNewName('');
+  };
+
+  const input = 'p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-4">
+      <div className="flex items-center justify-between space-x-3">
+        <input
+          key={group.name}
+          defaultValue={group.name}
+          onBlur={(e) => { const name = clean(e.target.value, 40); if (name && name !== group.name) onChange({ ...group, name }); }}
+          className="flex-1 font-bold text-gray-900 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none"
+        />
+        <button onClick={onDelete} className="text-xs font-semibold text-red-500">{t('common.delete')}</button>
+      </div>
+
+      {group.members.length === 0 && <p className="text-sm text-gray-400">{t('group.noMembers')}</p>}
+      {group.members.map(member => (
+        <div key={member.id} className="border-t border-gray-50 pt-4 space-y-2">
+          <div className="flex items-center space-x-3">
+            <Avatar participant={member} className="w-9 h-9 shrink-0" />
+            <input
+              key={`name-${member.name}`}
+              defaultValue={member.name}
+              onBlur={(e) => { const name = clean(e.target.value, 40); if (name) updateMember(member.id, { name }); }}
+              aria-label={t('group.memberName')}
+              className={`${input} flex-1 font-semibold`}
+            />
+            <button
+              onClick={() => onChange({ ...group, members: group.members.filter(m => m.id !== member.id) })}
+              aria-label={t('group.removeMember', { name: member.name })}
+              className="px-2 text-gray-400 hover:text-red-500"
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex items-center space-x-1 pl-12">
+            {AVATAR_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => updateMember(member.id, { color })}
+                className={`w-5 h-5 rounded-full ${avatarColorClass(color)} ${(member.color || 'gray') === color ? 'ring-2 ring-offset-1 ring-blue-500' : ''}`}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2 pl-12">
+            <input
+              key={`initials-${member.initials}`}
+              defaultValue={member.initials || ''}
+              maxLength={3}
+              placeholder={t('group.initials')}
+              onBlur={(e) => updateMember(member.id, { initials: optional(e.target.value, 3) })}
+              className={input}
+            />
+            <input
+              key={`currency-${member.homeCurrency}`}
+              defaultValue={member.homeCurrency || ''}
+              maxLength={3}
+              placeholder={t('group.currency')}
+              onBlur={(e) => {
+                const code = e.target.value.trim().toUpperCase();
+                updateMember(member.id, { homeCurrency: /^[A-Z]{3}$/.test(code) ? code : undefined });
+              }}
+              className={`${input} uppercase`}
+            />
+            <input
+              key={`handle-${member.paymentHandle}`}
+              defaultValue={member.paymentHandle || ''}
+              placeholder={t('group.paymentHandle')}
+              onBlur={(e) => updateMember(member.id, { paymentHandle: optional(e.target.value, 80) })}
+              className={input}
+            />
+          </div>
+          <div className="pl-12 space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={hasNoAlcohol(member)}
+                onChange={(e) => updateMember(member.id, { rules: withRules(e.target.checked, excludedWords(member)) })}
+              />
+              <span>{t('group.noAlcohol')}</span>
+            </label>
+            <input
+              key={`words-${excludedWords(member).join(',')}`}
+              defaultValue={excludedWords(member).join(', ')}
+              placeholder={t('group.excludeWords')}
+              onBlur={(e) => {
+                const words = e.target.value.split(',').map(word => clean(word, 30)).filter(Boolean).slice(0, 20);
+                updateMember(member.id, { rules: withRules(hasNoAlcohol(member), words) });
+              }}
+              className={`${input} w-full`}
+            />
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={(e) => { e.preventDefault(); addMember(); }} className="flex items-center space-x-2 border-t border-gray-50 pt-4">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t('group.addMember')}
+          className={`${input} flex-1`}
+        />
+        <button type="submit" disabled={!newName.trim()} className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold disabled:bg-gray-200">
+          {t('group.add')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default GroupEditor;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessImage, ProcessedImage } from '../services/imagePreprocess';
+import { t } from '../services/i18n';
+
+interface ImagePreviewProps {
+  images: string[]; // Raw captures or uploads, in order
+  onConfirm: (images: string[]) => void; // Processed data: URLs
+  onCancel: () => void;
+}
+
+const kilobytes = (dataUrl: string) => Math.round((dataUrl.length * 3) / 4 / 1024);
+
+/** Shows what will actually be sent: upright, resized and (optionally) enhanced. */
+const ImagePreview: React.FC<ImagePreviewProps> = ({ images, onConfirm, onCancel }) => {
+  const [enhance, setEnhance] = useState(DEFAULT_PREPROCESS_OPTIONS.enhance);
+  const [processed, setProcessed] = useState<ProcessedImage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsWorking(true);
+    setError(null);
+    Promise.all(images.map(image => preprocessImage(image, { ...DEFAULT_PREPROCESS_OPTIONS, enhance })))
+      .then(result => { if (!cancelled) setProcessed(result); })
+      .catch((e: any) => { if (!cancelled) setError(e.message); })
+      .finally(() => { if (!cancelled) setIsWorking(false); });
+    return () => { cancelled = true; };
+  }, [images, enhance]);
+
+  return (
+    <div className="max-w-md mx-auto p-6 space-y-4 pb-20 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-900">{t('preview.title', { count: images.length })}</h2>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input type="checkbox" checked={enhance} onChange={(e) => setEnhance(e.target.checked)} />
+          <span>{t('preview.enhance')}</span>
+        </label>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100 text-sm">{error}</div>
+      ) : processed.map((image, index) => (
+        <div key={index} className={`bg-white rounded-2xl p-2 border border-gray-100 ${isWorking ? 'opacity-50' : ''}`}>
+          <img src={image.dataUrl} alt={t('preview.photoAlt', { number: index + 1 })} className="w-full rounded-xl" />
+          <p className="text-xs text-gray-400 mt-2 px-1">
+            {images.length > 1 && `${t('preview.position', { number: index + 1, count: images.length })} · `}{image.width}×{image.height} · {t('preview.size', { size: kilobytes(image.dataUrl) })}
+            {image.sourceMimeType !== image.mimeType && ` · ${t('preview.converted', { format: image.sourceMimeType.replace('image/', '').toUpperCase() })}`}
+          </p>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onConfirm(processed.map(image => image.dataUrl))}
+        disabled={isWorking || !!error || processed.length === 0}
+        className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold disabled:bg-gray-200"
+      >
+        {isWorking ? t('preview.preparing') : t('preview.read')}
+      </button>
+      <button onClick={onCancel} className="w-full bg-white border border-gray-200 text-gray-700 py-4 rounded-2xl font-semibold">
+        {t('preview.retake')}
+      </button>
+    </div>
+  );
+};
+
+export default ImagePreview;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ReceiptData } from '../types';
+import { getLocale, listLocales } from '../services/locales';
+import { t } from '../services/i18n';
+
+interface LanguageBarProps {
+  receipt: ReceiptData;
+  showOriginal: boolean;
+  onToggle: (showOriginal: boolean) => void;
+  onTranslate: (code: string) => Promise<void>; // Rejects with a user-facing message
+}
+
+/** Switches item names between the printed text and a translation, and re-translates on request. */
+const LanguageBar: React.FC<LanguageBarProps> = ({ receipt, showOriginal, onToggle, onTranslate }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const hasOriginals = receipt.items.some(item => item.originalDescription);
+  const current = receipt.language ? getLocale(receipt.language) : undefined;
+
+  const translate = async (code: string) => {
+    if (!code) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onTranslate(code);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const tabClass = (active: boolean) => `px-3 py-1 rounded-full ${active ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs font-semibold">
+        {hasOriginals ? (
+          <div className="flex bg-gray-100 rounded-full p-0.5">
+            <button onClick={() => onToggle(false)} className={tabClass(!showOriginal)}>{current?.nativeName || t('language.translated')}</button>
+            <button onClick={() => onToggle(true)} className={tabClass(showOriginal)}>{t('language.original')}</button>
+          </div>
+        ) : <span />}
+        <select
+          value=""
+          onChange={(e) => translate(e.target.value)}
+          disabled={isWorking}
+          className="bg-transparent text-blue-600 text-right focus:outline-none"
+        >
+          <option value="">{isWorking ? t('language.translating') : t('language.translateTo')}</option>
+          {listLocales().filter(locale => locale.code !== current?.code).map(locale => (
+            <option key={locale.code} value={locale.code}>{locale.nativeName}</option>
+          ))}
+        </select>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default LanguageBar;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Participant, Payment } from '../types';
+import { fromMinor, toMinor } from '../services/money';
+import { formatMoney, t } from '../services/i18n';
+
+interface PayerPanelProps {
+  participants: Participant[];
+  payments: Payment[];
+  billTotal: number; // Minor units
+  currency: string; // ISO code
+  decimals: number;
+  onChange: (payments: Payment[]) => void;
+}
+
+/** Records who paid the restaurant. One tap for a single payer, or amounts per person for split cards. */
+const PayerPanel: React.FC<PayerPanelProps> = ({ participants, payments, billTotal, currency, decimals, onChange }) => {
+  const paidBy = (participantId: string) => payments.find(p => p.participantId === participantId)?.amount || 0;
+  const paidTotal = payments.reduce((sum, p) => sum + p.amount, 0);
+  const remaining = billTotal - paidTotal;
+
+  const setAmount = (participantId: string, value: string) => {
+    const amount = Math.max(0, toMinor(Number(value) || 0, decimals));
+    const others = payments.filter(p => p.participantId !== participantId);
+    onChange(amount > 0 ? [...others, { participantId, amount }] : others);
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-900">{t('payer.title')}</h3>
+        <span className={`text-xs font-bold ${remaining === 0 ? 'text-green-600' : 'text-amber-600'}`}>
+          {remaining === 0 ? t('payer.fullyPaid') : remaining > 0 ? t('payer.unpaid', { amount: formatMoney(remaining, currency) }) : t('payer.overpaid', { amount: formatMoney(-remaining, currency) })}
+        </span>
+      </div>
+      {participants.map(p => (
+        <div key={p.id} className="flex items-center justify-between space-x-3">
+          <span className="flex-1 text-sm font-semibold text-gray-700">{p.name}</span>
+          <button onClick={() => onChange([{ participantId: p.id, amount: billTotal }])} className="text-xs font-semibold text-blue-600">
+            {t('payer.paidAll')}
+          </button>
+          <input
+            key={`${p.id}-${paidBy(p.id)}`}
+            type="number"
+            min="0"
+            step="any"
+            defaultValue={paidBy(p.id) ? fromMinor(paidBy(p.id), decimals) : ''}
+            onBlur={(e) => setAmount(p.id, e.target.value)}
+            placeholder="0"
+            className="w-24 p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm font-mono text-right focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PayerPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ParticipantShare, ReceiptData, ReceiptItem } from '../types';
+import { formatDate, formatMoney, t } from '../services/i18n';
+import { coverLabel } from '../services/splitRules';
+
+interface PrintableSharesProps {
+  receipt: ReceiptData;
+  shares: ParticipantShare[];
+  itemName: (item: ReceiptItem) => string;
+}
+
+/** Plain black-on-white receipts for printing, one per page, shown only by the print stylesheet. */
+const PrintableShares: React.FC<PrintableSharesProps> = ({ receipt, shares, itemName }) => {
+  const money = (minor: number) => formatMoney(minor, receipt.currency);
+  const line = (label: string, minor: number, key?: string) => (
+    <div key={key} className="flex justify-between"><span>{label}</span><span className="font-mono">{money(minor)}</span></div>
+  );
+
+  return (
+    <div className="hidden print:block text-black">
+      {shares.map(share => (
+        <section key={share.participantId} className="max-w-sm mx-auto py-8 break-after-page">
+          <h1 className="text-xl font-bold text-center">{receipt.restaurantName || t('common.untitled')}</h1>
+          <p className="text-sm text-center mb-1">{receipt.date ? formatDate(receipt.date) : t('common.noDate')}</p>
+          <p className="text-sm text-center font-semibold mb-6">{t('export.printedFor', { name: share.name })}</p>
+          <div className="space-y-1 text-sm border-b border-dashed border-black pb-3 mb-3">
+            {share.items.map(({ itemId, amount }) => {
+              const item = receipt.items.find(i => i.id === itemId);
+              return line(item ? itemName(item) : itemId, amount, itemId);
+            })}
+          </div>
+          <div className="space-y-1 text-sm">
+            {line(t('totals.subtotal'), share.subtotal)}
+            {line(t('totals.tax'), share.tax)}
+            {line(t('totals.tip'), share.tip)}
+            {share.adjustments.map(adj => line(
+              adj.type === 'INCLUDED_TAX' ? t('summary.included', { label: adj.label }) : adj.label,
+              adj.amount,
+              adj.adjustmentId
+            ))}
+            {share.roundingAdjustment !== 0 && line(t('summary.rounding'), share.roundingAdjustment)}
+            {share.covers.map((cover, k) => line(coverLabel(cover, share, shares), cover.amount, `cover-${k}`))}
+            <div className="flex justify-between text-base font-bold pt-2 border-t border-black">
+              <span>{t('totals.total')}</span><span>{money(share.total)}</span>
+            </div>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default PrintableShares;
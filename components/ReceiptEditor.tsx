@@ -0,0 +1,298 @@
+import React from 'react';
+import { ADJUSTMENT_TYPES, AdjustmentType, FieldSource, ITEM_CATEGORIES, ItemCategory, ReceiptAdjustment, ReceiptData, ReceiptItem, TotalField } from '../types';
+import { allocate, currencyDecimals, fromMinor, toMinor } from '../services/money';
+import { adjustmentTypeName, categoryName, t } from '../services/i18n';
+import { isCurrencyCode } from '../services/currency';
+import { classifyItem } from '../services/itemCategories';
+import { followLineTotals } from '../services/receiptValidation';
+
+interface ReceiptEditorProps {
+  receipt: ReceiptData;
+  onChange: (receipt: ReceiptData) => void;
+  onDone: () => void;
+}
+
+/** A value the user has typed over no longer needs flagging, but its photo region is still useful. */
+const markReviewed = (source?: FieldSource): FieldSource | undefined => {
+  if (!source) return undefined;
+  const { confidence, ...rest } = source;
+  return rest;
+};
+
+const newItemId = (suffix: string | number) => `item-${suffix}-${Date.now()}`;
+
+const ReceiptEditor: React.FC<ReceiptEditorProps> = ({ receipt, onChange, onDone }) => {
+  const decimals = currencyDecimals(receipt.currency);
+  const step = Math.pow(10, -decimals);
+
+  // A receipt typed in by hand has no printed totals; they follow the lines until the user types their own
+  const change = (edited: ReceiptData) => onChange(followLineTotals(receipt, edited));
+
+  const updateItems = (items: ReceiptItem[]) => change({ ...receipt, items });
+
+  const updateItem = (itemId: string, patch: Partial<ReceiptItem>) => {
+    updateItems(receipt.items.map(item => item.id === itemId ? { ...item, ...patch, source: markReviewed(item.source) } : item));
+  };
+
+  const addItem = () => {
+    updateItems([...receipt.items, { id: newItemId(receipt.items.length), quantity: 1, description: t('editor.newItem'), price: 0 }]);
+  };
+
+  const deleteItem = (itemId: string) => {
+    updateItems(receipt.items.filter(item => item.id !== itemId));
+  };
+
+  /**
+   * Splits one line into two. Multi-quantity lines peel off a single unit,
+   * single lines are halved. Prices are allocated in minor units so the pair
+   * still adds up exactly to the original line.
+   */
+  const splitItem = (itemId: string) => {
+    const index = receipt.items.findIndex(item => item.id === itemId);
+    if (index === -1) return;
+    const item = receipt.items[index];
+    const units = item.quantity > 1 ? Math.floor(item.quantity) : 0;
+    const [firstPrice, secondPrice] = allocate(toMinor(item.price, decimals), units > 1 ? [1, units - 1] : [1, 1]);
+    const first: ReceiptItem = { ...item, quantity: units > 1 ? 1 : item.quantity, price: fromMinor(firstPrice, decimals) };
+    const second: ReceiptItem = {
+      ...item,
+      id: newItemId(`${index}-split`),
+      quantity: units > 1 ? item.quantity - 1 : item.quantity,
+      price: fromMinor(secondPrice, decimals)
+    };
+    const items = [...receipt.items];
+    items.splice(index, 1, first, second);
+    updateItems(items);
+  };
+
+  /** Merges a line into the one directly below it. */
+  const mergeWithNext = (itemId: string) => {
+    const index = receipt.items.findIndex(item => item.id === itemId);
+    if (index === -1 || index >= receipt.items.length - 1) return;
+    const item = receipt.items[index];
+    const next = receipt.items[index + 1];
+    const merged: ReceiptItem = {
+      ...item,
+      quantity: item.quantity + next.quantity,
+      description: item.description === next.description ? item.description : `${item.description} + ${next.description}`,
+      price: fromMinor(toMinor(item.price, decimals) + toMinor(next.price, decimals), decimals),
+      unitPrice: item.unitPrice === next.unitPrice ? item.unitPrice : undefined
+    };
+    const items = [...receipt.items];
+    items.splice(index, 2, merged);
+    updateItems(items);
+  };
+
+  const updateTotal = (field: TotalField, value: string) => {
+    const source = markReviewed(receipt.totalSources?.[field]);
+    change({ ...receipt, [field]: Number(value) || 0, totalSources: { ...receipt.totalSources, [field]: source } });
+  };
+
+  const updateAdjustments = (adjustments: ReceiptAdjustment[]) => change({ ...receipt, adjustments });
+
+  const updateAdjustment = (adjustmentId: string, patch: Partial<ReceiptAdjustment>) => {
+    updateAdjustments(receipt.adjustments.map(adj => adj.id === adjustmentId ? { ...adj, ...patch } : adj));
+  };
+
+  const addAdjustment = () => {
+    updateAdjustments([
+      ...receipt.adjustments,
+      { id: `adj-${receipt.adjustments.length}-${Date.now()}`, type: 'DISCOUNT', label: adjustmentTypeName('DISCOUNT'), amount: 0 }
+    ]);
+  };
+
+  const deleteAdjustment = (adjustmentId: string) => {
+    updateAdjustments(receipt.adjustments.filter(adj => adj.id !== adjustmentId));
+  };
+
+  /** Toggles an item in or out of an adjustment's scope. No items selected means the whole bill. */
+  const toggleAdjustmentScope = (adjustment: ReceiptAdjustment, itemId: string) => {
+    const current = adjustment.itemIds || [];
+    const itemIds = current.includes(itemId) ? current.filter(id => id !== itemId) : [...current, itemId];
+    updateAdjustment(adjustment.id, { itemIds });
+  };
+
+  const inputClass = "w-full p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          <label className="col-span-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+            {t('editor.restaurant')}
+            <input
+              key={`name-${receipt.restaurantName}`}
+              defaultValue={receipt.restaurantName}
+              onBlur={(e) => onChange({ ...receipt, restaurantName: e.target.value })}
+              placeholder={t('editor.restaurantPlaceholder')}
+              className={`${inputClass} mt-1 normal-case font-normal text-gray-900`}
+            />
+          </label>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+            {t('editor.currency')}
+            <input
+              key={`currency-${receipt.currency}`}
+              defaultValue={receipt.currency}
+              onBlur={(e) => onChange({ ...receipt, currency: e.target.value })}
+              className={`${inputClass} mt-1 normal-case font-normal text-gray-900 ${isCurrencyCode(receipt.currency) ? '' : 'border-amber-400 bg-amber-50'}`}
+            />
+            {!isCurrencyCode(receipt.currency) && (
+              <span className="block mt-1 normal-case font-normal text-amber-700">{t('editor.unknownCurrency')}</span>
+            )}
+          </label>
+        </div>
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">
+          {t('editor.date')}
+          <input
+            type="date"
+            value={receipt.date}
+            onChange={(e) => onChange({ ...receipt, date: e.target.value })}
+            className={`${inputClass} mt-1 normal-case font-normal text-gray-900`}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        {receipt.items.map((item, index) => (
+          <div key={item.id} className="bg-white rounded-2xl p-4 border border-gray-100 space-y-2">
+            <input
+              key={`desc-${item.id}-${item.description}`}
+              defaultValue={item.description}
+              onBlur={(e) => updateItem(item.id, { description: e.target.value })}
+              className={inputClass}
+            />
+            <div className="flex items-center space-x-2">
+              <label className="text-xs text-gray-400">{t('editor.quantity')}</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={item.quantity}
+                onChange={(e) => updateItem(item.id, { quantity: Number(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+              <label className="text-xs text-gray-400">{t('editor.price')}</label>
+              <input
+                type="number"
+                min="0"
+                step={step}
+                value={item.price}
+                onChange={(e) => updateItem(item.id, { price: Number(e.target.value) })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <label className="text-xs text-gray-400">{t('editor.category')}</label>
+              <select
+                value={item.category || ''}
+                onChange={(e) => updateItem(item.id, { category: (e.target.value || undefined) as ItemCategory | undefined })}
+                className={inputClass}
+              >
+                <option value="">{t('editor.categoryAuto', { category: categoryName(classifyItem(item)) })}</option>
+                {ITEM_CATEGORIES.map(category => <option key={category} value={category}>{categoryName(category)}</option>)}
+              </select>
+            </div>
+            <div className="flex justify-end space-x-3 text-xs font-semibold">
+              <button onClick={() => splitItem(item.id)} className="text-gray-500 hover:text-gray-900">{t('editor.split')}</button>
+              {index < receipt.items.length - 1 && (
+                <button onClick={() => mergeWithNext(item.id)} className="text-gray-500 hover:text-gray-900">{t('editor.merge')}</button>
+              )}
+              <button onClick={() => deleteItem(item.id)} className="text-red-500 hover:text-red-700">{t('common.delete')}</button>
+            </div>
+          </div>
+        ))}
+        <button onClick={addItem} className="w-full border-2 border-dashed border-gray-200 text-gray-500 py-3 rounded-2xl font-semibold hover:bg-gray-50">
+          {t('editor.addItem')}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 grid grid-cols-2 gap-3">
+        {(['subtotal', 'tax', 'tip', 'total'] as TotalField[]).map(field => (
+          <label key={field} className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+            {t(`totals.${field}`)}
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={receipt[field]}
+              onChange={(e) => updateTotal(field, e.target.value)}
+              className={`${inputClass} mt-1 font-mono text-gray-900`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('editor.adjustments')}</h3>
+        {receipt.adjustments.map(adj => {
+          const isPercentage = adj.amount === undefined;
+          return (
+            <div key={adj.id} className="bg-white rounded-2xl p-4 border border-gray-100 space-y-2">
+              <div className="flex items-center space-x-2">
+                <select
+                  value={adj.type}
+                  onChange={(e) => updateAdjustment(adj.id, { type: e.target.value as AdjustmentType })}
+                  className={`${inputClass} w-40`}
+                >
+                  {ADJUSTMENT_TYPES.map(type => (
+                    <option key={type.code} value={type.code}>{adjustmentTypeName(type.code)}</option>
+                  ))}
+                </select>
+                <input
+                  key={`label-${adj.id}-${adj.label}`}
+                  defaultValue={adj.label}
+                  onBlur={(e) => updateAdjustment(adj.id, { label: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={isPercentage ? 'percentage' : 'amount'}
+                  onChange={(e) => updateAdjustment(adj.id, e.target.value === 'percentage'
+                    ? { amount: undefined, percentage: 0 }
+                    : { amount: 0, percentage: undefined })}
+                  className={`${inputClass} w-28`}
+                >
+                  <option value="amount">{receipt.currency}</option>
+                  <option value="percentage">%</option>
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={isPercentage ? adj.percentage : adj.amount}
+                  onChange={(e) => updateAdjustment(adj.id, isPercentage ? { percentage: Number(e.target.value) } : { amount: Number(e.target.value) })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div className="flex flex-wrap gap-1 text-xs">
+                <span className={`px-2 py-1 rounded-full ${!adj.itemIds?.length ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500'}`}>{t('editor.wholeBill')}</span>
+                {receipt.items.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => toggleAdjustmentScope(adj, item.id)}
+                    className={`px-2 py-1 rounded-full ${adj.itemIds?.includes(item.id) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500'}`}
+                  >
+                    {item.description}
+                  </button>
+                ))}
+              </div>
+              <div className="flex justify-end text-xs font-semibold">
+                <button onClick={() => deleteAdjustment(adj.id)} className="text-red-500 hover:text-red-700">{t('common.delete')}</button>
+              </div>
+            </div>
+          );
+        })}
+        <button onClick={addAdjustment} className="w-full border-2 border-dashed border-gray-200 text-gray-500 py-3 rounded-2xl font-semibold hover:bg-gray-50">
+          {t('editor.addAdjustment')}
+        </button>
+      </div>
+
+      <button onClick={onDone} className="w-full bg-gray-900 text-white py-4 px-6 rounded-2xl font-semibold">
+        {t('editor.done')}
+      </button>
+    </div>
+  );
+};
+
+export default ReceiptEditor;
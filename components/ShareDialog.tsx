@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ReceiptData } from '../types';
+import { encodeSharePayload } from '../services/shareLink';
+import { t } from '../services/i18n';
+import { shareUrl } from '../services/router';
+
+interface ShareDialogProps {
+  receipt: ReceiptData;
+  onClose: () => void;
+}
+
+/**
+ * Builds a share link for the receipt. Open links can be read by anyone who
+ * sees the URL; a passphrase encrypts the receipt so only people who are
+ * also told the passphrase can open it.
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({ receipt, onClose }) => {
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [link, setLink] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const createLink = async () => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      const fragment = await encodeSharePayload(receipt, usePassphrase ? passphrase : undefined);
+      const url = shareUrl(fragment);
+      setLink(url);
+      if (navigator.clipboard && navigator.clipboard.writeText) {
+        await navigator.clipboard.writeText(url);
+        setStatus(usePassphrase ? t('share.lockedCopied') : t('share.copied'));
+      }
+    } catch (e) {
+      console.error("Share link error", e);
+      setStatus(t('share.failed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white rounded-3xl p-6 w-full max-w-md space-y-4 animate-in slide-in-from-bottom duration-300">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-gray-900">{t('share.title')}</h3>
+          <button onClick={onClose} className="text-sm font-semibold text-gray-400">{t('common.close')}</button>
+        </div>
+
+        <label className="flex items-center space-x-3 text-sm text-gray-700">
+          <input type="checkbox" checked={usePassphrase} onChange={(e) => { setUsePassphrase(e.target.checked); setLink(null); }} />
+          <span>{t('share.lock')}</span>
+        </label>
+        {usePassphrase ? (
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setLink(null); }}
+            placeholder={t('common.passphrase')}
+            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <p className="text-xs text-amber-600">{t('share.openWarning')}</p>
+        )}
+
+        <button
+          onClick={createLink}
+          disabled={isWorking || (usePassphrase && !passphrase)}
+          className="w-full bg-blue-600 text-white py-4 px-6 rounded-2xl font-semibold disabled:bg-gray-200"
+        >
+          {isWorking ? t('share.creating') : t('share.create')}
+        </button>
+
+        {link && (
+          <textarea readOnly value={link} rows={3} onFocus={(e) => e.target.select()} className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-mono text-xs" />
+        )}
+        {status && <p className="text-xs text-gray-500">{status}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { FieldSource, LOW_CONFIDENCE } from '../types';
+import { cropRegion } from '../services/imagePreprocess';
+import { formatPercent, t } from '../services/i18n';
+
+interface SourceRegionDialogProps {
+  label: string; // What was read, e.g. "Craft Beer · $13.00"
+  source: FieldSource;
+  images: string[]; // The bill's photos; source.page indexes into these
+  onClose: () => void;
+}
+
+/** The slice of the photo a value was read from, so it can be checked against the paper. */
+const SourceRegionDialog: React.FC<SourceRegionDialogProps> = ({ label, source, images, onClose }) => {
+  const [crop, setCrop] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const image = images[source.page || 0];
+
+  useEffect(() => {
+    let cancelled = false;
+    setCrop(null);
+    setError(null);
+    if (!image || !source.box) return;
+    cropRegion(image, source.box)
+      .then(result => { if (!cancelled) setCrop(result); })
+      .catch((e: any) => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [image, source]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl p-6 w-full max-w-sm space-y-4" onClick={(e) => e.stopPropagation()}>
+        <h3 className="font-bold text-gray-900">{label}</h3>
+        {source.confidence !== undefined && (
+          <p className={`text-sm ${source.confidence < LOW_CONFIDENCE ? 'text-amber-600' : 'text-gray-500'}`}>
+            {images.length > 1
+              ? t('source.confidenceOnPhoto', { percent: formatPercent(Math.round(source.confidence * 100)), number: (source.page || 0) + 1 })
+              : t('source.confidence', { percent: formatPercent(Math.round(source.confidence * 100)) })}
+          </p>
+        )}
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !image || !source.box ? (
+          <p className="text-sm text-gray-400">{t('source.noBox')}</p>
+        ) : crop ? (
+          <img src={crop} alt={t('source.alt', { label })} className="w-full rounded-xl border border-gray-100" />
+        ) : (
+          <p className="text-sm text-gray-400">{t('source.cropping')}</p>
+        )}
+        <button onClick={onClose} className="w-full bg-white border border-gray-200 text-gray-700 py-3 rounded-2xl font-semibold">{t('common.close')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default SourceRegionDialog;
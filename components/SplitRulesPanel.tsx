@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ItemCategory, ITEM_CATEGORIES, Participant, SplitRule } from '../types';
+import { categoryName, t } from '../services/i18n';
+import { describeRule, newRuleId } from '../services/splitRules';
+
+interface SplitRulesPanelProps {
+  rules: SplitRule[];
+  participants: Participant[];
+  onChange: (rules: SplitRule[]) => void;
+}
+
+type RuleKind = SplitRule['kind'];
+
+/** Table-wide rules: a category split between everyone or only some diners, or a diner the others cover. */
+const SplitRulesPanel: React.FC<SplitRulesPanelProps> = ({ rules, participants, onChange }) => {
+  const [kind, setKind] = useState<RuleKind>('SHARE_EQUALLY');
+  const [category, setCategory] = useState<ItemCategory>('SHARED');
+  const [chosenIds, setChosenIds] = useState<string[]>([]);
+  const [coveredId, setCoveredId] = useState('');
+
+  const sharers = chosenIds.filter(id => participants.some(p => p.id === id));
+  const canAdd = kind === 'SHARE_EQUALLY' || (kind === 'ONLY_AMONG' ? sharers.length > 0 : participants.some(p => p.id === coveredId));
+
+  const addRule = () => {
+    if (!canAdd) return;
+    const id = newRuleId();
+    const rule: SplitRule = kind === 'COVER'
+      ? { id, kind, participantId: coveredId }
+      : kind === 'ONLY_AMONG' ? { id, kind, category, participantIds: sharers } : { id, kind, category };
+    onChange([...rules, rule]);
+    setChosenIds([]);
+    setCoveredId('');
+  };
+
+  const toggleChosen = (id: string) =>
+    setChosenIds(sharers.includes(id) ? sharers.filter(other => other !== id) : [...sharers, id]);
+
+  const select = 'p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-2xl p-4 border border-gray-100 space-y-3">
+      <div>
+        <h3 className="font-bold text-gray-900 text-sm">{t('rule.title')}</h3>
+        <p className="text-xs text-gray-400">{t('rule.hint')}</p>
+      </div>
+      {rules.map(rule => (
+        <div key={rule.id} className="flex items-center justify-between text-sm">
+          <span className="text-gray-700">{describeRule(rule, participants)}</span>
+          <button
+            onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+            aria-label={t('rule.remove')}
+            className="px-2 text-gray-400 hover:text-red-500"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-50">
+        <select value={kind} onChange={(e) => setKind(e.target.value as RuleKind)} className={select}>
+          <option value="SHARE_EQUALLY">{t('rule.kindShareEqually')}</option>
+          <option value="ONLY_AMONG">{t('rule.kindOnlyAmong')}</option>
+          <option value="COVER">{t('rule.kindCover')}</option>
+        </select>
+        {kind === 'COVER' ? (
+          <select value={coveredId} onChange={(e) => setCoveredId(e.target.value)} className={select}>
+            <option value="">{t('rule.pickDiner')}</option>
+            {participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        ) : (
+          <select value={category} onChange={(e) => setCategory(e.target.value as ItemCategory)} className={select}>
+            {ITEM_CATEGORIES.map(c => <option key={c} value={c}>{categoryName(c)}</option>)}
+          </select>
+        )}
+        <button onClick={addRule} disabled={!canAdd} className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold disabled:bg-gray-200">
+          {t('rule.add')}
+        </button>
+      </div>
+      {kind === 'ONLY_AMONG' && (
+        <div className="flex flex-wrap gap-3">
+          {participants.map(p => (
+            <label key={p.id} className="flex items-center space-x-1 text-sm text-gray-600">
+              <input type="checkbox" checked={sharers.includes(p.id)} onChange={() => toggleChosen(p.id)} />
+              <span>{p.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SplitRulesPanel;
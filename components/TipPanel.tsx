@@ -0,0 +1,92 @@
+import React from 'react';
+import { TIP_PRESETS, TipPolicy } from '../types';
+import { toMinor } from '../services/money';
+import { formatMoney, formatPercent, t } from '../services/i18n';
+
+interface TipPanelProps {
+  policy: TipPolicy;
+  currency: string; // ISO code
+  receiptTip: number;
+  tipTotal: number; // Minor units
+  decimals: number;
+  showHeadcount: boolean; // Equal splits outside table mode need to know how many people share the tip
+  onChange: (policy: TipPolicy) => void;
+}
+
+const TipPanel: React.FC<TipPanelProps> = ({ policy, currency, receiptTip, tipTotal, decimals, showHeadcount, onChange }) => {
+  const update = (patch: Partial<TipPolicy>) => onChange({ ...policy, ...patch });
+
+  const pill = (active: boolean) =>
+    `px-3 py-2 rounded-xl text-sm font-semibold border transition-all ${active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-700'}`;
+
+  return (
+    <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-900">{t('tip.title')}</h3>
+        <span className="font-mono font-bold text-blue-600">{formatMoney(tipTotal, currency)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => update({ mode: 'RECEIPT' })} className={pill(policy.mode === 'RECEIPT')}>
+          {receiptTip > 0 ? t('tip.receipt', { amount: formatMoney(toMinor(receiptTip, decimals), currency) }) : t('tip.none')}
+        </button>
+        {TIP_PRESETS.map(pct => (
+          <button key={pct} onClick={() => update({ mode: 'PERCENTAGE', percentage: pct })} className={pill(policy.mode === 'PERCENTAGE' && policy.percentage === pct)}>
+            {formatPercent(pct)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+          {t('tip.customPercent')}
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            value={policy.mode === 'PERCENTAGE' ? policy.percentage : ''}
+            onChange={(e) => update({ mode: 'PERCENTAGE', percentage: Number(e.target.value) })}
+            className="w-full mt-1 p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm font-mono text-gray-900"
+          />
+        </label>
+        <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+          {t('tip.customAmount', { currency })}
+          <input
+            type="number"
+            min="0"
+            step={Math.pow(10, -decimals)}
+            value={policy.mode === 'AMOUNT' ? policy.amount : ''}
+            onChange={(e) => update({ mode: 'AMOUNT', amount: Number(e.target.value) })}
+            className="w-full mt-1 p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm font-mono text-gray-900"
+          />
+        </label>
+      </div>
+
+      {policy.mode === 'PERCENTAGE' && (
+        <div className="flex space-x-2">
+          <button onClick={() => update({ basis: 'PRE_TAX' })} className={`flex-1 ${pill(policy.basis === 'PRE_TAX')}`}>{t('tip.onSubtotal')}</button>
+          <button onClick={() => update({ basis: 'POST_TAX' })} className={`flex-1 ${pill(policy.basis === 'POST_TAX')}`}>{t('tip.onTotal')}</button>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button onClick={() => update({ split: 'PROPORTIONAL' })} className={`flex-1 ${pill(policy.split === 'PROPORTIONAL')}`}>{t('tip.proportional')}</button>
+        <button onClick={() => update({ split: 'EQUAL' })} className={`flex-1 ${pill(policy.split === 'EQUAL')}`}>{t('tip.equal')}</button>
+      </div>
+
+      {showHeadcount && policy.split === 'EQUAL' && (
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>{t('tip.splitBetween')}</span>
+          <div className="flex items-center bg-gray-50 border border-gray-200 rounded-lg font-bold">
+            <button onClick={() => update({ headcount: Math.max(1, policy.headcount - 1) })} className="px-3 py-1">-</button>
+            <span className="px-2">{t('tip.people', { count: policy.headcount })}</span>
+            <button onClick={() => update({ headcount: policy.headcount + 1 })} className="px-3 py-1">+</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TipPanel;
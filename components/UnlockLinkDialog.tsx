@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { t } from '../services/i18n';
+
+interface UnlockLinkDialogProps {
+  onUnlock: (passphrase: string) => Promise<void>; // Rejects with a user-facing message
+  onCancel: () => void;
+}
+
+const UnlockLinkDialog: React.FC<UnlockLinkDialogProps> = ({ onUnlock, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const unlock = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl p-6 w-full max-w-sm space-y-4">
+        <h3 className="font-bold text-gray-900">{t('unlock.title')}</h3>
+        <p className="text-sm text-gray-500">{t('unlock.body')}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && passphrase) unlock(); }}
+          placeholder={t('common.passphrase')}
+          autoFocus
+          className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500"
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex space-x-3">
+          <button onClick={onCancel} className="flex-1 bg-white border border-gray-200 text-gray-700 py-3 rounded-2xl font-semibold">{t('common.cancel')}</button>
+          <button onClick={unlock} disabled={!passphrase || isWorking} className="flex-1 bg-blue-600 text-white py-3 rounded-2xl font-semibold disabled:bg-gray-200">
+            {isWorking ? t('unlock.working') : t('unlock.unlock')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockLinkDialog;
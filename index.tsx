@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { appFileUrl } from './services/router';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +15,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Caches the app shell so it opens without a connection (see public/sw.js)
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(appFileUrl('sw.js')).catch(e => console.error("Service worker registration failed", e));
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Offline support for the app shell. Pages and the app's own files come from
+ * the network when it answers quickly and from the cache otherwise; the
+ * libraries and fonts loaded from CDNs are versioned, so the cached copy is
+ * used first. API calls (receipt reading, translation) are never cached;
+ * scans taken offline wait in the app's own queue instead.
+ *
+ * The page loads its modules before this worker is in control, so install
+ * walks the module graph itself: from the entry and the import map in
+ * index.html, through every static and dynamic import, on this origin and
+ * the CDNs. The first launch without a connection then finds everything.
+ */
+
+const CACHE = 'billsplit-shell-v3';
+const SHELL = ['./', 'manifest.webmanifest', 'icon.svg'];
+// The entry module when index.html has no <script type="module"> of its own: the host adds it
+const HOST_ENTRY = 'index.tsx';
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const NETWORK_TIMEOUT_MS = 3000;
+const MAX_MODULES = 500;
+
+// import x from "a"; import "a"; export * from "a"; import("a"), minified or not
+const IMPORT_PATTERN = /\b(?:import|export)\s*(?:[\w$*{},\s]*?\bfrom\s*)?["']([^"'\s]+)["']|\bimport\s*\(\s*["']([^"'\s]+)["']\s*\)/g;
+const SCRIPT_PATTERN = /<script\b([^>]*)>/g;
+const IMPORT_MAP_PATTERN = /<script\b[^>]*type=["']importmap["'][^>]*>([\s\S]*?)<\/script>/;
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+const isCacheable = (url) => url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname);
+
+/** The import map's entries with their URLs made absolute. */
+const readImportMap = (html) => {
+  const match = html.match(IMPORT_MAP_PATTERN);
+  if (!match) return {};
+  try {
+    const imports = JSON.parse(match[1]).imports || {};
+    return Object.fromEntries(Object.entries(imports).map(([key, value]) => [key, new URL(value, scoped('./')).href]));
+  } catch (e) {
+    return {};
+  }
+};
+
+/** Where the browser would load `specifier` from, or null for what it can't resolve either. */
+const resolveImport = (specifier, base, imports) => {
+  if (/^(\.{0,2}\/|https?:)/.test(specifier)) return new URL(specifier, base).href;
+  if (imports[specifier]) return imports[specifier];
+  const prefix = Object.keys(imports)
+    .filter((key) => key.endsWith('/') && specifier.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? imports[prefix] + specifier.slice(prefix.length) : null;
+};
+
+/**
+ * Caches every module reachable from `entries`, a level at a time. A module
+ * that fails to download is skipped; it is cached the first time the page
+ * loads it instead.
+ */
+const precacheModules = async (cache, entries, imports) => {
+  const seen = new Set();
+  let level = entries;
+  while (level.length > 0 && seen.size < MAX_MODULES) {
+    const next = [];
+    await Promise.all(level.filter((url) => !seen.has(url)).map(async (url) => {
+      seen.add(url);
+      try {
+        const response = (await cache.match(url)) || await fetch(url, { mode: 'cors' });
+        if (!response.ok) return;
+        await cache.put(url, response.clone());
+        const source = await response.text();
+        for (const match of source.matchAll(IMPORT_PATTERN)) {
+          const resolved = resolveImport(match[1] || match[2], response.url || url, imports);
+          if (resolved && !seen.has(resolved) && isCacheable(new URL(resolved))) next.push(resolved);
+        }
+      } catch (e) {
+        // Left to the runtime cache
+      }
+    }));
+    level = [...new Set(next)];
+  }
+};
+
+const installShell = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL.map(scoped));
+  const html = await (await cache.match(scoped('./'))).text();
+  const imports = readImportMap(html);
+  const scripts = Array.from(html.matchAll(SCRIPT_PATTERN), (match) => match[1])
+    .map((attributes) => ({ src: (attributes.match(/\bsrc=["']([^"']+)["']/) || [])[1], isModule: /\btype=["']module["']/.test(attributes) }))
+    .filter((script) => script.src);
+
+  // Plain scripts such as Tailwind are requested without cors, so that's how they are cached
+  await Promise.all(scripts.filter((script) => !script.isModule).map(({ src }) => {
+    const url = new URL(src, scoped('./')).href;
+    return fetch(url, { mode: 'no-cors' }).then((response) => cache.put(url, response)).catch(() => {});
+  }));
+
+  const modules = scripts.filter((script) => script.isModule).map(({ src }) => new URL(src, scoped('./')).href);
+  const entries = modules.length > 0 ? modules : [scoped(HOST_ENTRY)];
+  // Without its entry the app can't start offline at all, so that one has to succeed
+  await cache.addAll(entries);
+  // Import map targets too: a module can be imported lazily, after this walk
+  await precacheModules(cache, [...entries, ...Object.values(imports).filter((url) => !url.endsWith('/'))], imports);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(installShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const remember = (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+/** The network's answer, unless it's slow or missing and a cached copy exists. */
+const networkFirst = (request, fallback) => new Promise((resolve, reject) => {
+  let settled = false;
+  const useCache = () => caches.match(fallback || request).then((cached) => {
+    if (cached && !settled) {
+      settled = true;
+      resolve(cached);
+    }
+    return cached;
+  });
+  const timer = setTimeout(useCache, NETWORK_TIMEOUT_MS);
+  fetch(request)
+    .then((response) => {
+      clearTimeout(timer);
+      remember(fallback || request, response);
+      if (!settled) {
+        settled = true;
+        resolve(response);
+      }
+    })
+    .catch((error) => {
+      clearTimeout(timer);
+      useCache().then((cached) => {
+        if (!cached && !settled) reject(error);
+      });
+    });
+});
+
+const cacheFirst = (request) =>
+  caches.match(request).then((cached) => cached || fetch(request).then((response) => remember(request, response)));
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Every route is the same index.html, so one cached copy serves them all
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, scoped('./')));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { SavedBill } from "../types";
+import { t } from "./i18n";
+import { billToJson, parseBillJson } from "./billExport";
+import { computeShares } from "./splitEngine";
+import { validateReceipt } from "./receiptValidation";
+
+const bill: SavedBill = {
+  id: 'bill-1',
+  createdAt: 1,
+  updatedAt: 2,
+  receipt: validateReceipt({
+    restaurantName: 'Diner', currency: 'USD', subtotal: 30, total: 30,
+    items: [{ id: 'a', description: 'Steak', price: 20 }, { id: 'b', description: 'Salad', price: 10 }]
+  })!.receipt,
+  splitMode: 'table',
+  userSelections: {},
+  participants: [{ id: 'ann', name: 'Ann' }, { id: 'bo', name: 'Bo' }],
+  assignments: { a: { itemId: 'a', shares: { ann: 1 } }, b: { itemId: 'b', shares: { bo: 1 } } },
+  payments: [],
+  isSettled: false
+};
+
+const exported = () => JSON.parse(billToJson(bill, computeShares(bill.receipt, bill.participants, bill.assignments)));
+
+describe('parseBillJson', () => {
+  it('reads back the split around the receipt', () => {
+    const imported = parseBillJson(JSON.stringify(exported()));
+    expect(imported.receipt).toEqual(bill.receipt);
+    expect(imported.participants).toEqual(bill.participants);
+    expect(imported.assignments).toEqual(bill.assignments);
+  });
+
+  it('gives the imported bill a new id so it never replaces the one it was exported from', () => {
+    const imported = parseBillJson(JSON.stringify(exported()));
+    expect(imported.id).not.toBe(bill.id);
+    expect(imported.id).toMatch(/^bill-/);
+  });
+
+  it('returns the validated receipt, not the one in the file', () => {
+    const file = exported();
+    file.bill.receipt.restaurantName = '<img src=x onerror=alert(1)>Diner';
+    file.bill.receipt.items[0].price = -20;
+    const imported = parseBillJson(JSON.stringify(file));
+    expect(imported.receipt.restaurantName).toBe('Diner');
+    expect(imported.receipt.items[0].price).toBe(0);
+  });
+
+  it('rejects a file whose receipt does not validate', () => {
+    const file = exported();
+    file.bill.receipt = { items: 'none' };
+    expect(() => parseBillJson(JSON.stringify(file))).toThrow(t('export.invalidReceipt'));
+  });
+});
@@ -0,0 +1,200 @@
+import { BillSplit, Participant, Payment, ReceiptData, SavedBill, Transfer } from "../types";
+import { formatMinor } from "./money";
+import { formatDate, formatMoney, t } from "./i18n";
+import { AVATAR_COLORS } from "./groups";
+import { newBillId } from "./billStore";
+import { readAssignments, readSelections } from "./itemShares";
+import { coverLabel, describeRule, readSplitRules } from "./splitRules";
+import { validateReceipt } from "./receiptValidation";
+
+/**
+ * Bill exports for spreadsheets and chat, and the JSON import that reads
+ * them back. CSV and JSON amounts use a plain decimal point whatever the UI
+ * language, so spreadsheets and scripts read them the same everywhere.
+ */
+
+export const BILL_EXPORT_FORMAT = 'billsplit-pro/bill';
+export const BILL_EXPORT_VERSION = 1;
+
+const EXPORT_NAME_MAX = 40;
+
+/** One diner's share with amounts as decimal strings in the receipt currency. */
+export interface ExportedShare {
+  name: string;
+  items: { description: string; amount: string; rule?: string }[]; // `rule` names the split rule that decided the line
+  subtotal: string;
+  tax: string;
+  tip: string;
+  adjustments: { label: string; amount: string }[];
+  rounding: string;
+  covers: { label: string; amount: string }[];
+  total: string;
+}
+
+/** The JSON file: the full bill so it can be re-opened, plus the computed shares for anyone reading it by hand. */
+export interface BillExport {
+  format: typeof BILL_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  currency: string;
+  bill: SavedBill; // Photos are left out to keep the file small
+  shares: ExportedShare[];
+  unclaimed: string;
+}
+
+const exportShares = (bill: SavedBill, split: BillSplit): ExportedShare[] => {
+  const amount = (minor: number) => formatMinor(minor, split.decimals);
+  const rule = (ruleId?: string) => (bill.splitRules || []).find(r => r.id === ruleId);
+  return split.shares.map(share => ({
+    name: share.name,
+    items: share.items.map(({ itemId, amount: itemAmount, ruleId }) => ({
+      description: bill.receipt.items.find(item => item.id === itemId)?.description || itemId,
+      amount: amount(itemAmount),
+      ...(rule(ruleId) ? { rule: describeRule(rule(ruleId)!, bill.participants) } : {})
+    })),
+    subtotal: amount(share.subtotal),
+    tax: amount(share.tax),
+    tip: amount(share.tip),
+    adjustments: share.adjustments.map(adj => ({ label: adj.label, amount: amount(adj.amount) })),
+    rounding: amount(share.roundingAdjustment),
+    covers: share.covers.map(cover => ({ label: coverLabel(cover, share, split.shares), amount: amount(cover.amount) })),
+    total: amount(share.total)
+  }));
+};
+
+export const billToJson = (bill: SavedBill, split: BillSplit): string => {
+  const { images, ...rest } = bill;
+  const data: BillExport = {
+    format: BILL_EXPORT_FORMAT,
+    version: BILL_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    currency: bill.receipt.currency,
+    bill: rest,
+    shares: exportShares(bill, split),
+    unclaimed: formatMinor(split.unclaimedAmount, split.decimals)
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/** Quotes fields that need it, and defuses text a spreadsheet would run as a formula. */
+const csvField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * One row per line of each diner's share (items, tax, tip, adjustments,
+ * rounding, covers) followed by their total, so a pivot table can sum either way.
+ */
+export const billToCsv = (receipt: ReceiptData, split: BillSplit): string => {
+  const amount = (minor: number) => formatMinor(minor, split.decimals);
+  const rows: string[][] = [['person', 'line', 'description', 'amount', 'currency']];
+  const row = (person: string, line: string, description: string, minor: number) =>
+    rows.push([csvField(person), line, csvField(description), amount(minor), receipt.currency]);
+
+  split.shares.forEach(share => {
+    share.items.forEach(({ itemId, amount: itemAmount }) =>
+      row(share.name, 'item', receipt.items.find(item => item.id === itemId)?.description || itemId, itemAmount));
+    row(share.name, 'tax', '', share.tax);
+    row(share.name, 'tip', '', share.tip);
+    share.adjustments.forEach(adj => row(share.name, 'adjustment', adj.label, adj.amount));
+    if (share.roundingAdjustment !== 0) row(share.name, 'rounding', '', share.roundingAdjustment);
+    share.covers.forEach(cover => row(share.name, 'cover', coverLabel(cover, share, split.shares), cover.amount));
+    row(share.name, 'total', '', share.total);
+  });
+  if (split.unclaimedAmount !== 0) row('', 'unclaimed', '', split.unclaimedAmount);
+  return rows.map(cells => cells.join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * "Bob: you owe Alice $23.40 for Pizza Place on Oct 12, 2026", one per
+ * transfer, followed by where to pay when Alice has a payment handle.
+ */
+export const paymentRequestText = (receipt: ReceiptData, transfer: Transfer, paymentHandle?: string): string => {
+  const params = {
+    from: transfer.from,
+    to: transfer.to,
+    amount: formatMoney(transfer.amount, transfer.currency),
+    restaurant: receipt.restaurantName || t('common.untitled')
+  };
+  const request = receipt.date
+    ? t('export.request', { ...params, date: formatDate(receipt.date) })
+    : t('export.requestNoDate', params);
+  return paymentHandle ? `${request} ${t('export.payTo', { handle: paymentHandle })}` : request;
+};
+
+/** A file name from the restaurant and date, safe on every OS. */
+export const exportFileName = (receipt: ReceiptData, extension: string): string => {
+  const base = [receipt.restaurantName, receipt.date]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${base || 'bill'}.${extension}`;
+};
+
+// --- Import ---
+
+const text = (value: any, max: number): string => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+const readParticipants = (raw: any): Participant[] => (Array.isArray(raw) ? raw : [])
+  .map((p: any): Participant | null => {
+    const id = text(p?.id, 64);
+    const name = text(p?.name, EXPORT_NAME_MAX);
+    if (!id || !name) return null;
+    const participant: Participant = { id, name };
+    const homeCurrency = text(p.homeCurrency, 8);
+    const initials = text(p.initials, 3);
+    const paymentHandle = text(p.paymentHandle, 80);
+    if (homeCurrency) participant.homeCurrency = homeCurrency;
+    if (initials) participant.initials = initials;
+    if (AVATAR_COLORS.includes(p.color)) participant.color = p.color;
+    if (paymentHandle) participant.paymentHandle = paymentHandle;
+    return participant;
+  })
+  .filter((p): p is Participant => p !== null);
+
+const readPayments = (raw: any, participantIds: string[]): Payment[] => (Array.isArray(raw) ? raw : [])
+  .filter((p: any) => p && participantIds.includes(p.participantId) && Number.isInteger(p.amount) && p.amount > 0)
+  .map((p: any) => ({ participantId: p.participantId, amount: p.amount }));
+
+/**
+ * Reads a file written by `billToJson`. The receipt goes through the app's
+ * usual validation and the split around it is checked here, so what comes
+ * back is safe to save. The bill always gets a new id: importing a file
+ * exported from this device adds a copy instead of overwriting the original.
+ * Throws with a user-facing message.
+ */
+export const parseBillJson = (json: string): SavedBill => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(t('export.notJson'));
+  }
+  if (!data || data.format !== BILL_EXPORT_FORMAT || !data.bill || typeof data.bill !== 'object') {
+    throw new Error(t('export.notBill'));
+  }
+  if (data.version !== BILL_EXPORT_VERSION) throw new Error(t('export.newerFormat', { version: String(data.version) }));
+
+  const bill = data.bill;
+  const validated = validateReceipt(bill.receipt);
+  if (!validated) throw new Error(t('export.invalidReceipt'));
+  const participants = readParticipants(bill.participants);
+  const participantIds = participants.map(p => p.id);
+  const now = Date.now();
+  return {
+    id: newBillId(),
+    createdAt: Number.isFinite(bill.createdAt) ? bill.createdAt : now,
+    updatedAt: now,
+    receipt: validated.receipt,
+    splitMode: bill.splitMode === 'table' ? 'table' : 'solo',
+    userSelections: readSelections(bill.userSelections),
+    participants,
+    assignments: readAssignments(bill.assignments, participantIds),
+    splitRules: readSplitRules(bill.splitRules, participantIds),
+    payments: readPayments(bill.payments, participantIds),
+    isSettled: !!bill.isSettled
+  };
+};
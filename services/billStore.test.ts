@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { ValidatedReceipt } from "../types";
+import { BillState, billReducer, initialBillState, toSavedBill } from "./billStore";
+import { validateReceipt } from "./receiptValidation";
+
+const validated = (): ValidatedReceipt => validateReceipt({
+  restaurantName: 'Test', currency: 'USD', subtotal: 15, tax: 0, tip: 0, total: 15, adjustments: [],
+  items: [{ id: 'a', description: 'Burger', price: 12 }, { id: 'b', description: 'Beer', quantity: 3, price: 3 }]
+})!;
+
+const loaded = (): BillState =>
+  billReducer(initialBillState, { type: 'LOAD_RECEIPT', validated: validated(), billId: 'bill-1', createdAt: 1 });
+
+const seated = (): BillState => [
+  { type: 'ADD_PARTICIPANT' as const, participant: { id: 'ann', name: 'Ann' } },
+  { type: 'TOGGLE_ASSIGNMENT' as const, itemId: 'a' },
+  { type: 'ADD_PARTICIPANT' as const, participant: { id: 'bo', name: 'Bo' } },
+  { type: 'TOGGLE_ASSIGNMENT' as const, itemId: 'a' }
+].reduce(billReducer, { ...loaded(), splitMode: 'table' });
+
+describe('billReducer', () => {
+  it('starts a new receipt with the same diners but nothing claimed', () => {
+    const state = billReducer(
+      { ...seated(), payments: [{ participantId: 'ann', amount: 1500 }], splitRules: [{ id: 'r', kind: 'COVER', participantId: 'bo' }] },
+      { type: 'LOAD_RECEIPT', validated: validated(), billId: 'bill-2', createdAt: 2 }
+    );
+
+    expect(state.participants.map(p => p.id)).toEqual(['ann', 'bo']);
+    expect(state.splitMode).toBe('table');
+    expect(state.assignments).toEqual({});
+    expect(state.payments).toEqual([]);
+    expect(state.splitRules).toEqual([]);
+    expect(state.billId).toBe('bill-2');
+  });
+
+  it('gives the active diner a share of a tapped item and takes it back on a second tap', () => {
+    const state = seated();
+    expect(state.assignments.a.shares).toEqual({ ann: 1, bo: 1 });
+    expect(billReducer(state, { type: 'TOGGLE_ASSIGNMENT', itemId: 'a' }).assignments.a.shares).toEqual({ ann: 1 });
+  });
+
+  it('ignores taps while nobody is active', () => {
+    const state = { ...seated(), activeParticipantId: null };
+    expect(billReducer(state, { type: 'TOGGLE_ASSIGNMENT', itemId: 'b' })).toBe(state);
+  });
+
+  it('removes a diner from shares, payments and rules', () => {
+    const state = billReducer(
+      {
+        ...seated(),
+        payments: [{ participantId: 'bo', amount: 1500 }],
+        splitRules: [
+          { id: 'r1', kind: 'COVER', participantId: 'bo' },
+          { id: 'r2', kind: 'ONLY_AMONG', category: 'ALCOHOL', participantIds: ['ann', 'bo'] }
+        ]
+      },
+      { type: 'REMOVE_PARTICIPANT', participantId: 'bo' }
+    );
+
+    expect(state.participants.map(p => p.id)).toEqual(['ann']);
+    expect(state.assignments.a.shares).toEqual({ ann: 1 });
+    expect(state.payments).toEqual([]);
+    expect(state.splitRules).toEqual([{ id: 'r2', kind: 'ONLY_AMONG', category: 'ALCOHOL', participantIds: ['ann'] }]);
+    expect(state.activeParticipantId).toBeNull();
+  });
+
+  it('starts a multi-unit line at all of its units in solo mode', () => {
+    const item = loaded().receipt!.items[1];
+    const state = billReducer(loaded(), { type: 'TOGGLE_ITEM', item });
+    expect(state.userSelections.b).toEqual({ itemId: 'b', isSelected: true, portion: 3, outOf: 3 });
+  });
+
+  it('ignores selection shares that are not numbers or have no whole', () => {
+    const state = loaded();
+    expect(billReducer(state, { type: 'SET_SELECTION_SHARE', itemId: 'b', portion: NaN, outOf: 3 })).toBe(state);
+    expect(billReducer(state, { type: 'SET_SELECTION_SHARE', itemId: 'b', portion: 1, outOf: 0 })).toBe(state);
+    expect(billReducer(state, { type: 'SET_SELECTION_SHARE', itemId: 'b', portion: -1, outOf: 3 }).userSelections.b.portion).toBe(0);
+  });
+
+  it('closes back to the initial state', () => {
+    expect(billReducer(seated(), { type: 'CLOSE_BILL' })).toBe(initialBillState);
+  });
+});
+
+describe('toSavedBill', () => {
+  it('is null without an open bill', () => {
+    expect(toSavedBill(initialBillState, 5)).toBeNull();
+  });
+
+  it('saves rules and photos only when there are any', () => {
+    const saved = toSavedBill(seated(), 5)!;
+    expect(saved).toMatchObject({ id: 'bill-1', createdAt: 1, updatedAt: 5, splitMode: 'table' });
+    expect('splitRules' in saved).toBe(false);
+    expect('images' in saved).toBe(false);
+  });
+});
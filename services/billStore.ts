@@ -0,0 +1,254 @@
+import {
+  FieldError,
+  ItemAssignment,
+  Participant,
+  Payment,
+  ReceiptData,
+  ReceiptItem,
+  ReconciliationReport,
+  SavedBill,
+  SplitMode,
+  SplitRule,
+  UserSelection,
+  ValidatedReceipt
+} from "../types";
+import { setShare, setTotalShares } from "./itemShares";
+import { withoutParticipant } from "./splitRules";
+
+/**
+ * The open bill as a reducer. Every change to it is an action, so the rules
+ * for selections, diners and item shares live here rather than in click
+ * handlers. Actions carry anything impure (new ids, timestamps) and receipts
+ * arrive already validated.
+ */
+
+export interface BillState {
+  billId: string | null;
+  createdAt: number;
+  receipt: ReceiptData | null;
+  reconciliation: ReconciliationReport | null;
+  splitMode: SplitMode;
+  userSelections: Record<string, UserSelection>; // Solo mode
+  participants: Participant[]; // Table mode
+  assignments: Record<string, ItemAssignment>;
+  splitRules: SplitRule[];
+  activeParticipantId: string | null; // The diner items are being assigned to
+  payments: Payment[];
+  images: string[]; // The processed photos the receipt was read from
+  fieldErrors: FieldError[]; // Parts of the extraction that were dropped
+  isSettled: boolean;
+}
+
+export const newBillId = (): string => `bill-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const initialBillState: BillState = {
+  billId: null,
+  createdAt: 0,
+  receipt: null,
+  reconciliation: null,
+  splitMode: 'solo',
+  userSelections: {},
+  participants: [],
+  assignments: {},
+  splitRules: [],
+  activeParticipantId: null,
+  payments: [],
+  images: [],
+  fieldErrors: [],
+  isSettled: false
+};
+
+export type BillAction =
+  | { type: 'LOAD_RECEIPT'; validated: ValidatedReceipt; billId: string; createdAt: number; images?: string[]; fieldErrors?: FieldError[] }
+  | { type: 'RESTORE_BILL'; bill: SavedBill; validated: ValidatedReceipt }
+  | { type: 'CLOSE_BILL' }
+  | { type: 'EDIT_RECEIPT'; validated: ValidatedReceipt }
+  | { type: 'SET_SPLIT_MODE'; splitMode: SplitMode }
+  | { type: 'TOGGLE_ITEM'; item: ReceiptItem }
+  | { type: 'SET_SELECTION_SHARE'; itemId: string; portion: number; outOf: number }
+  | { type: 'ADD_PARTICIPANT'; participant: Participant }
+  | { type: 'REMOVE_PARTICIPANT'; participantId: string }
+  | { type: 'SET_ACTIVE_PARTICIPANT'; participantId: string | null }
+  | { type: 'SET_PARTICIPANT_CURRENCY'; participantId: string; currency: string }
+  | { type: 'TOGGLE_ASSIGNMENT'; itemId: string }
+  | { type: 'SET_ITEM_WEIGHT'; itemId: string; participantId: string; weight: number }
+  | { type: 'SET_ITEM_TOTAL'; itemId: string; total: number }
+  | { type: 'SET_SPLIT_RULES'; rules: SplitRule[] }
+  | { type: 'SEAT_GROUP'; participants: Participant[]; assignments: Record<string, ItemAssignment> }
+  | { type: 'MERGE_CLAIM'; participants: Participant[]; assignments: Record<string, ItemAssignment>; participantId: string }
+  | { type: 'SET_PAYMENTS'; payments: Payment[] }
+  | { type: 'SET_SETTLED'; isSettled: boolean };
+
+export const billReducer = (state: BillState, action: BillAction): BillState => {
+  switch (action.type) {
+    // A new receipt keeps the diners and the split mode, so the same table can split its next bill.
+    // Rules don't carry over: tonight's birthday isn't next week's.
+    case 'LOAD_RECEIPT':
+      return {
+        ...state,
+        billId: action.billId,
+        createdAt: action.createdAt,
+        receipt: action.validated.receipt,
+        reconciliation: action.validated.reconciliation,
+        userSelections: {},
+        assignments: {},
+        splitRules: [],
+        payments: [],
+        images: action.images || [],
+        fieldErrors: action.fieldErrors || [],
+        isSettled: false
+      };
+
+    case 'RESTORE_BILL':
+      return {
+        billId: action.bill.id,
+        createdAt: action.bill.createdAt,
+        receipt: action.validated.receipt,
+        reconciliation: action.validated.reconciliation,
+        splitMode: action.bill.splitMode,
+        userSelections: action.bill.userSelections || {},
+        participants: action.bill.participants || [],
+        assignments: action.bill.assignments || {},
+        splitRules: action.bill.splitRules || [],
+        activeParticipantId: null,
+        payments: action.bill.payments || [],
+        images: action.bill.images || [],
+        fieldErrors: [],
+        isSettled: action.bill.isSettled
+      };
+
+    case 'CLOSE_BILL':
+      return initialBillState;
+
+    case 'EDIT_RECEIPT':
+      return { ...state, receipt: action.validated.receipt, reconciliation: action.validated.reconciliation };
+
+    case 'SET_SPLIT_MODE':
+      return { ...state, splitMode: action.splitMode };
+
+    // A line of several units starts out as all of them, so "2 of 3 beers" is one tap away
+    case 'TOGGLE_ITEM': {
+      const { item } = action;
+      const existing = state.userSelections[item.id];
+      const units = Number.isInteger(item.quantity) && item.quantity > 1 ? item.quantity : 1;
+      return {
+        ...state,
+        userSelections: {
+          ...state.userSelections,
+          [item.id]: { itemId: item.id, isSelected: !existing?.isSelected, portion: existing?.portion ?? units, outOf: existing?.outOf ?? units }
+        }
+      };
+    }
+
+    // Invalid input is ignored. A part larger than the whole is kept as typed and counts as the whole item.
+    case 'SET_SELECTION_SHARE': {
+      const { itemId, portion, outOf } = action;
+      if (!Number.isFinite(portion) || !Number.isFinite(outOf) || outOf <= 0) return state;
+      return {
+        ...state,
+        userSelections: { ...state.userSelections, [itemId]: { itemId, isSelected: true, portion: Math.max(0, portion), outOf } }
+      };
+    }
+
+    case 'ADD_PARTICIPANT':
+      return { ...state, participants: [...state.participants, action.participant], activeParticipantId: action.participant.id };
+
+    case 'REMOVE_PARTICIPANT': {
+      const { participantId } = action;
+      const assignments: Record<string, ItemAssignment> = {};
+      Object.values(state.assignments).forEach(a => { assignments[a.itemId] = setShare(a, a.itemId, participantId, 0); });
+      return {
+        ...state,
+        participants: state.participants.filter(p => p.id !== participantId),
+        payments: state.payments.filter(p => p.participantId !== participantId),
+        assignments,
+        splitRules: withoutParticipant(state.splitRules, participantId),
+        activeParticipantId: state.activeParticipantId === participantId ? null : state.activeParticipantId
+      };
+    }
+
+    case 'SET_ACTIVE_PARTICIPANT':
+      return { ...state, activeParticipantId: action.participantId };
+
+    case 'SET_PARTICIPANT_CURRENCY':
+      return {
+        ...state,
+        participants: state.participants.map(p => p.id === action.participantId ? { ...p, homeCurrency: action.currency } : p)
+      };
+
+    // Tapping an item gives the active diner one share of it, or takes theirs away
+    case 'TOGGLE_ASSIGNMENT': {
+      const participantId = state.activeParticipantId;
+      if (!participantId) return state;
+      const current = state.assignments[action.itemId];
+      const isRemoving = (current?.shares[participantId] || 0) > 0;
+      return {
+        ...state,
+        assignments: { ...state.assignments, [action.itemId]: setShare(current, action.itemId, participantId, isRemoving ? 0 : 1) }
+      };
+    }
+
+    case 'SET_ITEM_WEIGHT':
+      if (!Number.isFinite(action.weight)) return state;
+      return {
+        ...state,
+        assignments: { ...state.assignments, [action.itemId]: setShare(state.assignments[action.itemId], action.itemId, action.participantId, action.weight) }
+      };
+
+    // A total of 0 goes back to splitting the item between whoever has a share
+    case 'SET_ITEM_TOTAL':
+      if (!Number.isFinite(action.total)) return state;
+      return {
+        ...state,
+        assignments: { ...state.assignments, [action.itemId]: setTotalShares(state.assignments[action.itemId], action.itemId, action.total) }
+      };
+
+    case 'SET_SPLIT_RULES':
+      return { ...state, splitRules: action.rules };
+
+    // A saved group replaces whoever was at the table before, and the rules that named them
+    case 'SEAT_GROUP':
+      return {
+        ...state,
+        splitMode: 'table',
+        participants: action.participants,
+        assignments: action.assignments,
+        splitRules: [],
+        activeParticipantId: null
+      };
+
+    case 'MERGE_CLAIM':
+      return {
+        ...state,
+        splitMode: 'table',
+        participants: action.participants,
+        assignments: action.assignments,
+        activeParticipantId: action.participantId
+      };
+
+    case 'SET_PAYMENTS':
+      return { ...state, payments: action.payments };
+
+    case 'SET_SETTLED':
+      return { ...state, isSettled: action.isSettled };
+  }
+};
+
+/** The open bill as it is saved to history, or null when none is open. */
+export const toSavedBill = (state: BillState, updatedAt: number): SavedBill | null => {
+  if (!state.receipt || !state.billId) return null;
+  return {
+    id: state.billId,
+    createdAt: state.createdAt,
+    updatedAt,
+    receipt: state.receipt,
+    splitMode: state.splitMode,
+    userSelections: state.userSelections,
+    participants: state.participants,
+    assignments: state.assignments,
+    ...(state.splitRules.length > 0 ? { splitRules: state.splitRules } : {}),
+    payments: state.payments,
+    ...(state.images.length > 0 ? { images: state.images } : {}),
+    isSettled: state.isSettled
+  };
+};
@@ -0,0 +1,85 @@
+import { Claim, ClaimConflict, ItemAssignment, Participant, ReceiptData, UserSelection } from "../types";
+import { t } from "./i18n";
+import { claimedShares, selectionFraction, setShare, setTotalShares, sharedBy } from "./itemShares";
+
+export interface MergedClaim {
+  participants: Participant[];
+  assignments: Record<string, ItemAssignment>;
+  participantId: string;
+  unmatchedItemIds: string[]; // Claimed items that are no longer on the organizer's receipt
+}
+
+/** Keeps converted weights readable (1.5, not 1.4999999999999998). */
+const roundWeight = (weight: number): number => Math.round(weight * 1e6) / 1e6;
+
+/**
+ * Folds one diner's claim into the table. Diners are matched by name
+ * (case-insensitive); a newer claim from the same person replaces their
+ * earlier items rather than adding to them. The first claim on an item sets
+ * what it is divided into; later ones are converted to that.
+ */
+export const mergeClaim = (
+  claim: Claim,
+  receipt: ReceiptData,
+  participants: Participant[],
+  assignments: Record<string, ItemAssignment>
+): MergedClaim => {
+  const key = claim.name.trim().toLowerCase();
+  const existing = participants.find(p => p.name.trim().toLowerCase() === key);
+  const participant: Participant = existing || { id: `p-${Date.now()}-${participants.length}`, name: claim.name.trim() };
+
+  const claimed = new Map<string, UserSelection>();
+  claim.selections.filter(sel => sel.isSelected).forEach(sel => claimed.set(sel.itemId, sel));
+
+  const next: Record<string, ItemAssignment> = {};
+  receipt.items.forEach(item => {
+    const selection = claimed.get(item.id);
+    let assignment = setShare(assignments[item.id], item.id, participant.id, 0);
+    if (selection) {
+      // The claim is read into the item's own shares: "1 of 2" on an item out of 3 becomes 1.5
+      const total = assignment.totalShares;
+      if (total) {
+        assignment = setShare(assignment, item.id, participant.id, roundWeight(selectionFraction(selection) * total));
+      } else {
+        assignment = setShare(setTotalShares(assignment, item.id, selection.outOf), item.id, participant.id, selection.portion);
+      }
+    }
+    next[item.id] = assignment;
+  });
+
+  return {
+    participants: existing ? participants : [...participants, participant],
+    assignments: next,
+    participantId: participant.id,
+    unmatchedItemIds: Array.from(claimed.keys()).filter(id => !receipt.items.some(item => item.id === id))
+  };
+};
+
+/**
+ * Items the organizer should look at before settling: nobody claimed them,
+ * or the shares claimed add up to more or less than the item's total.
+ * Items without a total are split between whoever has them, so they are only
+ * checked for being unclaimed.
+ */
+export const findClaimConflicts = (
+  receipt: ReceiptData,
+  participants: Participant[],
+  assignments: Record<string, ItemAssignment>
+): ClaimConflict[] => {
+  const participantIds = participants.map(p => p.id);
+  return receipt.items.flatMap((item): ClaimConflict[] => {
+    const assignment = assignments[item.id];
+    if (sharedBy(assignment, participantIds).length === 0) return [{ itemId: item.id, kind: 'UNCLAIMED', message: t('conflict.unclaimed') }];
+
+    const total = assignment?.totalShares;
+    if (!total) return [];
+    const claimed = roundWeight(claimedShares(assignment, participantIds));
+    if (claimed > total) {
+      return [{ itemId: item.id, kind: 'OVER_CLAIMED', message: t('conflict.overClaimed', { claimed, total }) }];
+    }
+    if (claimed < total) {
+      return [{ itemId: item.id, kind: 'UNDER_CLAIMED', message: t('conflict.underClaimed', { claimed, total }) }];
+    }
+    return [];
+  });
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CURRENCY, isCurrencyCode, normalizeCurrency } from "./currency";
+import { validateReceipt } from "./receiptValidation";
+
+describe('normalizeCurrency', () => {
+  it('maps symbols and spellings to ISO codes', () => {
+    expect(normalizeCurrency('€')).toBe('EUR');
+    expect(normalizeCurrency(' eur ')).toBe('EUR');
+    expect(normalizeCurrency('Rs.')).toBe('INR');
+    expect(normalizeCurrency('zł')).toBe('PLN');
+    expect(normalizeCurrency('sek')).toBe('SEK');
+  });
+
+  it('keeps symbols it cannot place instead of calling them dollars', () => {
+    ['kr', 'R', 'Fr', 'лв'].forEach(symbol => {
+      expect(normalizeCurrency(symbol)).toBe(symbol);
+      expect(isCurrencyCode(normalizeCurrency(symbol))).toBe(false);
+    });
+  });
+
+  it('only falls back to the default when there is no currency at all', () => {
+    expect(normalizeCurrency('')).toBe(DEFAULT_CURRENCY);
+    expect(normalizeCurrency('  ')).toBe(DEFAULT_CURRENCY);
+  });
+
+  it('carries an unknown symbol through validation for the user to confirm', () => {
+    const { receipt } = validateReceipt({ restaurantName: 'Kafé', currency: 'kr', total: 120, items: [{ description: 'Fika', price: 120 }] })!;
+    expect(receipt.currency).toBe('kr');
+    expect(isCurrencyCode(receipt.currency)).toBe(false);
+  });
+});
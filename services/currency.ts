@@ -0,0 +1,128 @@
+import { ExchangeRate } from "../types";
+import { currencyDecimals, fromMinor, toMinor } from "./money";
+
+/** Symbols and local spellings the AI returns, mapped to ISO 4217 codes. */
+const CURRENCY_ALIASES: Record<string, string> = {
+  '$': 'USD', 'US$': 'USD', 'USD$': 'USD',
+  '€': 'EUR', 'EURO': 'EUR', 'EUROS': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY', '￥': 'JPY', '円': 'JPY', 'YEN': 'JPY',
+  '元': 'CNY', 'RMB': 'CNY', 'CN¥': 'CNY',
+  '₩': 'KRW', '원': 'KRW',
+  '₹': 'INR', 'RS': 'INR', 'RS.': 'INR',
+  'R$': 'BRL',
+  'A$': 'AUD', 'AU$': 'AUD',
+  'C$': 'CAD', 'CA$': 'CAD',
+  'NZ$': 'NZD',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  'MX$': 'MXN',
+  'FR.': 'CHF', 'SFR': 'CHF',
+  '₺': 'TRY',
+  '₫': 'VND',
+  '฿': 'THB',
+  '₱': 'PHP',
+  '₪': 'ILS',
+  'ZŁ': 'PLN',
+  'KČ': 'CZK',
+  'د.ب': 'BHD', 'BD': 'BHD',
+  'د.ك': 'KWD', 'KD': 'KWD'
+};
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/** Longest unrecognised spelling kept as printed; anything longer is not a currency. */
+const UNKNOWN_CURRENCY_MAX = 8;
+
+/**
+ * Turns whatever the receipt printed ("$", "€", "eur", "Rs.") into an ISO 4217
+ * code. Unknown three-letter codes are kept. Symbols nobody can map ("kr" is
+ * four currencies) are kept as printed rather than guessed, so `isCurrencyCode`
+ * can ask the user; only a missing currency becomes USD.
+ */
+export const normalizeCurrency = (raw: string): string => {
+  const trimmed = (raw || '').trim();
+  if (!trimmed) return DEFAULT_CURRENCY;
+  const upper = trimmed.toUpperCase();
+  if (upper in CURRENCY_ALIASES) return CURRENCY_ALIASES[upper];
+  if (trimmed in CURRENCY_ALIASES) return CURRENCY_ALIASES[trimmed];
+  if (CURRENCY_CODE.test(upper)) return upper;
+  return trimmed.slice(0, UNKNOWN_CURRENCY_MAX);
+};
+
+/** Whether `currency` is a three-letter code rather than a symbol `normalizeCurrency` couldn't place. */
+export const isCurrencyCode = (currency: string): boolean => CURRENCY_CODE.test(currency);
+
+/** Narrow display symbol for a code, e.g. "USD" -> "$". Falls back to the code itself. */
+export const currencySymbol = (code: string): string => {
+  try {
+    const parts = new Intl.NumberFormat('en', { style: 'currency', currency: code, currencyDisplay: 'narrowSymbol' }).formatToParts(0);
+    return parts.find(part => part.type === 'currency')?.value || code;
+  } catch (e) {
+    return code;
+  }
+};
+
+/**
+ * Finds the rate converting `from` into `to`. A rate entered the other way
+ * round (to -> from) is inverted, keeping its date and source.
+ */
+export const findRate = (rates: ExchangeRate[], from: string, to: string): ExchangeRate | null => {
+  if (from === to) return null;
+  const direct = rates.find(r => r.from === from && r.to === to);
+  if (direct) return direct;
+  const inverse = rates.find(r => r.from === to && r.to === from);
+  return inverse ? { ...inverse, from, to, rate: 1 / inverse.rate } : null;
+};
+
+/** Converts an amount in minor units of one currency into minor units of another. */
+export const convertMinor = (minor: number, rate: ExchangeRate): number =>
+  toMinor(fromMinor(minor, currencyDecimals(rate.from)) * rate.rate, currencyDecimals(rate.to));
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a pasted rate table. Accepts JSON (an array of rates, or an object
+ * like {"EUR": 0.92}) or one rate per line in any of these shapes:
+ *
+ *   EUR 0.92
+ *   USD,EUR,0.92,2026-10-12
+ *   1 USD = 0.92 EUR
+ *
+ * Lines with only a target currency are read as rates from `baseCurrency`.
+ * Rates without a date get `fallbackDate`. Unreadable lines are skipped.
+ */
+export const parseRateTable = (text: string, baseCurrency: string, fallbackDate: string): ExchangeRate[] => {
+  const build = (from: string, to: string, rate: number, date?: string): ExchangeRate | null => {
+    const fromCode = normalizeCurrency(from);
+    const toCode = normalizeCurrency(to);
+    if (!Number.isFinite(rate) || rate <= 0 || fromCode === toCode) return null;
+    return { from: fromCode, to: toCode, rate, date: date && DATE_PATTERN.test(date) ? date : fallbackDate, source: 'manual' };
+  };
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      const entries: (ExchangeRate | null)[] = Array.isArray(parsed)
+        ? parsed.map((r: any) => build(r?.from || baseCurrency, r?.to, Number(r?.rate), r?.date))
+        : Object.keys(parsed).map(code => build(baseCurrency, code, Number(parsed[code])));
+      return entries.filter((r): r is ExchangeRate => r !== null);
+    } catch (e) {
+      return [];
+    }
+  }
+
+  return trimmed.split(/\r?\n/).map(line => {
+    const tokens = line.split(/[\s,;=:\t]+/).filter(Boolean);
+    const date = tokens.find(t => DATE_PATTERN.test(t));
+    const numbers = tokens.filter(t => t !== date && /^\d*\.?\d+$/.test(t)).map(Number);
+    const codes = tokens.filter(t => t !== date && !/^\d*\.?\d+$/.test(t));
+    if (numbers.length === 0 || codes.length === 0) return null;
+    // "1 USD = 0.92 EUR": the last number is the rate
+    const rate = numbers[numbers.length - 1] / (numbers.length > 1 ? numbers[0] : 1);
+    return codes.length >= 2 ? build(codes[0], codes[1], rate, date) : build(baseCurrency, codes[0], rate, date);
+  }).filter((r): r is ExchangeRate => r !== null);
+};
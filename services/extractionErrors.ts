@@ -0,0 +1,62 @@
+import { ExtractionErrorKind, FieldError } from "../types";
+import { t } from "./i18n";
+
+const RETRYABLE: ExtractionErrorKind[] = ['NETWORK', 'QUOTA', 'SERVICE'];
+
+/** An extraction failure the UI can tell apart: what went wrong, and whether trying again may help. */
+export class ExtractionError extends Error {
+  kind: ExtractionErrorKind;
+  fieldErrors: FieldError[];
+
+  constructor(kind: ExtractionErrorKind, message: string, fieldErrors: FieldError[] = []) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.kind = kind;
+    this.fieldErrors = fieldErrors;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export const cancelledError = () => new ExtractionError('CANCELLED', t('extraction.cancelled'));
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: ExtractionError) => void;
+}
+
+/**
+ * Runs `task` until it succeeds, fails with a non-retryable error or runs out
+ * of attempts. Waits grow exponentially (base, 2x base, 4x base...) with a
+ * little jitter so several tabs don't retry in lockstep.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, { attempts, baseDelayMs, signal, onRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await task();
+    } catch (e) {
+      if (signal?.aborted) throw cancelledError();
+      if (!(e instanceof ExtractionError) || !e.retryable || attempt >= attempts) throw e;
+      onRetry?.(attempt, e);
+      await sleep(baseDelayMs * Math.pow(2, attempt - 1) * (0.8 + Math.random() * 0.4), signal);
+    }
+  }
+};
@@ -0,0 +1,28 @@
+import { ExtractedReceipt, ExtractionInput, ExtractorId, ReceiptExtractor } from "../types";
+import { geminiExtractor } from "./geminiService";
+import { localExtractor } from "./localReceiptParser";
+import { mockExtractor } from "./mockExtractor";
+import { mergeReceiptPages } from "./receiptMerge";
+
+export const EXTRACTORS: ReceiptExtractor[] = [geminiExtractor, localExtractor, mockExtractor];
+
+export const getExtractor = (id: ExtractorId): ReceiptExtractor =>
+  EXTRACTORS.find(extractor => extractor.id === id) || geminiExtractor;
+
+/**
+ * Reads several photos of one receipt (pages or overlapping segments of a
+ * long one) in order and stitches them into a single receipt.
+ */
+export const extractPages = async (
+  extractor: ReceiptExtractor,
+  images: string[],
+  options: Omit<ExtractionInput, 'image' | 'text'>,
+  onProgress?: (page: number, pageCount: number) => void
+): Promise<ExtractedReceipt> => {
+  const pages: ExtractedReceipt[] = [];
+  for (let i = 0; i < images.length; i++) {
+    onProgress?.(i + 1, images.length);
+    pages.push(await extractor.extract({ ...options, image: images[i] }));
+  }
+  return mergeReceiptPages(pages);
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { classifyError } from "./geminiService";
+
+const kind = (error: unknown) => classifyError(error).kind;
+
+describe('classifyError', () => {
+  it('calls only requests that never got an answer network errors', () => {
+    expect(kind(new TypeError('Failed to fetch'))).toBe('NETWORK');
+    expect(kind(new TypeError('fetch failed'))).toBe('NETWORK');
+    expect(kind(new TypeError('NetworkError when attempting to fetch resource.'))).toBe('NETWORK');
+  });
+
+  it('does not take bugs or unknown failures for a lost connection', () => {
+    expect(kind(new TypeError("Cannot read properties of undefined (reading 'text')"))).toBe('UNEXPECTED');
+    expect(kind(new Error('Something odd'))).toBe('UNEXPECTED');
+    expect(kind('boom')).toBe('UNEXPECTED');
+    expect(classifyError(new Error('Something odd')).retryable).toBe(false);
+  });
+
+  it('tells key, quota, server and image problems apart', () => {
+    expect(kind({ status: 403, message: 'Forbidden' })).toBe('NO_API_KEY');
+    expect(kind({ status: 429, message: 'Too many requests' })).toBe('QUOTA');
+    expect(kind({ status: 503, message: 'The model is overloaded' })).toBe('SERVICE');
+    expect(kind({ status: 400, message: 'Unsupported MIME type' })).toBe('UNREADABLE_IMAGE');
+    expect(kind({ name: 'AbortError' })).toBe('CANCELLED');
+  });
+
+  it('retries server trouble in place but leaves queuing to network errors', () => {
+    const server = classifyError({ status: 500, message: 'Internal error' });
+    expect(server.kind).toBe('SERVICE');
+    expect(server.retryable).toBe(true);
+  });
+});
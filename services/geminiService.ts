@@ -1,80 +1,224 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { ReceiptData } from "../types";
+import { ExtractedReceipt, ITEM_CATEGORIES, ReceiptExtractor } from "../types";
+import { dataUrlBytes, detectMimeType } from "./imagePreprocess";
+import { cancelledError, ExtractionError, withRetry } from "./extractionErrors";
+import { parseModelReceipt } from "./receiptSchema";
+import { localeName } from "./locales";
+import { t } from "./i18n";
+
+const MODEL = 'gemini-3-flash-preview';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
+/** Confidence and position of one printed value; box_2d is Gemini's native [ymin, xmin, ymax, xmax] on a 0-1000 grid. */
+const sourceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    confidence: { type: Type.NUMBER, description: "0 to 1: how sure you are this value was read correctly" },
+    box_2d: {
+      type: Type.ARRAY,
+      items: { type: Type.INTEGER },
+      description: "Bounding box of the printed line as [ymin, xmin, ymax, xmax], normalized to 0-1000"
+    }
+  }
+};
+
 const receiptSchema = {
   type: Type.OBJECT,
   properties: {
     restaurantName: { type: Type.STRING, description: "Name of the restaurant" },
     date: { type: Type.STRING, description: "Date of the meal in YYYY-MM-DD format" },
-    currency: { type: Type.STRING, description: "Currency symbol or code found on receipt" },
+    currency: { type: Type.STRING, description: "ISO 4217 currency code (e.g. USD, EUR, JPY), inferred from the symbol and location on the receipt" },
     items: {
       type: Type.ARRAY,
       items: {
         type: Type.OBJECT,
         properties: {
           quantity: { type: Type.NUMBER },
-          description: { type: Type.STRING },
-          price: { type: Type.NUMBER }
+          description: { type: Type.STRING, description: "Item name in the requested language" },
+          originalDescription: { type: Type.STRING, description: "Item name exactly as printed, only if it differs from description" },
+          price: { type: Type.NUMBER, description: "Line total for this item (quantity × unit price)" },
+          unitPrice: { type: Type.NUMBER, description: "Price per unit, only if printed separately on the receipt" },
+          category: {
+            type: Type.STRING,
+            enum: ITEM_CATEGORIES,
+            description: "FOOD, DRINK (non-alcoholic), ALCOHOL, DESSERT, SHARED (appetizers and plates meant for the table) or KIDS (kids' menu)"
+          },
+          confidence: sourceSchema.properties.confidence,
+          box_2d: sourceSchema.properties.box_2d
         },
         required: ["quantity", "description", "price"]
       }
     },
+    adjustments: {
+      type: Type.ARRAY,
+      description: "Discounts, coupons, service charges, extra tax lines and VAT-inclusive tax notes",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["DISCOUNT", "COUPON", "SERVICE_CHARGE", "TAX", "INCLUDED_TAX", "FEE"] },
+          label: { type: Type.STRING, description: "The line as printed, e.g. 'Happy Hour -20%' or 'City Tax'" },
+          amount: { type: Type.NUMBER, description: "Absolute amount as a positive number, if printed" },
+          percentage: { type: Type.NUMBER, description: "Percentage, only if no amount is printed" },
+          itemIndexes: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            description: "Zero-based indexes of the items it applies to; empty for the whole bill"
+          }
+        },
+        required: ["type", "label"]
+      }
+    },
     subtotal: { type: Type.NUMBER, description: "Sum of item prices before tax and tip" },
     tax: { type: Type.NUMBER, description: "Sales tax or VAT amount" },
     tip: { type: Type.NUMBER, description: "Gratuity, tip, or service charge amount if found" },
-    total: { type: Type.NUMBER, description: "The final total amount on the receipt" }
+    total: { type: Type.NUMBER, description: "The final total amount on the receipt" },
+    totalSources: {
+      type: Type.OBJECT,
+      description: "Confidence and bounding box for each total that is printed",
+      properties: { subtotal: sourceSchema, tax: sourceSchema, tip: sourceSchema, total: sourceSchema }
+    }
   },
   required: ["restaurantName", "items", "total"]
 };
 
-export const analyzeReceipt = async (base64Image: string, targetLanguage: string): Promise<ReceiptData> => {
-  const model = 'gemini-3-flash-preview';
-  
+/** What fetch throws when the request never got an answer: Chrome, Firefox, Safari and Node word it differently. */
+const FETCH_FAILED = /failed to fetch|fetch failed|networkerror|load failed|network request failed/i;
+
+/**
+ * Maps SDK and fetch failures onto the error kinds the UI tells apart. Only a
+ * request that never reached Gemini counts as NETWORK, since that is what
+ * queues the photos for later; anything unrecognised is UNEXPECTED.
+ */
+export const classifyError = (error: unknown): ExtractionError => {
+  if (error instanceof ExtractionError) return error;
+  const status = Number((error as any)?.status) || 0;
+  const message = String((error as any)?.message || '');
+  if ((error as any)?.name === 'AbortError') return cancelledError();
+  if ((error instanceof TypeError && FETCH_FAILED.test(message)) || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new ExtractionError('NETWORK', t('extraction.network'));
+  }
+  if (status === 401 || status === 403 || /api[ _-]?key/i.test(message)) {
+    return new ExtractionError('NO_API_KEY', t('extraction.badKey'));
+  }
+  if (status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(message)) {
+    return new ExtractionError('QUOTA', t('extraction.quota'));
+  }
+  if (status === 400 && /image|mime|inline.?data/i.test(message)) {
+    return new ExtractionError('UNREADABLE_IMAGE', t('extraction.badImage'));
+  }
+  if (status >= 500 || /overloaded|unavailable|internal error/i.test(message)) {
+    return new ExtractionError('SERVICE', t('extraction.service'));
+  }
+  return new ExtractionError('UNEXPECTED', t('extraction.unexpected', { detail: (message || String(error)).slice(0, 120) }));
+};
+
+/** One JSON-mode request with the usual key check, retries and error mapping. */
+const generateJson = async (
+  parts: any[],
+  responseSchema: any,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, error: ExtractionError) => void
+): Promise<string> => {
+  if (!process.env.API_KEY) {
+    throw new ExtractionError('NO_API_KEY', t('extraction.noKey'));
+  }
+  const response = await withRetry(
+    () => ai.models.generateContent({
+      model: MODEL,
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+        abortSignal: signal
+      }
+    }).catch(error => {
+      console.error("Gemini Analysis Error:", error);
+      throw signal?.aborted ? cancelledError() : classifyError(error);
+    }),
+    { attempts: 3, baseDelayMs: 1000, signal, onRetry }
+  );
+  return response.text || '';
+};
+
+export const analyzeReceipt = async (
+  base64Image: string,
+  targetLanguage: string,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, error: ExtractionError) => void
+): Promise<ExtractedReceipt> => {
+
   const prompt = `
     Analyze this restaurant receipt. 
     1. Extract the restaurant name and date.
-    2. Extract all line items (quantity, description, price).
+    2. Extract all line items (quantity, description, line total price, and unit price if printed).
     3. Identify subtotal, tax, tip (if present), and the grand total.
     4. If the tip is not a separate line but part of the total, try to derive it or mark as 0 if unknown.
-    5. Translate the 'description' of all items into ${targetLanguage} if the original language is different.
-    6. Return the result in the specified JSON format.
+    5. List discounts, coupons, mandatory service charges and fees as adjustments. If there are several
+       tax lines (e.g. state and city), list each as a TAX adjustment and set tax to 0. If prices already
+       include VAT, add an INCLUDED_TAX adjustment instead of setting tax.
+    6. Give each item's 'description' in ${localeName(targetLanguage)}. If the receipt is in another language,
+       translate it and put the text exactly as printed in 'originalDescription'.
+    7. The photo may show only part of a long receipt. Extract what is visible and use 0 for any
+       total that isn't shown.
+    8. For every item and printed total, give a confidence between 0 and 1 and the bounding box of
+       the printed line. Use a low confidence for blurry, faded or ambiguous digits.
+    9. Give each item a category: FOOD, DRINK, ALCOHOL, DESSERT, SHARED for starters and plates for
+       the table, or KIDS for the kids' menu.
+    10. Return the result in the specified JSON format.
   `;
 
   const imagePart = {
     inlineData: {
-      mimeType: "image/jpeg",
-      data: base64Image.split(',')[1] // Remove data:image/jpeg;base64,
+      mimeType: detectMimeType(dataUrlBytes(base64Image, 32)) || base64Image.match(/^data:([^;,]+)/)?.[1] || "image/jpeg",
+      data: base64Image.split(',')[1] // Remove data:<mime>;base64,
     }
   };
 
+  const receipt = parseModelReceipt(await generateJson([imagePart, { text: prompt }], receiptSchema, signal, onRetry));
+  return { ...receipt, language: targetLanguage };
+};
+
+/**
+ * Translates item descriptions into another language, one entry per input
+ * in the same order. Used to re-translate a receipt someone else scanned.
+ */
+export const translateDescriptions = async (texts: string[], targetLanguage: string, signal?: AbortSignal): Promise<string[]> => {
+  if (texts.length === 0) return [];
+  const prompt = `
+    Translate these restaurant receipt item names into ${localeName(targetLanguage)}.
+    Keep dish names that are normally left untranslated, and keep any sizes or counts.
+    Return exactly ${texts.length} translations in the same order.
+
+    ${JSON.stringify(texts)}
+  `;
+  const schema = {
+    type: Type.OBJECT,
+    properties: { translations: { type: Type.ARRAY, items: { type: Type.STRING } } },
+    required: ["translations"]
+  };
+  const text = await generateJson([{ text: prompt }], schema, signal);
+  let translations: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts: [imagePart, { text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: receiptSchema,
-      }
-    });
+    translations = JSON.parse(text).translations;
+  } catch (e) {
+    throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.translationCut'));
+  }
+  if (!Array.isArray(translations) || translations.length !== texts.length || !translations.every(t => typeof t === 'string')) {
+    throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.translationMismatch'));
+  }
+  return translations.map((t, idx) => t.trim() || texts[idx]);
+};
 
-    const parsedData = JSON.parse(response.text || '{}');
-    
-    // Add unique IDs to items
-    return {
-      ...parsedData,
-      tip: parsedData.tip || 0,
-      tax: parsedData.tax || 0,
-      subtotal: parsedData.subtotal || 0,
-      items: (parsedData.items || []).map((item: any, index: number) => ({
-        ...item,
-        id: `item-${index}-${Date.now()}`
-      }))
-    };
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw new Error("Failed to analyze receipt. Please ensure the photo is clear.");
+export const geminiExtractor: ReceiptExtractor = {
+  id: 'gemini',
+  name: 'Gemini AI',
+  get description() { return t('extractor.gemini.description'); },
+  input: 'image',
+  offline: false,
+  extract: ({ image, targetLanguage, signal, onRetry }) => {
+    if (!image) return Promise.reject(new Error(t('extraction.needsPhoto')));
+    return analyzeReceipt(image, targetLanguage, signal, onRetry && ((attempt, error) => onRetry(attempt, error.message)));
   }
 };
@@ -0,0 +1,122 @@
+import { AvatarColor, Group, GroupMember, ItemAssignment, MemberRule, Participant, ReceiptData, ReceiptItem } from "../types";
+import { t } from "./i18n";
+import { itemCategory, mentions } from "./itemCategories";
+import { setShare } from "./itemShares";
+
+/**
+ * Saved groups: who usually eats together, how to show them, and the rules
+ * they bring (no alcohol, never the dessert). Picking a group for a new bill
+ * seats everyone and shares each line between the members whose rules allow
+ * it; the table can still change anything afterwards.
+ */
+
+export const GROUPS_EXPORT_FORMAT = 'billsplit-pro/groups';
+export const GROUPS_EXPORT_VERSION = 1;
+
+export const AVATAR_COLORS: AvatarColor[] = ['gray', 'blue', 'green', 'amber', 'rose', 'violet', 'teal'];
+
+const NAME_MAX = 40;
+const INITIALS_MAX = 3;
+const HANDLE_MAX = 80;
+const WORD_MAX = 30;
+const WORDS_MAX = 20;
+
+export const newGroupId = (): string => `group-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const newMember = (name: string): GroupMember => ({
+  id: `m-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  rules: []
+});
+
+export const newGroup = (name: string): Group => ({ id: newGroupId(), name, members: [], updatedAt: Date.now() });
+
+/** Whether a rule keeps this member off the line. */
+export const ruleExcludes = (rule: MemberRule, item: ReceiptItem): boolean => {
+  switch (rule.kind) {
+    case 'NO_ALCOHOL': return itemCategory(item) === 'ALCOHOL';
+    case 'EXCLUDE_WORDS': return mentions(item, rule.words);
+  }
+};
+
+export const memberExcludes = (member: GroupMember, item: ReceiptItem): boolean =>
+  member.rules.some(rule => ruleExcludes(rule, item));
+
+/** The diner a member becomes on a bill; their id carries over so bills from one group line up. */
+export const memberParticipant = ({ rules, ...participant }: GroupMember): Participant => participant;
+
+/**
+ * Seats a group at a freshly read receipt: every line is shared equally
+ * between the members whose rules allow it. A line everyone's rules exclude
+ * is left unclaimed.
+ */
+export const prefillFromGroup = (group: Group, receipt: ReceiptData): { participants: Participant[]; assignments: Record<string, ItemAssignment> } => {
+  const assignments: Record<string, ItemAssignment> = {};
+  receipt.items.forEach(item => {
+    assignments[item.id] = group.members
+      .filter(member => !memberExcludes(member, item))
+      .reduce<ItemAssignment>((assignment, member) => setShare(assignment, item.id, member.id, 1), { itemId: item.id, shares: {} });
+  });
+  return { participants: group.members.map(memberParticipant), assignments };
+};
+
+// --- Export and import ---
+
+export const groupsToJson = (groups: Group[]): string => JSON.stringify({
+  format: GROUPS_EXPORT_FORMAT,
+  version: GROUPS_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  groups
+}, null, 2);
+
+const text = (value: any, max: number): string => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+const readRules = (raw: any): MemberRule[] => (Array.isArray(raw) ? raw : [])
+  .map((rule: any): MemberRule | null => {
+    if (rule?.kind === 'NO_ALCOHOL') return { kind: 'NO_ALCOHOL' };
+    if (rule?.kind === 'EXCLUDE_WORDS' && Array.isArray(rule.words)) {
+      const words = rule.words.map((word: any) => text(word, WORD_MAX)).filter(Boolean).slice(0, WORDS_MAX);
+      return words.length > 0 ? { kind: 'EXCLUDE_WORDS', words } : null;
+    }
+    return null;
+  })
+  .filter((rule): rule is MemberRule => rule !== null);
+
+const readMember = (raw: any): GroupMember | null => {
+  const id = text(raw?.id, 64);
+  const name = text(raw?.name, NAME_MAX);
+  if (!id || !name) return null;
+  const member: GroupMember = { id, name, rules: readRules(raw.rules) };
+  const initials = text(raw.initials, INITIALS_MAX);
+  const homeCurrency = text(raw.homeCurrency, 8).toUpperCase();
+  const paymentHandle = text(raw.paymentHandle, HANDLE_MAX);
+  if (initials) member.initials = initials;
+  if (AVATAR_COLORS.includes(raw.color)) member.color = raw.color;
+  if (/^[A-Z]{3}$/.test(homeCurrency)) member.homeCurrency = homeCurrency;
+  if (paymentHandle) member.paymentHandle = paymentHandle;
+  return member;
+};
+
+/** Reads a file written by `groupsToJson`. Throws with a user-facing message. */
+export const parseGroupsJson = (json: string): Group[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(t('export.notJson'));
+  }
+  if (!data || data.format !== GROUPS_EXPORT_FORMAT || !Array.isArray(data.groups)) throw new Error(t('group.notGroups'));
+  if (data.version !== GROUPS_EXPORT_VERSION) throw new Error(t('group.newerFormat', { version: String(data.version) }));
+
+  const now = Date.now();
+  return data.groups
+    .map((raw: any): Group | null => {
+      const name = text(raw?.name, NAME_MAX);
+      if (!name) return null;
+      const members = (Array.isArray(raw.members) ? raw.members : [])
+        .map(readMember)
+        .filter((member: GroupMember | null): member is GroupMember => member !== null);
+      return { id: text(raw.id, 64) || newGroupId(), name, members, updatedAt: now };
+    })
+    .filter((group: Group | null): group is Group => group !== null);
+};
@@ -0,0 +1,137 @@
+import { AppState, Group, QueuedScan, RecordedTransfer, SavedBill } from "../types";
+import { t } from "./i18n";
+import { readAssignments, readSelections } from "./itemShares";
+import { readSplitRules } from "./splitRules";
+
+const DB_NAME = 'billsplit-pro';
+const DB_VERSION = 4;
+const BILLS_STORE = 'bills';
+const SESSION_STORE = 'session';
+const TRANSFERS_STORE = 'transfers';
+const SCANS_STORE = 'scans';
+const GROUPS_STORE = 'groups';
+const CURRENT_KEY = 'current';
+
+/** The bill being worked on, plus the screen it was on, so a reload can pick up where it left off. */
+export interface CurrentSession {
+  bill: SavedBill;
+  appState: AppState;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(t('history.unavailable')));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BILLS_STORE)) {
+        db.createObjectStore(BILLS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE);
+      }
+      if (!db.objectStoreNames.contains(TRANSFERS_STORE)) {
+        db.createObjectStore(TRANSFERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SCANS_STORE)) {
+        db.createObjectStore(SCANS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(GROUPS_STORE)) {
+        db.createObjectStore(GROUPS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error(t('history.openFailed')));
+    };
+  });
+  return dbPromise;
+};
+
+/** Runs one request in its own transaction and resolves with its result. */
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error(t('history.aborted')));
+  });
+};
+
+export const saveBill = (bill: SavedBill): Promise<void> =>
+  withStore<IDBValidKey>(BILLS_STORE, 'readwrite', store => store.put(bill)).then(() => undefined);
+
+export const deleteBill = (id: string): Promise<void> =>
+  withStore<undefined>(BILLS_STORE, 'readwrite', store => store.delete(id));
+
+/** Brings bills saved by older versions up to the current shape (weighted item shares). */
+const upgradeBill = (bill: SavedBill): SavedBill => {
+  const participantIds = (bill.participants || []).map(p => p.id);
+  return {
+    ...bill,
+    userSelections: readSelections(bill.userSelections),
+    assignments: readAssignments(bill.assignments, participantIds),
+    ...(bill.splitRules ? { splitRules: readSplitRules(bill.splitRules, participantIds) } : {})
+  };
+};
+
+/** All saved bills, newest first. */
+export const listBills = async (): Promise<SavedBill[]> => {
+  const bills = await withStore<SavedBill[]>(BILLS_STORE, 'readonly', store => store.getAll());
+  return bills.map(upgradeBill).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveCurrentSession = (session: CurrentSession | null): Promise<void> =>
+  withStore<unknown>(SESSION_STORE, 'readwrite', store => session ? store.put(session, CURRENT_KEY) : store.delete(CURRENT_KEY))
+    .then(() => undefined);
+
+export const loadCurrentSession = (): Promise<CurrentSession | null> =>
+  withStore<CurrentSession | undefined>(SESSION_STORE, 'readonly', store => store.get(CURRENT_KEY))
+    .then(session => session ? { ...session, bill: upgradeBill(session.bill) } : null);
+
+export const saveTransfer = (transfer: RecordedTransfer): Promise<void> =>
+  withStore<IDBValidKey>(TRANSFERS_STORE, 'readwrite', store => store.put(transfer)).then(() => undefined);
+
+export const deleteTransfer = (id: string): Promise<void> =>
+  withStore<undefined>(TRANSFERS_STORE, 'readwrite', store => store.delete(id));
+
+export const listTransfers = (): Promise<RecordedTransfer[]> =>
+  withStore<RecordedTransfer[]>(TRANSFERS_STORE, 'readonly', store => store.getAll());
+
+export const saveQueuedScan = (scan: QueuedScan): Promise<void> =>
+  withStore<IDBValidKey>(SCANS_STORE, 'readwrite', store => store.put(scan)).then(() => undefined);
+
+export const deleteQueuedScan = (id: string): Promise<void> =>
+  withStore<undefined>(SCANS_STORE, 'readwrite', store => store.delete(id));
+
+/** Scans taken offline, oldest first, so they're read in the order they were taken. */
+export const listQueuedScans = (): Promise<QueuedScan[]> =>
+  withStore<QueuedScan[]>(SCANS_STORE, 'readonly', store => store.getAll())
+    .then(scans => scans.sort((a, b) => a.queuedAt - b.queuedAt));
+
+export const saveGroup = (group: Group): Promise<void> =>
+  withStore<IDBValidKey>(GROUPS_STORE, 'readwrite', store => store.put(group)).then(() => undefined);
+
+export const deleteGroup = (id: string): Promise<void> =>
+  withStore<undefined>(GROUPS_STORE, 'readwrite', store => store.delete(id));
+
+/** Saved groups in name order. */
+export const listGroups = (): Promise<Group[]> =>
+  withStore<Group[]>(GROUPS_STORE, 'readonly', store => store.getAll())
+    .then(groups => groups.sort((a, b) => a.name.localeCompare(b.name)));
+
+/** Case-insensitive match on restaurant name or date (e.g. "pizza", "2026-10"). */
+export const matchesHistoryQuery = (bill: SavedBill, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return bill.receipt.restaurantName.toLowerCase().includes(q) || bill.receipt.date.toLowerCase().includes(q);
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { de } from "./messages/de";
+import { Catalog, en, Message, MessageKey } from "./messages/en";
+import { es } from "./messages/es";
+import { fr } from "./messages/fr";
+
+const translations: [string, Catalog][] = [['de', de], ['es', es], ['fr', fr]];
+
+const forms = (message: Message): string[] => typeof message === 'string' ? [message] : Object.values(message);
+
+/** Every `{placeholder}` a message uses, across all of its plural forms. */
+const placeholders = (message: Message): string[] =>
+  [...new Set(forms(message).flatMap(form => Array.from(form.matchAll(/\{(\w+)\}/g), match => match[1])))].sort();
+
+describe('message catalogs', () => {
+  it.each(translations)('%s has exactly the English keys', (_, catalog) => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it.each(translations)('%s uses the same placeholders as English', (_, catalog) => {
+    const mismatched = (Object.keys(en) as MessageKey[])
+      .filter(key => catalog[key] !== undefined && placeholders(catalog[key]).join() !== placeholders(en[key]).join());
+    expect(mismatched).toEqual([]);
+  });
+
+  it.each(translations)('%s has plural forms wherever English does', (_, catalog) => {
+    const flattened = (Object.keys(en) as MessageKey[])
+      .filter(key => typeof en[key] !== 'string' && (typeof catalog[key] === 'string' || !(catalog[key] as { other?: string }).other));
+    expect(flattened).toEqual([]);
+  });
+
+  it.each([['en', en as Catalog], ...translations])('%s has no empty messages', (_, catalog) => {
+    const empty = (Object.keys(catalog) as MessageKey[]).filter(key => forms(catalog[key]).some(form => form.trim() === ''));
+    expect(empty).toEqual([]);
+  });
+});
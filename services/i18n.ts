@@ -0,0 +1,133 @@
+import { AdjustmentType, ItemCategory } from "../types";
+import { Catalog, en, Message, MessageKey } from "./messages/en";
+import { de } from "./messages/de";
+import { es } from "./messages/es";
+import { fr } from "./messages/fr";
+import { currencySymbol, DEFAULT_CURRENCY } from "./currency";
+import { currencyDecimals, formatMinor, fromMinor } from "./money";
+import { getLocale } from "./locales";
+
+/**
+ * UI strings and locale-aware formatting. The UI language is one of the
+ * registered locales (services/locales.ts); languages without a catalog of
+ * their own show English text but still get local number and date formats.
+ *
+ * Catalogs are typed as complete (`Catalog`), so a key missing from any of
+ * them is a compile error rather than a raw key on screen.
+ */
+
+export type { MessageKey } from "./messages/en";
+
+type Params = Record<string, string | number>;
+
+const catalogs = new Map<string, Catalog>([['en', en], ['de', de], ['es', es], ['fr', fr]]);
+
+let uiLocale = 'en';
+
+export const registerMessages = (code: string, catalog: Catalog) => {
+  catalogs.set(code.toLowerCase(), catalog);
+};
+
+export const setUiLocale = (code: string) => {
+  uiLocale = getLocale(code)?.code || 'en';
+};
+
+export const getUiLocale = (): string => uiLocale;
+
+/** The catalog the UI locale reads from; plural rules follow it, not the locale, so English fallback text stays English. */
+const catalogLanguage = (code: string): string => {
+  const lower = code.toLowerCase();
+  if (catalogs.has(lower)) return lower;
+  const base = lower.split('-')[0];
+  return catalogs.has(base) ? base : 'en';
+};
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const selectMessage = (message: Message, count: number | undefined, language: string): string => {
+  if (typeof message === 'string') return message;
+  if (count === undefined) return message.other;
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(language));
+  const form = pluralRules.get(language)!.select(count);
+  return (count === 0 && message.zero) || message[form] || message.other;
+};
+
+/**
+ * The message for `key` in the UI language, with `{placeholders}` filled
+ * from `params`. Numbers passed as params are formatted for the locale;
+ * `count` also picks the plural form.
+ */
+export const t = (key: MessageKey, params: Params = {}): string => {
+  const count = typeof params.count === 'number' ? params.count : undefined;
+  const language = catalogLanguage(uiLocale);
+  const template = selectMessage(catalogs.get(language)![key] ?? en[key], count, language);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
+
+export const adjustmentTypeName = (type: AdjustmentType): string => t(`adjustmentType.${type}`);
+
+export const categoryName = (category: ItemCategory): string => t(`category.${category}`);
+
+// --- Formatting ---
+
+const formats = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat>();
+
+const cached = <F extends Intl.NumberFormat | Intl.DateTimeFormat>(id: string, create: () => F): F => {
+  const key = `${uiLocale}|${id}`;
+  if (!formats.has(key)) formats.set(key, create());
+  return formats.get(key) as F;
+};
+
+export const formatNumber = (value: number): string =>
+  cached('number', () => new Intl.NumberFormat(uiLocale, { maximumFractionDigits: 6 })).format(value);
+
+/** An amount in minor units with the currency's symbol where the locale puts it ("12,50 €", "$12.50"). */
+export const formatMoney = (minor: number, currency: string): string => {
+  const code = currency || DEFAULT_CURRENCY;
+  const decimals = currencyDecimals(code);
+  try {
+    return cached(`money|${code}`, () => new Intl.NumberFormat(uiLocale, {
+      style: 'currency',
+      currency: code,
+      currencyDisplay: 'narrowSymbol',
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    })).format(fromMinor(minor, decimals));
+  } catch (e) {
+    // Codes Intl doesn't know (typos in the editor) still need to display
+    return `${currencySymbol(code)}${formatMinor(minor, decimals)}`;
+  }
+};
+
+/** The same amount without a symbol, for columns under a heading that already names the currency. */
+export const formatAmount = (minor: number, currency: string): string => {
+  const decimals = currencyDecimals(currency || DEFAULT_CURRENCY);
+  return cached(`amount|${decimals}`, () => new Intl.NumberFormat(uiLocale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  })).format(fromMinor(minor, decimals));
+};
+
+/** Percentage points (15 means 15%). */
+export const formatPercent = (percent: number): string =>
+  cached('percent', () => new Intl.NumberFormat(uiLocale, { style: 'percent', maximumFractionDigits: 1 })).format(percent / 100);
+
+/** A receipt date ("2026-10-12") in the locale's style. Anything that isn't a plain ISO date is shown as printed. */
+export const formatDate = (isoDate: string): string => {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return isoDate;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return cached('date', () => new Intl.DateTimeFormat(uiLocale, { dateStyle: 'medium', timeZone: 'UTC' })).format(date);
+};
+
+/** A moment recorded on this device (saved, paid), in local time. */
+export const formatTimestamp = (ms: number): string =>
+  cached('timestamp', () => new Intl.DateTimeFormat(uiLocale, { dateStyle: 'medium' })).format(new Date(ms));
+
+/** The same with the time of day, for things that happen several times a day (scans). */
+export const formatDateTime = (ms: number): string =>
+  cached('datetime', () => new Intl.DateTimeFormat(uiLocale, { dateStyle: 'medium', timeStyle: 'short' })).format(new Date(ms));
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { detectMimeType, fitWithin, guideCropRect, PixelBuffer, readExifOrientation, stretchContrast, toGrayscale } from "./imagePreprocess";
+
+const chars = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+/** A minimal JPEG: SOI, a JFIF APP0, an EXIF APP1 holding one Orientation tag, then SOS. */
+const jpeg = (orientation: number, littleEndian = true) => {
+  const u16 = (v: number) => littleEndian ? [v & 0xff, v >> 8] : [v >> 8, v & 0xff];
+  const u32 = (v: number) => littleEndian ? [...u16(v & 0xffff), ...u16(v >>> 16)] : [...u16(v >>> 16), ...u16(v & 0xffff)];
+  const tiff = [
+    ...chars(littleEndian ? 'II' : 'MM'), ...u16(42), ...u32(8),
+    ...u16(1), ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u32(0)
+  ];
+  const exif = [...chars('Exif'), 0, 0, ...tiff];
+  const jfif = [...chars('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0];
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, 0, jfif.length + 2, ...jfif,
+    0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif,
+    0xff, 0xda, 0, 2
+  ]);
+};
+
+const pixels = (...rgba: number[][]): PixelBuffer =>
+  ({ width: rgba.length, height: 1, data: new Uint8ClampedArray(rgba.flat()) });
+
+const gray = (...levels: number[]) => pixels(...levels.map(v => [v, v, v, 255]));
+
+describe('readExifOrientation', () => {
+  it('reads the Orientation tag in either byte order', () => {
+    expect(readExifOrientation(jpeg(6))).toBe(6);
+    expect(readExifOrientation(jpeg(8, false))).toBe(8);
+    expect(readExifOrientation(jpeg(1))).toBe(1);
+  });
+
+  it('falls back to upright for out-of-range values, missing EXIF and other formats', () => {
+    expect(readExifOrientation(jpeg(9))).toBe(1);
+    expect(readExifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]))).toBe(1);
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(1);
+    expect(readExifOrientation(new Uint8Array())).toBe(1);
+  });
+
+  it('treats a truncated EXIF segment as upright instead of throwing', () => {
+    // Cut inside the JFIF segment, the EXIF header, the IFD and the tag value itself
+    const full = jpeg(6);
+    for (const length of [4, 12, 30, 44, 49]) {
+      expect(readExifOrientation(full.slice(0, length))).toBe(1);
+    }
+  });
+});
+
+describe('detectMimeType', () => {
+  it('recognises formats by their magic numbers', () => {
+    expect(detectMimeType(jpeg(1))).toBe('image/jpeg');
+    expect(detectMimeType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(detectMimeType(new Uint8Array(chars('GIF89a')))).toBe('image/gif');
+    expect(detectMimeType(new Uint8Array([...chars('RIFF'), 0, 0, 0, 0, ...chars('WEBPVP8 ')]))).toBe('image/webp');
+    expect(detectMimeType(new Uint8Array(chars('BM6')))).toBe('image/bmp');
+    expect(detectMimeType(new Uint8Array([0, 0, 0, 24, ...chars('ftypheic')]))).toBe('image/heic');
+    expect(detectMimeType(new Uint8Array([0, 0, 0, 24, ...chars('ftypavif')]))).toBe('image/avif');
+  });
+
+  it('returns null for anything else', () => {
+    expect(detectMimeType(new Uint8Array(chars('%PDF-1.7')))).toBeNull();
+    expect(detectMimeType(new Uint8Array([0, 0, 0, 24, ...chars('ftypmp42')]))).toBeNull();
+    expect(detectMimeType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe('guideCropRect', () => {
+  it('maps the inset from screen pixels into frame pixels', () => {
+    expect(guideCropRect(1000, 1000, 500, 500, 50)).toEqual({ x: 100, y: 100, width: 800, height: 800 });
+  });
+
+  it('skips the part of the frame object-fit: cover pushes off screen', () => {
+    expect(guideCropRect(2000, 1000, 500, 500, 0)).toEqual({ x: 500, y: 0, width: 1000, height: 1000 });
+    const portrait = guideCropRect(1920, 1080, 390, 844, 24);
+    expect(portrait.x + portrait.width / 2).toBeCloseTo(960, -1);
+    expect(portrait.y + portrait.height).toBeLessThanOrEqual(1080);
+  });
+
+  it('never returns an empty or out-of-frame rectangle', () => {
+    const rect = guideCropRect(640, 480, 320, 240, 500);
+    expect(rect.width).toBeGreaterThanOrEqual(1);
+    expect(rect.height).toBeGreaterThanOrEqual(1);
+    expect(rect.x + rect.width).toBeLessThanOrEqual(640);
+    expect(rect.y + rect.height).toBeLessThanOrEqual(480);
+  });
+});
+
+describe('fitWithin', () => {
+  it('scales the longest side down to the limit and keeps the aspect ratio', () => {
+    expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(fitWithin(3000, 4000, 1600)).toEqual({ width: 1200, height: 1600 });
+  });
+
+  it('never scales up or down to nothing', () => {
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+    expect(fitWithin(5000, 1, 1600)).toEqual({ width: 1600, height: 1 });
+  });
+});
+
+describe('toGrayscale', () => {
+  it('puts Rec. 601 luma in every channel and keeps alpha', () => {
+    const image = pixels([255, 0, 0, 128], [0, 255, 0, 255], [0, 0, 255, 0], [10, 20, 30, 40]);
+    const result = toGrayscale(image);
+    expect(Array.from(result.data)).toEqual([76, 76, 76, 128, 150, 150, 150, 255, 29, 29, 29, 0, 18, 18, 18, 40]);
+    expect(Array.from(image.data.slice(0, 4))).toEqual([255, 0, 0, 128]);
+  });
+});
+
+describe('stretchContrast', () => {
+  it('maps the darkest and lightest pixels to black and white', () => {
+    expect(Array.from(stretchContrast(gray(100, 110, 150)).data)).toEqual([0, 0, 0, 255, 51, 51, 51, 255, 255, 255, 255, 255]);
+  });
+
+  it('ignores the clipped share of outliers at either end', () => {
+    const image = gray(0, 255, ...Array(99).fill(100), ...Array(99).fill(200));
+    const result = stretchContrast(image, 1);
+    expect(result.data[8]).toBe(0);
+    expect(result.data[4 * 101]).toBe(255);
+    expect(result.data[0]).toBe(0);
+    expect(result.data[4]).toBe(255);
+  });
+
+  it('leaves a flat image as it is', () => {
+    const image = gray(90, 90, 90);
+    const result = stretchContrast(image);
+    expect(Array.from(result.data)).toEqual(Array.from(image.data));
+    expect(result.data).not.toBe(image.data);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Image preparation before extraction. Everything above `preprocessImage` is
+ * pure (bytes, numbers and pixel buffers in, new values out) so it can run
+ * and be tested without a DOM; `preprocessImage` wires it up with a canvas.
+ */
+
+import { BoundingBox } from "../types";
+import { t } from "./i18n";
+
+/** The parts of ImageData the filters need; a real ImageData satisfies it. */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  maxDimension: number; // Longest side after resizing, in pixels
+  enhance: boolean; // Grayscale + contrast stretch
+}
+
+export interface ProcessedImage {
+  dataUrl: string;
+  mimeType: string;
+  sourceMimeType: string;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = { maxDimension: 1600, enhance: true };
+
+// --- Bytes ---
+
+/** Decodes just the first `maxBytes` of a base64 data: URL, enough for magic numbers and EXIF. */
+export const dataUrlBytes = (dataUrl: string, maxBytes = 65536): Uint8Array => {
+  const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const chunk = payload.slice(0, Math.ceil(maxBytes / 3) * 4);
+  const binary = atob(chunk.slice(0, chunk.length - (chunk.length % 4)));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+/** Sniffs the real format from magic numbers; file extensions and declared types lie. */
+export const detectMimeType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+    if (brand === 'avif') return 'image/avif';
+  }
+  return null;
+};
+
+/**
+ * EXIF orientation (1-8) of a JPEG, or 1 when there is none. Only the
+ * first IFD is read; that's where cameras put the Orientation tag.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  if (!startsWith(bytes, [0xff, 0xd8])) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda) return 1; // Start of scan: no metadata after this
+      const size = view.getUint16(offset + 2);
+      if (marker === 0xe1 && ascii(bytes, offset + 4, 4) === 'Exif') {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) {
+            const value = view.getUint16(entry + 8, little);
+            return value >= 1 && value <= 8 ? value : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + size;
+    }
+  } catch (e) {
+    // Truncated or malformed segment: treat as unrotated
+  }
+  return 1;
+};
+
+// --- Geometry ---
+
+/** Orientations 5-8 swap width and height. */
+export const orientedSize = (width: number, height: number, orientation: number) =>
+  orientation >= 5 ? { width: height, height: width } : { width, height };
+
+/** Scales down (never up) so the longest side fits in `maxDimension`. */
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * The dashed guide in CameraCapture, mapped from screen space into video
+ * frame pixels. The video is shown with object-fit: cover, so part of the
+ * frame is off screen before the guide's inset is even applied.
+ */
+export const guideCropRect = (frameWidth: number, frameHeight: number, viewWidth: number, viewHeight: number, insetPx: number): Rect => {
+  const scale = Math.max(viewWidth / frameWidth, viewHeight / frameHeight);
+  const visibleWidth = viewWidth / scale;
+  const visibleHeight = viewHeight / scale;
+  const inset = insetPx / scale;
+  // An inset wider than the view would start the crop past the frame's edge
+  const x = Math.min(frameWidth - 1, Math.max(0, Math.round((frameWidth - visibleWidth) / 2 + inset)));
+  const y = Math.min(frameHeight - 1, Math.max(0, Math.round((frameHeight - visibleHeight) / 2 + inset)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(frameWidth - x, Math.round(visibleWidth - 2 * inset))),
+    height: Math.max(1, Math.min(frameHeight - y, Math.round(visibleHeight - 2 * inset)))
+  };
+};
+
+/**
+ * A fractional box (as extractors report it) in pixels, grown by `padding`
+ * of the image size on each side so the neighbouring text is visible too.
+ */
+export const boxToPixels = (box: BoundingBox, width: number, height: number, padding = 0.03): Rect => {
+  const x = Math.max(0, Math.floor((box.x - padding) * width));
+  const y = Math.max(0, Math.floor((box.y - padding) * height));
+  const right = Math.min(width, Math.ceil((box.x + box.width + padding) * width));
+  const bottom = Math.min(height, Math.ceil((box.y + box.height + padding) * height));
+  return { x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) };
+};
+
+// --- Pixel filters ---
+
+/** Rec. 601 luma into all three channels; alpha is kept. */
+export const toGrayscale = (image: PixelBuffer): PixelBuffer => {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = luma;
+    data[i + 3] = image.data[i + 3];
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+/**
+ * Stretches brightness so the darkest and lightest `clipPercent` of pixels
+ * map to black and white. Faded thermal receipts gain the most from this.
+ */
+export const stretchContrast = (image: PixelBuffer, clipPercent = 1): PixelBuffer => {
+  const histogram = new Array<number>(256).fill(0);
+  const pixels = image.data.length / 4;
+  for (let i = 0; i < image.data.length; i += 4) {
+    histogram[Math.round(0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2])]++;
+  }
+  const clip = (pixels * clipPercent) / 100;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+
+  const data = new Uint8ClampedArray(image.data);
+  if (high <= low) return { width: image.width, height: image.height, data };
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * scale;
+    data[i + 1] = (data[i + 1] - low) * scale;
+    data[i + 2] = (data[i + 2] - low) * scale;
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+// --- Canvas ---
+
+/** Maps EXIF orientation onto the canvas so the image can be drawn upright at (0, 0, width, height). */
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+/** Browsers that know `image-orientation` already draw JPEGs upright; rotating again would double it. */
+const browserAppliesOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(t('image.unreadableFormat')));
+  image.src = src;
+});
+
+/** The part of a photo an extracted value came from, as a data: URL. */
+export const cropRegion = async (dataUrl: string, box: BoundingBox): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const rect = boxToPixels(box, image.naturalWidth, image.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('image.noCanvas'));
+  ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+/** Upright, resized and (optionally) enhanced JPEG ready to send to an extractor. */
+export const preprocessImage = async (dataUrl: string, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<ProcessedImage> => {
+  const bytes = dataUrlBytes(dataUrl);
+  const declared = dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  const sourceMimeType = detectMimeType(bytes) || declared;
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(dataUrl);
+  } catch (e) {
+    throw new Error(sourceMimeType === 'image/heic'
+      ? t('image.heic')
+      : t('image.unsupported', { type: sourceMimeType }));
+  }
+
+  const orientation = sourceMimeType === 'image/jpeg' && !browserAppliesOrientation() ? readExifOrientation(bytes) : 1;
+  const drawn = fitWithin(image.naturalWidth, image.naturalHeight, options.maxDimension);
+  const output = orientedSize(drawn.width, drawn.height, orientation);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = output.width;
+  canvas.height = output.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('image.noCanvas'));
+  applyOrientation(ctx, orientation, drawn.width, drawn.height);
+  ctx.drawImage(image, 0, 0, drawn.width, drawn.height);
+
+  if (options.enhance) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    const enhanced = stretchContrast(toGrayscale(ctx.getImageData(0, 0, output.width, output.height)));
+    ctx.putImageData(new ImageData(enhanced.data, enhanced.width, enhanced.height), 0, 0);
+  }
+
+  return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), mimeType: 'image/jpeg', sourceMimeType, width: output.width, height: output.height };
+};
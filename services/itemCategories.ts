@@ -0,0 +1,69 @@
+import { ItemCategory, ITEM_CATEGORIES, ReceiptItem } from "../types";
+
+/**
+ * What kind of line an item is. The receipt reader is asked for a category
+ * and the editor can set one; otherwise the description is matched against
+ * keyword lists in the languages the UI speaks. Words match whole, so "gin"
+ * leaves "ginger" alone.
+ */
+
+const KEYWORDS: Record<Exclude<ItemCategory, 'FOOD'>, string[]> = {
+  KIDS: [
+    'kids', 'kid', 'child', 'children', 'childrens', 'junior', 'kiddie',
+    'infantil', 'niños', 'niño', 'enfant', 'enfants', 'kinder', 'kinderteller', 'kindermenü'
+  ],
+  // "ale" is missing because of ginger ale
+  ALCOHOL: [
+    'beer', 'beers', 'lager', 'ipa', 'stout', 'pint', 'cider', 'wine', 'prosecco', 'champagne', 'cava',
+    'cocktail', 'margarita', 'mojito', 'spritz', 'sangria', 'whisky', 'whiskey', 'bourbon', 'vodka', 'gin',
+    'rum', 'tequila', 'mezcal', 'sake', 'soju',
+    'cerveza', 'cervezas', 'caña', 'vino', 'tinto',
+    'bière', 'bières', 'vin', 'pression',
+    'bier', 'biere', 'wein', 'weißwein', 'rotwein', 'radler', 'weizen', 'pils'
+  ],
+  DESSERT: [
+    'dessert', 'desserts', 'cake', 'cheesecake', 'brownie', 'tiramisu', 'ice cream', 'gelato', 'sorbet',
+    'pudding', 'tart', 'sundae', 'mousse', 'crème brûlée', 'creme brulee',
+    'postre', 'postres', 'flan', 'helado', 'tarta', 'churros',
+    'gâteau', 'tarte', 'fondant',
+    'nachtisch', 'kuchen', 'torte', 'eis', 'strudel', 'apfelstrudel'
+  ],
+  SHARED: [
+    'appetizer', 'appetizers', 'starter', 'starters', 'sharing', 'platter', 'nachos', 'bread',
+    'wings', 'edamame', 'tapas', 'mezze', 'antipasti', 'bruschetta', 'calamari', 'dip', 'guacamole',
+    'entrante', 'entrantes', 'ración', 'racion', 'aperitivo', 'bravas',
+    'apéritif', 'planche',
+    'vorspeise', 'vorspeisen', 'brot', 'brotkorb', 'platte'
+  ],
+  DRINK: [
+    'water', 'soda', 'coke', 'cola', 'lemonade', 'juice', 'coffee', 'espresso', 'latte', 'cappuccino', 'tea',
+    'ginger ale', 'tonic', 'sprite', 'fanta', 'smoothie', 'milkshake',
+    'agua', 'refresco', 'zumo', 'jugo', 'café', 'té',
+    'eau', 'jus', 'thé', 'limonade',
+    'wasser', 'saft', 'kaffee', 'tee', 'limo', 'schorle', 'apfelschorle'
+  ]
+};
+
+// Checked in this order: a kids' lemonade is a kids' meal, a wine spritzer is alcohol
+const PRECEDENCE: Exclude<ItemCategory, 'FOOD'>[] = ['KIDS', 'ALCOHOL', 'DESSERT', 'SHARED', 'DRINK'];
+
+const tokenize = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/** Whether the item's description, as printed or translated, contains any of the words or phrases. */
+export const mentions = (item: ReceiptItem, words: string[]): boolean => {
+  const tokens = tokenize(`${item.description} ${item.originalDescription || ''}`);
+  return words.some(word => {
+    const parts = tokenize(word);
+    if (parts.length === 0) return false;
+    return tokens.some((_, i) => parts.every((part, k) => tokens[i + k] === part));
+  });
+};
+
+export const isItemCategory = (value: any): value is ItemCategory => ITEM_CATEGORIES.includes(value);
+
+/** The category the keywords suggest; anything unrecognised is food. */
+export const classifyItem = (item: ReceiptItem): ItemCategory =>
+  PRECEDENCE.find(category => mentions(item, KEYWORDS[category])) || 'FOOD';
+
+/** The item's category as set by the reader or the table, falling back to the keywords. */
+export const itemCategory = (item: ReceiptItem): ItemCategory => item.category || classifyItem(item);
@@ -0,0 +1,103 @@
+import { ItemAssignment, UserSelection } from "../types";
+import { formatNumber } from "./i18n";
+
+/**
+ * Weighted item shares. An item's assignment holds one weight per diner;
+ * a diner owes weight / total of the item, where the total is the item's
+ * `totalShares` when set and the sum of the weights otherwise. Over-claimed
+ * items are scaled back to the whole item, under-claimed ones leave the rest
+ * unclaimed.
+ */
+
+const EPSILON = 1e-9;
+
+const positive = (value: any): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/** Diners holding a share of the item, limited to those still at the table. */
+export const sharedBy = (assignment: ItemAssignment | undefined, participantIds: string[]): string[] =>
+  participantIds.filter(id => (assignment?.shares[id] || 0) > 0);
+
+/** Sum of the weights held by diners still at the table. */
+export const claimedShares = (assignment: ItemAssignment | undefined, participantIds: string[]): number =>
+  sharedBy(assignment, participantIds).reduce((sum, id) => sum + assignment!.shares[id], 0);
+
+/** What the weights are divided by: the item's total, or their sum when that's larger or no total is set. */
+export const shareDenominator = (assignment: ItemAssignment | undefined, participantIds: string[]): number =>
+  Math.max(assignment?.totalShares || 0, claimedShares(assignment, participantIds));
+
+/** participantId -> portion of the item (0..1) each diner pays. */
+export const itemFractions = (assignment: ItemAssignment | undefined, participantIds: string[]): Record<string, number> => {
+  const denominator = shareDenominator(assignment, participantIds);
+  const fractions: Record<string, number> = {};
+  sharedBy(assignment, participantIds).forEach(id => { fractions[id] = assignment!.shares[id] / denominator; });
+  return fractions;
+};
+
+/** The assignment with one diner's weight changed; 0 takes them off the item. */
+export const setShare = (assignment: ItemAssignment | undefined, itemId: string, participantId: string, weight: number): ItemAssignment => {
+  const shares = { ...(assignment?.shares || {}) };
+  if (weight > 0) shares[participantId] = weight;
+  else delete shares[participantId];
+  return { ...assignment, itemId, shares };
+};
+
+/** The assignment with a new total; anything not positive goes back to "the weights are the whole item". */
+export const setTotalShares = (assignment: ItemAssignment | undefined, itemId: string, total: number): ItemAssignment => {
+  const { totalShares, ...rest } = assignment || { itemId, shares: {} };
+  return total > 0 ? { ...rest, itemId, totalShares: total } : { ...rest, itemId };
+};
+
+/** The portion of the item a solo selection pays (0..1). */
+export const selectionFraction = (selection: UserSelection): number =>
+  selection.outOf > 0 ? Math.min(1, Math.max(0, selection.portion / selection.outOf)) : 0;
+
+/** "2/3", "60/100"; empty when the share is the whole item. */
+export const shareLabel = (portion: number, outOf: number): string =>
+  Math.abs(portion - outOf) < EPSILON ? '' : `${formatNumber(portion)}/${formatNumber(outOf)}`;
+
+// --- Reading stored data ---
+
+/**
+ * Assignments as stored, including those saved before weighted shares
+ * (`participantIds` split equally), which keep their equal split.
+ */
+export const readAssignments = (raw: any, participantIds: string[]): Record<string, ItemAssignment> => {
+  const assignments: Record<string, ItemAssignment> = {};
+  if (!raw || typeof raw !== 'object') return assignments;
+  Object.keys(raw).forEach(key => {
+    const a = raw[key];
+    const itemId = typeof a?.itemId === 'string' ? a.itemId : '';
+    if (!itemId) return;
+    const shares: Record<string, number> = {};
+    let totalShares: number | null = null;
+    if (a.shares && typeof a.shares === 'object') {
+      Object.keys(a.shares).forEach(id => {
+        const weight = positive(a.shares[id]);
+        if (weight !== null && participantIds.includes(id)) shares[id] = weight;
+      });
+      totalShares = positive(a.totalShares);
+    } else if (Array.isArray(a.participantIds)) {
+      a.participantIds.map(String).filter((id: string) => participantIds.includes(id)).forEach((id: string) => { shares[id] = 1; });
+    }
+    assignments[itemId] = totalShares !== null ? { itemId, shares, totalShares } : { itemId, shares };
+  });
+  return assignments;
+};
+
+/** Solo selections as stored, including `splitCount` ones (1 of N) from before weighted shares. */
+export const readSelections = (raw: any): Record<string, UserSelection> => {
+  const selections: Record<string, UserSelection> = {};
+  if (!raw || typeof raw !== 'object') return selections;
+  Object.keys(raw).forEach(key => {
+    const s = raw[key];
+    const itemId = typeof s?.itemId === 'string' ? s.itemId : '';
+    if (!itemId) return;
+    const outOf = positive(s.outOf) ?? positive(s.splitCount) ?? 1;
+    const portion = Math.min(outOf, positive(s.portion) ?? 1);
+    selections[itemId] = { itemId, isSelected: !!s.isSelected, portion, outOf };
+  });
+  return selections;
+};
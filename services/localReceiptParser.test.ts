@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { parseReceiptText } from "./localReceiptParser";
+
+const UPPER_CASE = `THE DINER
+2026-10-12
+2 BURGER 20.00
+COKE 3.00
+SUBTOTAL 23.00
+TAX 2.00
+TOTAL 25.00
+VISA 25.00`;
+
+const summary = (text: string) => {
+  const receipt = parseReceiptText(text);
+  return {
+    restaurantName: receipt.restaurantName,
+    date: receipt.date,
+    items: receipt.items.map(item => [item.quantity, item.description, item.price]),
+    totals: [receipt.subtotal, receipt.tax, receipt.tip, receipt.total]
+  };
+};
+
+describe('parseReceiptText', () => {
+  it('reads an all-caps receipt without taking letters of the labels for currency codes', () => {
+    expect(summary(UPPER_CASE)).toEqual({
+      restaurantName: 'THE DINER',
+      date: '2026-10-12',
+      items: [[2, 'BURGER', 20], [1, 'COKE', 3]],
+      totals: [23, 2, 0, 25]
+    });
+  });
+
+  it('reads the same receipt in mixed case the same way', () => {
+    const mixed = 'The Diner\n2026-10-12\n2 Burger 20.00\nCoke 3.00\nSubtotal 23.00\nTax 2.00\nTotal 25.00\nVisa 25.00';
+    expect(summary(mixed).items).toEqual([[2, 'Burger', 20], [1, 'Coke', 3]]);
+    expect(summary(mixed).totals).toEqual([23, 2, 0, 25]);
+  });
+
+  it('reads Japanese totals and tax instead of taking them for items', () => {
+    const receipt = parseReceiptText('寿司処 はな\n2026-10-12\n寿司 ¥1,200\nビール ¥600\n小計 ¥1,800\n消費税 ¥180\n合計 ¥1,980\nお預り ¥2,000\nお釣り ¥20');
+    expect(receipt.restaurantName).toBe('寿司処 はな');
+    expect(receipt.currency).toBe('JPY');
+    expect(receipt.items.map(item => [item.description, item.price])).toEqual([['寿司', 1200], ['ビール', 600]]);
+    expect([receipt.subtotal, receipt.tax, receipt.tip, receipt.total]).toEqual([1800, 180, 0, 1980]);
+  });
+
+  it('still reads keywords with accented letters as whole words', () => {
+    const receipt = parseReceiptText('Café\nCrème brûlée 7,50\nSous-total 7,50\nTVA 0,75\nTotal 8,25');
+    expect(receipt.items.map(item => item.description)).toEqual(['Crème brûlée']);
+    expect([receipt.subtotal, receipt.tax, receipt.total]).toEqual([7.5, 0.75, 8.25]);
+  });
+
+  it('accepts known currency codes on either side of the amount', () => {
+    const receipt = parseReceiptText('Bistro\nWINE EUR 12.00\nBREAD 4.50 EUR\nTOTAL EUR 16.50');
+    expect(receipt.currency).toBe('EUR');
+    expect(receipt.items.map(item => [item.description, item.price])).toEqual([['WINE', 12], ['BREAD', 4.5]]);
+    expect(receipt.total).toBe(16.5);
+  });
+
+  it('reads comma decimals and thousands separators', () => {
+    const receipt = parseReceiptText('Gasthaus\nSchnitzel 12,50 €\nWein 1.234,00 €\nSumme 1.246,50 €');
+    expect(receipt.items.map(item => item.price)).toEqual([12.5, 1234]);
+    expect(receipt.total).toBe(1246.5);
+  });
+
+  it('turns negative lines into discounts and a second tax line into an adjustment', () => {
+    const receipt = parseReceiptText('Cafe\nLATTE 4.00\nHAPPY HOUR -1.00\nSTATE TAX 0.30\nCITY TAX 0.10\nTOTAL 3.40');
+    expect(receipt.tax).toBe(0.3);
+    expect(receipt.adjustments.map(adj => [adj.type, adj.label, adj.amount])).toEqual([
+      ['DISCOUNT', 'HAPPY HOUR', 1],
+      ['TAX', 'CITY TAX', 0.1]
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import { ReceiptAdjustment, ReceiptData, ReceiptExtractor, ReceiptItem } from "../types";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import { t } from "./i18n";
+import { parseAmount } from "./money";
+
+/**
+ * A keyword as a whole word. `\b` only knows ASCII letters, so the word edges
+ * are spelled out with Unicode classes; CJK is written without spaces between
+ * words, so those keywords match anywhere in the label.
+ */
+const wordPattern = (words: string, cjk?: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${words})(?![\\p{L}\\p{N}])${cjk ? `|${cjk}` : ''}`, 'iu');
+
+// Checked in this order: "subtotal" must win over "total", "service" over "tip".
+const KEYWORDS: { field: 'subtotal' | 'tax' | 'tip' | 'total' | 'discount' | 'service' | 'ignore'; pattern: RegExp }[] = [
+  { field: 'subtotal', pattern: wordPattern('sub\\s*-?\\s*total|zwischensumme|sous[\\s-]total|subtotale', '小計') },
+  { field: 'discount', pattern: wordPattern('discount|coupon|promo|rabatt|remise|sconto|descuento', '割引') },
+  { field: 'service', pattern: wordPattern('service\\s*charge|servizio|coperto|cover\\s*charge', 'サービス料') },
+  { field: 'tax', pattern: wordPattern('tax|vat|tva|mwst|iva|gst|hst|pst', '消費税') },
+  { field: 'tip', pattern: wordPattern('tip|gratuity|trinkgeld|pourboire|propina|mancia') },
+  { field: 'total', pattern: wordPattern('total|amount\\s+due|balance\\s+due|grand\\s+total|summe|totale', '合計') },
+  { field: 'ignore', pattern: wordPattern('change|cash|tendered|visa|mastercard|amex|card|credit|debit|paid|payment|auth|check\\s*#|order\\s*#', 'お釣り|お預り|現金') }
+];
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'CNY', 'KRW', 'INR', 'MXN', 'BRL', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'THB', 'SGD', 'HKD', 'NZD'];
+const CODE = `(?:${CURRENCY_CODES.join('|')})`;
+
+// A trailing money column: optional symbol or code on either side, thousands separators, 0-3 decimals, optional minus.
+// Only known codes count, and one before the amount must stand apart from the label, so "BURGER 20.00" keeps its "GER".
+const PRICE_AT_END = new RegExp(
+  `(-)?\\s*(?:[$€£¥₩₹]|(?<!\\S)${CODE})?\\s*(-)?(\\d{1,3}(?:[,.\\s]\\d{3})*(?:[.,]\\d{1,3})?|\\d+(?:[.,]\\d{1,3})?)\\s*(?:[$€£¥₩₹]|${CODE})?\\s*(-)?\\s*$`
+);
+const LEADING_QTY = /^\s*(\d+(?:\.\d+)?)\s*(?:x|×|@)?\s+(?=\D)/i;
+const TRAILING_QTY = /\s+(?:x|×)\s*(\d+)\s*$/i;
+const UNIT_PRICE = /(\d+(?:\.\d+)?)\s*(?:@|x|×)\s*(\d+(?:[.,]\d{1,2})?)/i;
+const ISO_DATE = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/;
+const LOCAL_DATE = /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/;
+
+const parseDate = (text: string): string => {
+  const iso = text.match(ISO_DATE);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  const local = text.match(LOCAL_DATE);
+  if (!local) return '';
+  let [a, b] = [Number(local[1]), Number(local[2])];
+  // Day-first when the first part can't be a month, otherwise assume month-first
+  if (a > 12) [a, b] = [b, a];
+  const year = local[3].length === 2 ? `20${local[3]}` : local[3];
+  return `${year}-${String(a).padStart(2, '0')}-${String(b).padStart(2, '0')}`;
+};
+
+const detectCurrency = (text: string): string => {
+  const code = text.match(new RegExp(`\\b(${CODE})\\b`));
+  if (code) return code[1];
+  const symbol = text.match(/[$€£¥₩₹]/);
+  return symbol ? normalizeCurrency(symbol[0]) : DEFAULT_CURRENCY;
+};
+
+/**
+ * Heuristic parser for receipt text typed or pasted by the user. Works
+ * line-by-line: a line ending in a price is either a keyword line
+ * (subtotal/tax/tip/total/discount) or an item; the first line without a
+ * price is taken as the restaurant name.
+ */
+export const parseReceiptText = (text: string): ReceiptData => {
+  const stamp = Date.now();
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const items: ReceiptItem[] = [];
+  const adjustments: ReceiptAdjustment[] = [];
+  const totals = { subtotal: 0, tax: 0, tip: 0, total: 0 };
+  let restaurantName = '';
+
+  lines.forEach(line => {
+    const priceMatch = line.match(PRICE_AT_END);
+    const label = priceMatch ? line.slice(0, priceMatch.index).trim() : line;
+    if (!priceMatch || !label || !/[a-zÀ-￿]/i.test(label)) {
+      if (!restaurantName && !ISO_DATE.test(line) && !LOCAL_DATE.test(line) && /\p{L}/u.test(line)) restaurantName = line;
+      return;
+    }
+
+    const isNegative = !!(priceMatch[1] || priceMatch[2] || priceMatch[4]);
+    const amount = parseAmount(priceMatch[3]);
+    if (!Number.isFinite(amount)) return;
+
+    const keyword = KEYWORDS.find(k => k.pattern.test(label));
+    if (keyword?.field === 'ignore') return;
+    if (keyword?.field === 'discount' || (isNegative && !keyword)) {
+      adjustments.push({ id: `adj-${adjustments.length}-${stamp}`, type: 'DISCOUNT', label, amount });
+      return;
+    }
+    if (keyword?.field === 'service') {
+      adjustments.push({ id: `adj-${adjustments.length}-${stamp}`, type: 'SERVICE_CHARGE', label, amount });
+      return;
+    }
+    if (keyword) {
+      // A second tax line (state + city) becomes its own adjustment
+      if (keyword.field === 'tax' && totals.tax > 0) {
+        adjustments.push({ id: `adj-${adjustments.length}-${stamp}`, type: 'TAX', label, amount });
+      } else if (keyword.field === 'total' && totals.total > 0) {
+        return; // Keep the first total; later ones are usually "total paid" repeats
+      } else {
+        totals[keyword.field as keyof typeof totals] = amount;
+      }
+      return;
+    }
+
+    let description = label;
+    let quantity = 1;
+    let unitPrice: number | undefined;
+    const unit = description.match(UNIT_PRICE);
+    if (unit) {
+      quantity = Number(unit[1]);
+      unitPrice = parseAmount(unit[2]);
+      description = description.replace(UNIT_PRICE, '').trim();
+    } else {
+      const leading = description.match(LEADING_QTY);
+      const trailing = description.match(TRAILING_QTY);
+      if (leading) {
+        quantity = Number(leading[1]);
+        description = description.slice(leading[0].length).trim();
+      } else if (trailing) {
+        quantity = Number(trailing[1]);
+        description = description.slice(0, trailing.index).trim();
+      }
+    }
+
+    items.push({
+      id: `item-${items.length}-${stamp}`,
+      quantity: quantity > 0 ? quantity : 1,
+      description: description || label,
+      price: amount,
+      ...(unitPrice !== undefined ? { unitPrice } : {})
+    });
+  });
+
+  return {
+    restaurantName: restaurantName || 'Receipt',
+    date: parseDate(text),
+    currency: detectCurrency(text),
+    items,
+    subtotal: totals.subtotal,
+    tax: totals.tax,
+    tip: totals.tip,
+    total: totals.total,
+    adjustments
+  };
+};
+
+export const localExtractor: ReceiptExtractor = {
+  id: 'local',
+  get name() { return t('extractor.local.name'); },
+  get description() { return t('extractor.local.description'); },
+  input: 'text',
+  offline: true,
+  extract: ({ text }) => {
+    if (!text || !text.trim()) return Promise.reject(new Error(t('extraction.noText')));
+    const data = parseReceiptText(text);
+    if (data.items.length === 0) return Promise.reject(new Error(t('extraction.noTextItems')));
+    return Promise.resolve(data);
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * Languages the app can translate receipts into. Extractors and the
+ * re-translate picker read from here, so adding a language is one
+ * registerLocale call rather than an edit to every list that names them.
+ */
+
+export interface Locale {
+  code: string; // BCP 47, e.g. 'en' or 'pt-BR'
+  name: string; // English name; this is what the AI is asked to translate into
+  nativeName: string; // Shown in pickers so people can find their own language
+}
+
+const registry = new Map<string, Locale>();
+
+export const registerLocale = (locale: Locale) => {
+  registry.set(locale.code.toLowerCase(), locale);
+};
+
+[
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' }
+].forEach(registerLocale);
+
+export const listLocales = (): Locale[] => Array.from(registry.values());
+
+/** Exact match first, then the base language ('pt-BR' falls back to 'pt'). */
+export const getLocale = (code: string): Locale | undefined => {
+  const key = code.toLowerCase();
+  return registry.get(key) || registry.get(key.split('-')[0]);
+};
+
+/** English name for prompts; unknown codes are passed through so the model can still try. */
+export const localeName = (code: string): string => getLocale(code)?.name || code;
+
+/** First of the browser's preferred languages that is registered, or English. */
+export const matchLocale = (preferred: readonly string[]): string => {
+  for (const tag of preferred) {
+    const locale = getLocale(tag);
+    if (locale) return locale.code;
+  }
+  return 'en';
+};
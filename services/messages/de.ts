@@ -0,0 +1,370 @@
+import { Catalog } from "./en";
+
+export const de: Catalog = {
+  // Shared
+  'common.back': 'Zurück',
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.delete': 'Löschen',
+  'common.undo': 'Rückgängig',
+  'common.passphrase': 'Passphrase',
+  'common.untitled': 'Unbenannter Beleg',
+  'common.noDate': 'Kein Datum',
+  'common.settled': 'Beglichen',
+  'common.open': 'Offen',
+
+  'totals.subtotal': 'Zwischensumme',
+  'totals.tax': 'Steuer',
+  'totals.tip': 'Trinkgeld',
+  'totals.total': 'Gesamt',
+
+  'adjustmentType.DISCOUNT': 'Rabatt',
+  'adjustmentType.COUPON': 'Gutschein',
+  'adjustmentType.SERVICE_CHARGE': 'Servicegebühr',
+  'adjustmentType.TAX': 'Steuer',
+  'adjustmentType.INCLUDED_TAX': 'Enthaltene MwSt.',
+  'adjustmentType.FEE': 'Gebühr',
+  'category.FOOD': 'Essen',
+  'category.DRINK': 'Getränk',
+  'category.ALCOHOL': 'Alkohol',
+  'category.DESSERT': 'Dessert',
+  'category.SHARED': 'Vorspeisen',
+  'category.KIDS': 'Kinderteller',
+
+  // Home
+  'home.tagline': 'Belege mit KI aufteilen. Kein Konto nötig, Rechnungen bleiben auf diesem Gerät.',
+  'home.language': 'Sprache',
+  'home.reader': 'Belegleser',
+  'home.readText': 'Belegtext einlesen',
+  'home.manual': 'Beleg manuell eingeben',
+  'home.scan': 'Neuen Beleg scannen',
+  'home.upload': 'Aus der Galerie hochladen',
+  'home.continue': '{name} fortsetzen',
+  'home.currentBill': 'Aktuelle Rechnung',
+  'home.history': 'Rechnungsverlauf',
+  'home.settleUp': 'Abrechnen',
+  'home.tryAgain': 'Erneut versuchen',
+  'home.typeInstead': 'Beleg stattdessen eintippen',
+  'home.readFileFailed': '{file} konnte nicht gelesen werden.',
+
+  // Offline scans
+  'queue.title': 'Ausstehende Scans',
+  'queue.offline': 'Du bist offline. Neue Scans bleiben auf diesem Gerät und werden gelesen, sobald wieder eine Verbindung besteht.',
+  'queue.scannedAt': 'Gescannt {time}',
+  'queue.waiting': 'Wartet auf Verbindung',
+  'queue.reading': 'Wird gelesen...',
+  'queue.failed': 'Konnte nicht gelesen werden: {reason}',
+  'queue.gaveUp': 'Keine Verbindung zum Belegleser nach {count} Versuchen.',
+  'queue.ready': 'Gelesen und im Verlauf gespeichert',
+  'queue.readNow': 'Jetzt lesen',
+  'queue.open': 'Öffnen',
+  'queue.discard': 'Verwerfen',
+  'queue.dismiss': 'Ausblenden',
+  'queue.missing': 'Diese Rechnung ist nicht mehr im Verlauf.',
+
+  // Extractors
+  'extractor.gemini.description': 'Liest Belegfotos mit Google Gemini. Benötigt einen API-Schlüssel und eine Verbindung.',
+  'extractor.local.name': 'Lokaler Textparser',
+  'extractor.local.description': 'Liest Belegtext, den du eintippst oder einfügst. Funktioniert offline, nichts verlässt dein Gerät.',
+  'extractor.mock.name': 'Demodaten',
+  'extractor.mock.description': 'Liefert sofort einen Beispielbeleg. Praktisch, um die App ohne Schlüssel auszuprobieren.',
+
+  // Processing
+  'processing.title': 'Daten werden analysiert',
+  'processing.analyzing': 'Wird analysiert...',
+  'processing.reading': '{extractor} liest deinen Beleg...',
+  'processing.readingPhoto': '{extractor} liest Foto {page} von {count}...',
+  'processing.retrying': '{reason} Neuer Versuch ({attempt})...',
+
+  // Extraction errors
+  'extraction.cancelled': 'Das Einlesen des Belegs wurde abgebrochen.',
+  'extraction.malformed': 'Die Beleganalyse hat fehlerhafte Daten geliefert.',
+  'extraction.noKey': 'Es ist kein Gemini-API-Schlüssel eingerichtet. Füge GEMINI_API_KEY hinzu oder wähle einen anderen Belegleser.',
+  'extraction.badKey': 'Gemini hat den API-Schlüssel abgelehnt. Prüfe GEMINI_API_KEY oder wähle einen anderen Belegleser.',
+  'extraction.quota': 'Das Gemini-Kontingent ist vorerst aufgebraucht. Warte eine Minute und versuche es erneut.',
+  'extraction.badImage': 'Gemini konnte dieses Bild nicht öffnen. Versuche ein anderes Foto.',
+  'extraction.network': 'Gemini ist nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.',
+  'extraction.service': 'Gemini hat gerade Probleme. Versuche es gleich noch einmal.',
+  'extraction.unexpected': 'Gemini konnte diesen Beleg nicht lesen ({detail}). Versuche es erneut oder wähle einen anderen Belegleser.',
+  'extraction.needsPhoto': 'Gemini AI braucht ein Foto des Belegs.',
+  'extraction.invalidJson': 'Die KI-Antwort war abgeschnitten oder kein gültiges JSON. Versuche es erneut.',
+  'extraction.notReceipt': 'Die KI-Antwort war kein Beleg.',
+  'extraction.noUsableLines': 'Keine der Belegzeilen kam in brauchbarer Form zurück.',
+  'extraction.unreadable': 'Auf diesem Foto konnte kein Beleg gelesen werden. Achte darauf, dass es scharf und gut beleuchtet ist und den Rahmen füllt.',
+  'extraction.translationCut': 'Die Übersetzung kam abgeschnitten zurück. Versuche es erneut.',
+  'extraction.translationMismatch': 'Die Übersetzung passt nicht zu den Positionen des Belegs. Versuche es erneut.',
+  'extraction.noText': 'Füge zuerst den Belegtext ein oder tippe ihn ein.',
+  'extraction.noTextItems': 'In diesem Text wurden keine Positionen mit Preisen gefunden.',
+
+  'field.expectedNumber': 'Zahl erwartet, erhalten: {value}',
+  'field.expectedText': 'Text erwartet, erhalten: {type}',
+  'field.expectedObject': 'Objekt erwartet',
+  'field.notObject': 'kein Objekt',
+  'field.missing': 'fehlt',
+  'field.unknownAdjustment': 'unbekannte Anpassungsart {value}',
+  'field.needsAmount': 'braucht einen Betrag oder einen Prozentsatz',
+  'field.onPhoto': 'Foto {number}: {path}',
+
+  // Images and camera
+  'image.unreadableFormat': 'Dieses Bildformat kann hier nicht gelesen werden.',
+  'image.noCanvas': 'Bildverarbeitung ist in diesem Browser nicht verfügbar.',
+  'image.heic': 'HEIC-Fotos lassen sich in diesem Browser nicht öffnen. Teile das Foto als JPEG oder nutze die Kamerataste.',
+  'image.unsupported': 'Dieses Bild ({type}) kann in diesem Browser nicht gelesen werden.',
+  'camera.noAccess': 'Kein Zugriff auf die Kamera. Bitte Berechtigungen prüfen.',
+  'camera.overlapHint': 'Foto {number}: die letzten Zeilen des vorigen Fotos mit aufnehmen',
+  'camera.photoAlt': 'Foto {number}',
+  'camera.done': 'Fertig',
+  'camera.doneCount': 'Fertig ({count})',
+  'preview.title': { one: 'Foto prüfen', other: 'Fotos prüfen' },
+  'preview.enhance': 'Text verbessern',
+  'preview.photoAlt': 'Belegfoto {number}',
+  'preview.position': '{number} von {count}',
+  'preview.size': '{size} KB',
+  'preview.converted': 'aus {format} umgewandelt',
+  'preview.preparing': 'Wird vorbereitet...',
+  'preview.read': 'Beleg einlesen',
+  'preview.retake': 'Neu aufnehmen',
+
+  // Confirm and edit
+  'confirm.reconciled': 'Summen stimmen',
+  'confirm.needsReview': 'Summen prüfen',
+  'confirm.claimMine': 'Meine Positionen wählen',
+  'confirm.splitTable': 'Für den ganzen Tisch aufteilen',
+  'confirm.share': 'Link mit Freunden teilen',
+  'confirm.edit': 'Positionen prüfen und bearbeiten',
+  'confirm.reset': 'Zurücksetzen',
+  'confirm.review': 'Beleg prüfen',
+  'confirm.fieldErrors': 'Einige Teile des Belegs konnten nicht gelesen werden und wurden ausgelassen',
+  'confirm.moreFieldErrors': '…und {count} weitere. Vergleiche die Positionen mit deinem Beleg.',
+  'confirm.unknownCurrency': '„{currency}“ ist kein Währungscode. Beträge werden auf 2 Nachkommastellen gerundet, bis du die richtige Währung einträgst.',
+  'confirm.setCurrency': 'Währung festlegen',
+  'confirm.toCheck': { one: '{count} Wert zum Nachprüfen', other: '{count} Werte zum Nachprüfen' },
+  'confirm.readFromPhoto': 'Von deinem Foto gelesen',
+  'reconcile.title': 'Die Beträge auf diesem Beleg gehen nicht auf',
+  'reconcile.lineTotal': '„{item}“: {quantity} × {unitPrice} = {expected}, aber die Zeilensumme lautet {actual}',
+  'reconcile.itemsVsSubtotal': 'Die Positionen ergeben {items}, aber die Zwischensumme lautet {subtotal}',
+  'reconcile.subtotalVsTotal': 'Zwischensumme + Steuer + Trinkgeld ergeben {computed}, aber die Gesamtsumme lautet {total}',
+  'reconcile.subtotalVsTotalAdjusted': 'Zwischensumme + Steuer + Trinkgeld + Anpassungen ergeben {computed}, aber die Gesamtsumme lautet {total}',
+  'source.confidence': 'Mit {percent} Sicherheit gelesen.',
+  'source.confidenceOnPhoto': 'Mit {percent} Sicherheit von Foto {number} gelesen.',
+  'source.noBox': 'Der Belegleser hat nicht angegeben, wo auf dem Foto das stand.',
+  'source.cropping': 'Wird zugeschnitten...',
+  'source.alt': 'Fotoausschnitt für {label}',
+  'editor.restaurant': 'Restaurant',
+  'editor.restaurantPlaceholder': 'Name des Restaurants',
+  'editor.currency': 'Währung',
+  'editor.unknownCurrency': 'Kein Währungscode. Gib den Code aus 3 Buchstaben ein, z. B. SEK.',
+  'editor.date': 'Datum',
+  'editor.quantity': 'Menge',
+  'editor.price': 'Preis',
+  'editor.category': 'Art',
+  'editor.categoryAuto': 'Automatisch ({category})',
+  'editor.split': 'Aufteilen',
+  'editor.merge': 'Zusammenführen ↓',
+  'editor.newItem': 'Neue Position',
+  'editor.addItem': '+ Position hinzufügen',
+  'editor.adjustments': 'Anpassungen',
+  'editor.wholeBill': 'Ganze Rechnung',
+  'editor.addAdjustment': '+ Rabatt, Gebühr oder Steuer hinzufügen',
+  'editor.done': 'Bearbeitung beenden',
+
+  // Language
+  'language.translated': 'Übersetzt',
+  'language.original': 'Original',
+  'language.translateTo': 'Übersetzen in…',
+  'language.translating': 'Wird übersetzt...',
+
+  // Selecting items
+  'select.title': 'Positionen wählen',
+  'select.myShare': 'Mein Anteil',
+  'select.share': 'Anteil',
+  'select.of': 'von',
+  'select.sendClaim': 'Meine Auswahl senden',
+  'select.viewSummary': 'Übersicht anzeigen',
+  'table.title': 'Positionen zuordnen',
+  'table.unclaimed': 'Nicht zugeordnet',
+  'table.addDiner': 'Gast hinzufügen',
+  'table.tapHint': 'Tippe auf einen Namen und dann auf die Positionen dieser Person.',
+  'table.claimPlaceholder': 'Auswahlcode oder Link eines Freundes einfügen',
+  'table.addClaim': 'Auswahl hinzufügen',
+  'table.conflicts': { one: '{count} Position hat widersprüchliche Auswahlen.', other: '{count} Positionen haben widersprüchliche Auswahlen.' },
+  'table.ways': 'durch {count}',
+  'table.byRule': 'Nach Regel: {rule}',
+  'table.viewSummary': 'Tischübersicht anzeigen',
+
+  // Claims
+  'claim.title': 'Meine Auswahl senden',
+  'claim.summary': {
+    one: '{count} Position gewählt. Die Organisatorin oder der Organisator fügt deine Auswahl zur Tischaufteilung hinzu.',
+    other: '{count} Positionen gewählt. Die Organisatorin oder der Organisator fügt deine Auswahl zur Tischaufteilung hinzu.'
+  },
+  'claim.namePlaceholder': 'Dein Name',
+  'claim.create': 'Auswahllink erstellen und kopieren',
+  'claim.copied': 'Auswahllink kopiert. Schick ihn an die Person, die abrechnet, oder lies ihr den Code unten vor.',
+  'claim.failed': 'Die Auswahl konnte in diesem Browser nicht erstellt werden.',
+  'claim.added': 'Auswahl von {name} hinzugefügt.',
+  'claim.addedMissing': {
+    one: 'Auswahl von {name} hinzugefügt. {count} gewählte Position ist nicht mehr auf diesem Beleg.',
+    other: 'Auswahl von {name} hinzugefügt. {count} gewählte Positionen sind nicht mehr auf diesem Beleg.'
+  },
+  'claim.unknownBill': 'Diese Auswahl gehört zu einer Rechnung, die auf diesem Gerät nicht gespeichert ist.',
+  'claim.noName': 'Die Auswahl enthält keinen Namen.',
+  'conflict.unclaimed': 'Niemand hat diese Position gewählt.',
+  'conflict.overClaimed': 'Die Anteile ergeben {claimed} von {total}, mehr als die ganze Position.',
+  'conflict.underClaimed': 'Erst {claimed} von {total} wurden gewählt.',
+
+  // Split rules
+  'rule.title': 'Aufteilungsregeln',
+  'rule.hint': 'Regeln gelten für ganze Arten von Positionen und gehen dem vor, was du unten antippst.',
+  'rule.kindShareEqually': 'Alle teilen',
+  'rule.kindOnlyAmong': 'Nur einige teilen',
+  'rule.kindCover': 'Zahlt nichts',
+  'rule.pickDiner': 'Wer?',
+  'rule.add': 'Hinzufügen',
+  'rule.remove': 'Regel entfernen',
+  'rule.shareEqually': '{category}: unter allen aufgeteilt',
+  'rule.onlyAmong': '{category}: nur {names}',
+  'rule.cover': '{name} zahlt nichts',
+
+  // Summary
+  'summary.unclaimed': '{amount} noch nicht zugeordnet',
+  'summary.roundingSpread': 'Ein Rundungsrest von {amount} wurde auf die Gäste verteilt, damit die Aufteilung mit der Rechnung übereinstimmt.',
+  'summary.taxProportional': 'Steuer (anteilig)',
+  'summary.tipProportional': 'Trinkgeld (anteilig)',
+  'summary.tipEqual': 'Trinkgeld (gleich)',
+  'summary.tipOwn': 'Trinkgeld (eigene %)',
+  'summary.ownPlaceholder': 'eigene %',
+  'summary.included': '{label} (enth.)',
+  'summary.rounding': 'Rundung',
+  'summary.coveredByTable': 'Vom Tisch übernommen',
+  'summary.covering': 'Anteil für {name}',
+  'summary.billTotal': 'Rechnungsbetrag',
+  'summary.yourTotal': 'Dein Betrag',
+  'summary.showIn': 'Meinen Anteil anzeigen in',
+  'summary.noRate': 'Kein Kurs {from} → {to} eingetragen',
+  'summary.converted': '≈ {amount} · 1 {from} = {rate} {to} ({date})',
+  'summary.shareLink': 'Link teilen',
+  'summary.settled': 'Beglichen ✓',
+  'summary.markSettled': 'Als beglichen markieren',
+  'summary.newBill': 'Neue Rechnung',
+  'tip.title': 'Trinkgeld',
+  'tip.receipt': 'Beleg ({amount})',
+  'tip.none': 'Kein Trinkgeld',
+  'tip.customPercent': 'Eigene %',
+  'tip.customAmount': 'Eigener Betrag ({currency})',
+  'tip.onSubtotal': 'Auf Zwischensumme',
+  'tip.onTotal': 'Auf Summe inkl. Steuer',
+  'tip.proportional': 'Anteilig',
+  'tip.equal': 'Gleich',
+  'tip.splitBetween': 'Aufteilen auf',
+  'tip.people': { one: '{count} Person', other: '{count} Personen' },
+  'payer.title': 'Wer hat bezahlt?',
+  'payer.fullyPaid': 'Vollständig bezahlt',
+  'payer.unpaid': '{amount} offen',
+  'payer.overpaid': '{amount} zu viel bezahlt',
+  'payer.paidAll': 'Alles bezahlt',
+  'rates.title': 'Wechselkurse',
+  'rates.empty': 'Noch keine Kurse. Füge einen hinzu, um Anteile in einer anderen Währung zu sehen.',
+  'rates.remove': 'Entfernen',
+  'rates.add': 'Hinzufügen',
+  'rates.pastePlaceholder': 'Kurse einfügen, z. B.\nEUR 0.92\n{currency},GBP,0.79,2026-10-12',
+  'rates.import': 'Eingefügte Kurse importieren',
+  'rates.imported': { one: '{count} Kurs importiert.', other: '{count} Kurse importiert.' },
+  'rates.noneFound': 'In diesem Text wurden keine Kurse gefunden.',
+
+  // Sharing
+  'share.title': 'Beleg teilen',
+  'share.lock': 'Mit Passphrase schützen',
+  'share.openWarning': 'Wer einen offenen Link sieht, kann den Beleg darin lesen.',
+  'share.creating': 'Wird erstellt...',
+  'share.create': 'Link erstellen und kopieren',
+  'share.copied': 'Link kopiert.',
+  'share.lockedCopied': 'Geschützter Link kopiert. Schick die Passphrase getrennt.',
+  'share.failed': 'Der Link konnte in diesem Browser nicht erstellt werden.',
+  'unlock.title': 'Geschützter Beleg',
+  'unlock.body': 'Dieser geteilte Beleg ist geschützt. Gib die Passphrase ein, die du bekommen hast.',
+  'unlock.working': 'Wird entsperrt...',
+  'unlock.unlock': 'Entsperren',
+  'link.invalidReceipt': 'Der geteilte Link enthält keinen gültigen Beleg.',
+  'link.invalid': 'Der geteilte Link ist ungültig oder wurde manipuliert.',
+  'link.damaged': 'Der geteilte Link ist unvollständig oder beschädigt.',
+  'link.newerFormat': 'Dieser Link nutzt das Format v{version}, das diese Version von BillSplit Pro nicht lesen kann. Aktualisiere die App.',
+  'link.noCompression': 'Dieser Browser kann komprimierte Links nicht öffnen.',
+  'link.wrongPassphrase': 'Falsche Passphrase, oder der Link wurde verändert.',
+  'link.notClaim': 'Das sieht nicht nach einem Auswahlcode aus.',
+  'link.newerClaimFormat': 'Diese Auswahl nutzt das Format v{version}, das diese Version von BillSplit Pro nicht lesen kann.',
+  'link.claimDamaged': 'Der Auswahlcode ist unvollständig oder beschädigt.',
+
+  // Export and import
+  'export.title': 'Exportieren',
+  'export.csv': 'CSV herunterladen',
+  'export.json': 'JSON herunterladen',
+  'export.print': 'Belege drucken',
+  'export.printOne': 'Drucken',
+  'export.requests': 'Zahlungsaufforderungen',
+  'export.noPayer': 'Trag ein, wer bezahlt hat, um Zahlungsaufforderungen für alle anderen zu erhalten.',
+  'export.copy': 'Kopieren',
+  'export.copied': 'Kopiert',
+  'export.request': '{from}: du schuldest {to} {amount} für {restaurant} am {date}',
+  'export.requestNoDate': '{from}: du schuldest {to} {amount} für {restaurant}',
+  'export.payTo': '(Zahlung an {handle})',
+  'export.printedFor': 'Beleg für {name}',
+  'export.import': 'Rechnung importieren',
+  'export.imported': '{name} importiert.',
+  'export.notJson': 'Diese Datei ist kein gültiges JSON.',
+  'export.notBill': 'Diese Datei ist kein Rechnungsexport von BillSplit Pro.',
+  'export.newerFormat': 'Diese Rechnung wurde im Format v{version} exportiert, das diese Version von BillSplit Pro nicht lesen kann.',
+  'export.invalidReceipt': 'Die exportierte Rechnung enthält keinen gültigen Beleg.',
+  'summary.you': 'Du',
+
+  // Groups
+  'group.title': 'Gruppen',
+  'group.pick': 'Wer isst mit?',
+  'group.none': 'Gäste später wählen',
+  'group.newPlaceholder': 'Neue Gruppe, z. B. Freitagsmittag',
+  'group.create': 'Erstellen',
+  'group.add': 'Hinzufügen',
+  'group.empty': 'Noch keine Gruppen. Leg eine für die Leute an, mit denen du oft isst.',
+  'group.noMembers': 'Noch keine Mitglieder.',
+  'group.memberName': 'Name',
+  'group.removeMember': '{name} entfernen',
+  'group.addMember': 'Mitglied hinzufügen',
+  'group.initials': 'Initialen',
+  'group.currency': 'Währung',
+  'group.paymentHandle': 'Zahlungskonto',
+  'group.noAlcohol': 'Trinkt keinen Alkohol',
+  'group.excludeWords': 'Auch Zeilen weglassen mit: Dessert, Kaffee',
+  'group.export': 'Exportieren',
+  'group.import': 'Importieren',
+  'group.imported': { one: '{count} Gruppe importiert.', other: '{count} Gruppen importiert.' },
+  'group.notGroups': 'Diese Datei ist kein Gruppen-Export von BillSplit Pro.',
+  'group.newerFormat': 'Diese Gruppen wurden im Format v{version} exportiert, das diese Version von BillSplit Pro nicht lesen kann.',
+
+  // History and settling up
+  'history.search': 'Restaurant oder Datum suchen (2026-10)',
+  'history.empty': 'Noch keine gespeicherten Rechnungen.',
+  'history.noMatch': 'Keine Rechnung passt zu deiner Suche.',
+  'history.items': { one: '{count} Position', other: '{count} Positionen' },
+  'history.diners': { one: '{count} Gast', other: '{count} Gäste' },
+  'history.reopen': 'Wieder öffnen',
+  'history.unavailable': 'Der Rechnungsverlauf ist in diesem Browser nicht verfügbar.',
+  'history.openFailed': 'Der Rechnungsverlauf konnte nicht geöffnet werden.',
+  'history.aborted': 'Der Zugriff auf den Verlauf wurde abgebrochen.',
+  'settle.bills': 'Rechnungen',
+  'settle.noBills': 'Teile eine Rechnung für den ganzen Tisch auf und trag ein, wer bezahlt hat, um abzurechnen.',
+  'settle.paidBy': 'Bezahlt von {names}',
+  'settle.noPayer': 'Keine Zahlung eingetragen',
+  'settle.balances': 'Salden ({currency})',
+  'settle.getsBack': 'bekommt {amount}',
+  'settle.owes': 'schuldet {amount}',
+  'settle.transfers': 'Überweisungen',
+  'settle.pickBills': 'Wähle die Rechnungen zum Abrechnen.',
+  'settle.allSettled': 'Alle sind quitt.',
+  'settle.markPaid': 'Als bezahlt markieren',
+  'settle.export': 'Als Text exportieren',
+  'settle.markBills': { one: '{count} Rechnung als beglichen markieren', other: '{count} Rechnungen als beglichen markieren' },
+  'settle.transfer': '{from} zahlt {to} {amount}',
+  'settle.alreadyPaid': 'Bereits bezahlt:',
+  'settle.copied': 'Abrechnung kopiert.',
+  'settle.copyPrompt': 'Abrechnung kopieren:'
+};
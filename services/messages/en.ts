@@ -0,0 +1,380 @@
+/**
+ * English UI strings: the source catalog every other language is checked
+ * against. `{name}` placeholders are filled by `t`; entries with plural
+ * forms are picked by the `count` parameter (see services/i18n.ts).
+ */
+
+export type PluralMessage = { zero?: string; one?: string; two?: string; few?: string; many?: string; other: string };
+export type Message = string | PluralMessage;
+
+export const en = {
+  // Shared
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.undo': 'Undo',
+  'common.passphrase': 'Passphrase',
+  'common.untitled': 'Untitled Receipt',
+  'common.noDate': 'No Date',
+  'common.settled': 'Settled',
+  'common.open': 'Open',
+
+  'totals.subtotal': 'Subtotal',
+  'totals.tax': 'Tax',
+  'totals.tip': 'Tip',
+  'totals.total': 'Total',
+
+  'adjustmentType.DISCOUNT': 'Discount',
+  'adjustmentType.COUPON': 'Coupon',
+  'adjustmentType.SERVICE_CHARGE': 'Service Charge',
+  'adjustmentType.TAX': 'Tax',
+  'adjustmentType.INCLUDED_TAX': 'Included Tax (VAT)',
+  'adjustmentType.FEE': 'Fee',
+  'category.FOOD': 'Food',
+  'category.DRINK': 'Drink',
+  'category.ALCOHOL': 'Alcohol',
+  'category.DESSERT': 'Dessert',
+  'category.SHARED': 'Appetizers',
+  'category.KIDS': "Kids' meal",
+
+  // Home
+  'home.tagline': 'AI-powered receipt splitting. No account needed, bills stay on this device.',
+  'home.language': 'Language',
+  'home.reader': 'Receipt Reader',
+  'home.readText': 'Read Receipt Text',
+  'home.manual': 'Enter Receipt Manually',
+  'home.scan': 'Scan New Receipt',
+  'home.upload': 'Upload from Gallery',
+  'home.continue': 'Continue {name}',
+  'home.currentBill': 'Current Bill',
+  'home.history': 'Bill History',
+  'home.settleUp': 'Settle Up',
+  'home.tryAgain': 'Try Again',
+  'home.typeInstead': 'Type the Receipt In Instead',
+  'home.readFileFailed': 'Could not read {file}.',
+
+  // Offline scans
+  'queue.title': 'Pending Scans',
+  'queue.offline': "You're offline. New scans are kept on this device and read once you're back online.",
+  'queue.scannedAt': 'Scanned {time}',
+  'queue.waiting': 'Waiting for a connection',
+  'queue.reading': 'Reading...',
+  'queue.failed': 'Could not read: {reason}',
+  'queue.gaveUp': 'No connection to the receipt reader after {count} tries.',
+  'queue.ready': 'Read and saved to history',
+  'queue.readNow': 'Read Now',
+  'queue.open': 'Open',
+  'queue.discard': 'Discard',
+  'queue.dismiss': 'Dismiss',
+  'queue.missing': 'This bill is no longer in history.',
+
+  // Extractors
+  'extractor.gemini.description': 'Reads receipt photos with Google Gemini. Needs an API key and a connection.',
+  'extractor.local.name': 'Local Text Parser',
+  'extractor.local.description': 'Parses receipt text you type or paste. Works offline, nothing leaves your device.',
+  'extractor.mock.name': 'Demo Data',
+  'extractor.mock.description': 'Returns a sample receipt instantly. Handy for trying the app without a key.',
+
+  // Processing
+  'processing.title': 'Analyzing Data',
+  'processing.analyzing': 'Analyzing...',
+  'processing.reading': '{extractor} is reading your receipt...',
+  'processing.readingPhoto': '{extractor} is reading photo {page} of {count}...',
+  'processing.retrying': '{reason} Retrying ({attempt})...',
+
+  // Extraction errors
+  'extraction.cancelled': 'Receipt reading was cancelled.',
+  'extraction.malformed': 'Received malformed data from receipt analysis.',
+  'extraction.noKey': 'No Gemini API key is set up. Add GEMINI_API_KEY, or pick another receipt reader.',
+  'extraction.badKey': 'Gemini rejected the API key. Check GEMINI_API_KEY, or pick another receipt reader.',
+  'extraction.quota': 'The Gemini quota is used up for now. Wait a minute and try again.',
+  'extraction.badImage': "Gemini couldn't open this image. Try another photo.",
+  'extraction.network': "Couldn't reach Gemini. Check your connection and try again.",
+  'extraction.service': "Gemini is having trouble right now. Try again in a moment.",
+  'extraction.unexpected': "Gemini couldn't read this receipt ({detail}). Try again, or pick another receipt reader.",
+  'extraction.needsPhoto': 'Gemini AI needs a receipt photo.',
+  'extraction.invalidJson': "The AI response was cut off or wasn't valid JSON. Try again.",
+  'extraction.notReceipt': "The AI response wasn't a receipt.",
+  'extraction.noUsableLines': 'None of the receipt lines came back in a usable form.',
+  'extraction.unreadable': "No receipt could be read in this photo. Make sure it's sharp, well lit and fills the frame.",
+  'extraction.translationCut': 'The translation came back cut off. Try again.',
+  'extraction.translationMismatch': "The translation didn't match the receipt's items. Try again.",
+  'extraction.noText': 'Paste or type the receipt text first.',
+  'extraction.noTextItems': 'No line items with prices were found in that text.',
+
+  'field.expectedNumber': 'expected a number, got {value}',
+  'field.expectedText': 'expected text, got {type}',
+  'field.expectedObject': 'expected an object',
+  'field.notObject': 'not an object',
+  'field.missing': 'missing',
+  'field.unknownAdjustment': 'unknown adjustment type {value}',
+  'field.needsAmount': 'needs an amount or a percentage',
+  'field.onPhoto': 'photo {number}: {path}',
+
+  // Images and camera
+  'image.unreadableFormat': "This image format can't be read here.",
+  'image.noCanvas': "Image processing isn't available in this browser.",
+  'image.heic': "HEIC photos can't be opened in this browser. Share the photo as JPEG, or use the camera button.",
+  'image.unsupported': "This image ({type}) can't be read in this browser.",
+  'camera.noAccess': 'Could not access camera. Please check permissions.',
+  'camera.overlapHint': 'Photo {number}: overlap the last few lines of the previous photo',
+  'camera.photoAlt': 'Photo {number}',
+  'camera.done': 'Done',
+  'camera.doneCount': 'Done ({count})',
+  'preview.title': { one: 'Check Photo', other: 'Check Photos' },
+  'preview.enhance': 'Enhance text',
+  'preview.photoAlt': 'Receipt photo {number}',
+  'preview.position': '{number} of {count}',
+  'preview.size': '{size} KB',
+  'preview.converted': 'converted from {format}',
+  'preview.preparing': 'Preparing...',
+  'preview.read': 'Read Receipt',
+  'preview.retake': 'Retake',
+
+  // Confirm and edit
+  'confirm.reconciled': 'Totals Reconciled',
+  'confirm.needsReview': 'Totals Need Review',
+  'confirm.claimMine': 'Claim My Items',
+  'confirm.splitTable': 'Split for the Whole Table',
+  'confirm.share': 'Share Link with Friends',
+  'confirm.edit': 'Review & Edit Items',
+  'confirm.reset': 'Reset',
+  'confirm.review': 'Review Receipt',
+  'confirm.fieldErrors': "Some parts of the receipt couldn't be read and were left out",
+  'confirm.moreFieldErrors': '…and {count} more. Check the items against your receipt.',
+  'confirm.unknownCurrency': "\"{currency}\" isn't a currency code. Amounts are rounded to 2 decimals until you set the right one.",
+  'confirm.setCurrency': 'Set Currency',
+  'confirm.toCheck': { one: '{count} value to double-check', other: '{count} values to double-check' },
+  'confirm.readFromPhoto': 'Read from your photo',
+  'reconcile.title': "The numbers on this receipt don't add up",
+  'reconcile.lineTotal': '"{item}": {quantity} × {unitPrice} = {expected} but line total says {actual}',
+  'reconcile.itemsVsSubtotal': 'Items sum to {items} but subtotal says {subtotal}',
+  'reconcile.subtotalVsTotal': 'Subtotal + tax + tip come to {computed} but total says {total}',
+  'reconcile.subtotalVsTotalAdjusted': 'Subtotal + tax + tip + adjustments come to {computed} but total says {total}',
+  'source.confidence': 'Read with {percent} confidence.',
+  'source.confidenceOnPhoto': 'Read with {percent} confidence from photo {number}.',
+  'source.noBox': "The receipt reader didn't say where on the photo this was.",
+  'source.cropping': 'Cropping...',
+  'source.alt': 'Photo region for {label}',
+  'editor.restaurant': 'Restaurant',
+  'editor.restaurantPlaceholder': 'Restaurant name',
+  'editor.currency': 'Currency',
+  'editor.unknownCurrency': 'Not a currency code. Enter the 3-letter code, e.g. SEK.',
+  'editor.date': 'Date',
+  'editor.quantity': 'Qty',
+  'editor.price': 'Price',
+  'editor.category': 'Type',
+  'editor.categoryAuto': 'Auto ({category})',
+  'editor.split': 'Split',
+  'editor.merge': 'Merge ↓',
+  'editor.newItem': 'New Item',
+  'editor.addItem': '+ Add Item',
+  'editor.adjustments': 'Adjustments',
+  'editor.wholeBill': 'Whole bill',
+  'editor.addAdjustment': '+ Add Discount, Charge or Tax',
+  'editor.done': 'Done Editing',
+
+  // Language
+  'language.translated': 'Translated',
+  'language.original': 'Original',
+  'language.translateTo': 'Translate to…',
+  'language.translating': 'Translating...',
+
+  // Selecting items
+  'select.title': 'Select Items',
+  'select.myShare': 'My Share',
+  'select.share': 'Share',
+  'select.of': 'of',
+  'select.sendClaim': 'Send My Claim',
+  'select.viewSummary': 'View Summary',
+  'table.title': 'Assign Items',
+  'table.unclaimed': 'Unclaimed',
+  'table.addDiner': 'Add diner',
+  'table.tapHint': 'Tap a name, then tap the items they had.',
+  'table.claimPlaceholder': "Paste a friend's claim code or link",
+  'table.addClaim': 'Add Claim',
+  'table.conflicts': { one: '{count} item has conflicting claims.', other: '{count} items have conflicting claims.' },
+  'table.ways': '{count} ways',
+  'table.byRule': 'By rule: {rule}',
+  'table.viewSummary': 'View Table Summary',
+
+  // Claims
+  'claim.title': 'Send My Claim',
+  'claim.summary': {
+    one: '{count} item claimed. The organizer adds your claim to the table split.',
+    other: '{count} items claimed. The organizer adds your claim to the table split.'
+  },
+  'claim.namePlaceholder': 'Your name',
+  'claim.create': 'Create & Copy Claim Link',
+  'claim.copied': 'Claim link copied. Send it to the organizer, or read them the code below.',
+  'claim.failed': "Couldn't create the claim in this browser.",
+  'claim.added': "Added {name}'s claim.",
+  'claim.addedMissing': {
+    one: "Added {name}'s claim. {count} claimed item is no longer on this receipt.",
+    other: "Added {name}'s claim. {count} claimed items are no longer on this receipt."
+  },
+  'claim.unknownBill': "This claim is for a bill that isn't saved on this device.",
+  'claim.noName': "The claim doesn't include a name.",
+  'conflict.unclaimed': 'Nobody has claimed this item.',
+  'conflict.overClaimed': 'Shares add up to {claimed} of {total}, more than the whole item.',
+  'conflict.underClaimed': 'Only {claimed} of {total} has been claimed.',
+
+  // Split rules
+  'rule.title': 'Split Rules',
+  'rule.hint': "Rules apply to whole item types and override what's tapped below.",
+  'rule.kindShareEqually': 'Everyone shares',
+  'rule.kindOnlyAmong': 'Only some share',
+  'rule.kindCover': 'Pays nothing',
+  'rule.pickDiner': 'Who?',
+  'rule.add': 'Add',
+  'rule.remove': 'Remove rule',
+  'rule.shareEqually': '{category}: split between everyone',
+  'rule.onlyAmong': '{category}: only {names}',
+  'rule.cover': '{name} pays nothing',
+
+  // Summary
+  'summary.unclaimed': '{amount} still unclaimed',
+  'summary.roundingSpread': '{amount} rounding leftover was spread across diners so the split matches the bill.',
+  'summary.taxProportional': 'Tax (Prop.)',
+  'summary.tipProportional': 'Tip (Prop.)',
+  'summary.tipEqual': 'Tip (Equal)',
+  'summary.tipOwn': 'Tip (Own %)',
+  'summary.ownPlaceholder': 'own %',
+  'summary.included': '{label} (incl.)',
+  'summary.rounding': 'Rounding',
+  'summary.coveredByTable': 'Covered by the table',
+  'summary.covering': 'Covering {name}',
+  'summary.billTotal': 'Bill Total',
+  'summary.yourTotal': 'Your Total',
+  'summary.showIn': 'Show my share in',
+  'summary.noRate': 'No {from} → {to} rate entered',
+  'summary.converted': '≈ {amount} · 1 {from} = {rate} {to} ({date})',
+  'summary.shareLink': 'Share Link',
+  'summary.settled': 'Settled ✓',
+  'summary.markSettled': 'Mark as Settled',
+  'summary.newBill': 'New Bill',
+  'tip.title': 'Tip',
+  'tip.receipt': 'Receipt ({amount})',
+  'tip.none': 'No Tip',
+  'tip.customPercent': 'Custom %',
+  'tip.customAmount': 'Custom {currency}',
+  'tip.onSubtotal': 'On Subtotal',
+  'tip.onTotal': 'On Total w/ Tax',
+  'tip.proportional': 'Proportional',
+  'tip.equal': 'Equal',
+  'tip.splitBetween': 'Split between',
+  'tip.people': { one: '{count} person', other: '{count} people' },
+  'payer.title': 'Who Paid?',
+  'payer.fullyPaid': 'Fully paid',
+  'payer.unpaid': '{amount} unpaid',
+  'payer.overpaid': '{amount} overpaid',
+  'payer.paidAll': 'Paid All',
+  'rates.title': 'Exchange Rates',
+  'rates.empty': 'No rates yet. Add one to see shares in another currency.',
+  'rates.remove': 'Remove',
+  'rates.add': 'Add',
+  'rates.pastePlaceholder': 'Paste rates, e.g.\nEUR 0.92\n{currency},GBP,0.79,2026-10-12',
+  'rates.import': 'Import Pasted Rates',
+  'rates.imported': { one: 'Imported {count} rate.', other: 'Imported {count} rates.' },
+  'rates.noneFound': 'No rates found in that text.',
+
+  // Sharing
+  'share.title': 'Share Receipt',
+  'share.lock': 'Lock with a passphrase',
+  'share.openWarning': 'Anyone who sees an open link can read the receipt in it.',
+  'share.creating': 'Creating...',
+  'share.create': 'Create & Copy Link',
+  'share.copied': 'Link copied.',
+  'share.lockedCopied': 'Locked link copied. Send the passphrase separately.',
+  'share.failed': "Couldn't create the link in this browser.",
+  'unlock.title': 'Locked Receipt',
+  'unlock.body': 'This shared receipt is protected. Enter the passphrase you were given.',
+  'unlock.working': 'Unlocking...',
+  'unlock.unlock': 'Unlock',
+  'link.invalidReceipt': "The shared link doesn't contain a valid receipt.",
+  'link.invalid': 'The shared link is invalid or has been tampered with.',
+  'link.damaged': 'The shared link is incomplete or damaged.',
+  'link.newerFormat': "This link uses share format v{version}, which this version of BillSplit Pro can't read. Try updating the app.",
+  'link.noCompression': "This browser can't open compressed share links.",
+  'link.wrongPassphrase': 'Wrong passphrase, or the link has been altered.',
+  'link.notClaim': "That doesn't look like a claim code.",
+  'link.newerClaimFormat': "This claim uses format v{version}, which this version of BillSplit Pro can't read.",
+  'link.claimDamaged': 'The claim code is incomplete or damaged.',
+
+  // Export and import
+  'export.title': 'Export',
+  'export.csv': 'Download CSV',
+  'export.json': 'Download JSON',
+  'export.print': 'Print Receipts',
+  'export.printOne': 'Print',
+  'export.requests': 'Payment Requests',
+  'export.noPayer': 'Record who paid to get a payment request for everyone else.',
+  'export.copy': 'Copy',
+  'export.copied': 'Copied',
+  'export.request': '{from}: you owe {to} {amount} for {restaurant} on {date}',
+  'export.requestNoDate': '{from}: you owe {to} {amount} for {restaurant}',
+  'export.payTo': '(pay to {handle})',
+  'export.printedFor': 'Receipt for {name}',
+  'export.import': 'Import Bill',
+  'export.imported': 'Imported {name}.',
+  'export.notJson': "That file isn't valid JSON.",
+  'export.notBill': "That file isn't a BillSplit Pro bill export.",
+  'export.newerFormat': "This bill was exported in format v{version}, which this version of BillSplit Pro can't read.",
+  'export.invalidReceipt': "The exported bill doesn't contain a valid receipt.",
+  'summary.you': 'You',
+
+  // Groups
+  'group.title': 'Groups',
+  'group.pick': "Who's Eating",
+  'group.none': 'Pick diners later',
+  'group.newPlaceholder': 'New group, e.g. Friday lunch',
+  'group.create': 'Create',
+  'group.add': 'Add',
+  'group.empty': 'No groups yet. Create one for the people you often eat with.',
+  'group.noMembers': 'No members yet.',
+  'group.memberName': 'Name',
+  'group.removeMember': 'Remove {name}',
+  'group.addMember': 'Add member',
+  'group.initials': 'Initials',
+  'group.currency': 'Currency',
+  'group.paymentHandle': 'Payment handle',
+  'group.noAlcohol': "Doesn't drink alcohol",
+  'group.excludeWords': 'Also leave out lines with: dessert, coffee',
+  'group.export': 'Export',
+  'group.import': 'Import',
+  'group.imported': { one: 'Imported {count} group.', other: 'Imported {count} groups.' },
+  'group.notGroups': "That file isn't a BillSplit Pro groups export.",
+  'group.newerFormat': "These groups were exported in format v{version}, which this version of BillSplit Pro can't read.",
+
+  // History and settling up
+  'history.search': 'Search restaurant or date (2026-10)',
+  'history.empty': 'No saved bills yet.',
+  'history.noMatch': 'No bills match your search.',
+  'history.items': { one: '{count} item', other: '{count} items' },
+  'history.diners': { one: '{count} diner', other: '{count} diners' },
+  'history.reopen': 'Re-open',
+  'history.unavailable': "Bill history isn't available in this browser.",
+  'history.openFailed': 'Could not open bill history.',
+  'history.aborted': 'History transaction aborted.',
+  'settle.bills': 'Bills',
+  'settle.noBills': 'Split a bill for the whole table and record who paid to settle up.',
+  'settle.paidBy': 'Paid by {names}',
+  'settle.noPayer': 'No payer recorded',
+  'settle.balances': 'Balances ({currency})',
+  'settle.getsBack': 'gets back {amount}',
+  'settle.owes': 'owes {amount}',
+  'settle.transfers': 'Transfers',
+  'settle.pickBills': 'Pick the bills to settle.',
+  'settle.allSettled': 'Everyone is settled up.',
+  'settle.markPaid': 'Mark Paid',
+  'settle.export': 'Export as Text',
+  'settle.markBills': { one: 'Mark {count} Bill as Settled', other: 'Mark {count} Bills as Settled' },
+  'settle.transfer': '{from} pays {to} {amount}',
+  'settle.alreadyPaid': 'Already paid:',
+  'settle.copied': 'Settle-up summary copied.',
+  'settle.copyPrompt': 'Copy the settle-up summary:'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
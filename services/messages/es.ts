@@ -0,0 +1,370 @@
+import { Catalog } from "./en";
+
+export const es: Catalog = {
+  // Shared
+  'common.back': 'Atrás',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.delete': 'Eliminar',
+  'common.undo': 'Deshacer',
+  'common.passphrase': 'Contraseña',
+  'common.untitled': 'Recibo sin nombre',
+  'common.noDate': 'Sin fecha',
+  'common.settled': 'Saldada',
+  'common.open': 'Abierta',
+
+  'totals.subtotal': 'Subtotal',
+  'totals.tax': 'Impuestos',
+  'totals.tip': 'Propina',
+  'totals.total': 'Total',
+
+  'adjustmentType.DISCOUNT': 'Descuento',
+  'adjustmentType.COUPON': 'Cupón',
+  'adjustmentType.SERVICE_CHARGE': 'Cargo por servicio',
+  'adjustmentType.TAX': 'Impuesto',
+  'adjustmentType.INCLUDED_TAX': 'Impuesto incluido (IVA)',
+  'adjustmentType.FEE': 'Cargo',
+  'category.FOOD': 'Comida',
+  'category.DRINK': 'Bebida',
+  'category.ALCOHOL': 'Alcohol',
+  'category.DESSERT': 'Postre',
+  'category.SHARED': 'Entrantes',
+  'category.KIDS': 'Menú infantil',
+
+  // Home
+  'home.tagline': 'Divide recibos con IA. Sin cuenta, las cuentas se quedan en este dispositivo.',
+  'home.language': 'Idioma',
+  'home.reader': 'Lector de recibos',
+  'home.readText': 'Leer texto del recibo',
+  'home.manual': 'Introducir recibo a mano',
+  'home.scan': 'Escanear recibo',
+  'home.upload': 'Subir desde la galería',
+  'home.continue': 'Continuar {name}',
+  'home.currentBill': 'cuenta actual',
+  'home.history': 'Historial de cuentas',
+  'home.settleUp': 'Saldar cuentas',
+  'home.tryAgain': 'Reintentar',
+  'home.typeInstead': 'Escribir el recibo en su lugar',
+  'home.readFileFailed': 'No se pudo leer {file}.',
+
+  // Offline scans
+  'queue.title': 'Escaneos pendientes',
+  'queue.offline': 'Sin conexión. Los nuevos escaneos se guardan en este dispositivo y se leen al recuperar la conexión.',
+  'queue.scannedAt': 'Escaneado {time}',
+  'queue.waiting': 'Esperando conexión',
+  'queue.reading': 'Leyendo...',
+  'queue.failed': 'No se pudo leer: {reason}',
+  'queue.gaveUp': 'Sin conexión con el lector de recibos tras {count} intentos.',
+  'queue.ready': 'Leído y guardado en el historial',
+  'queue.readNow': 'Leer ahora',
+  'queue.open': 'Abrir',
+  'queue.discard': 'Descartar',
+  'queue.dismiss': 'Ocultar',
+  'queue.missing': 'Esta cuenta ya no está en el historial.',
+
+  // Extractors
+  'extractor.gemini.description': 'Lee fotos de recibos con Google Gemini. Necesita una clave de API y conexión.',
+  'extractor.local.name': 'Analizador de texto local',
+  'extractor.local.description': 'Analiza el texto del recibo que escribas o pegues. Funciona sin conexión, nada sale de tu dispositivo.',
+  'extractor.mock.name': 'Datos de demostración',
+  'extractor.mock.description': 'Devuelve un recibo de ejemplo al instante. Útil para probar la app sin clave.',
+
+  // Processing
+  'processing.title': 'Analizando datos',
+  'processing.analyzing': 'Analizando...',
+  'processing.reading': '{extractor} está leyendo tu recibo...',
+  'processing.readingPhoto': '{extractor} está leyendo la foto {page} de {count}...',
+  'processing.retrying': '{reason} Reintentando ({attempt})...',
+
+  // Extraction errors
+  'extraction.cancelled': 'Se canceló la lectura del recibo.',
+  'extraction.malformed': 'El análisis del recibo devolvió datos con formato incorrecto.',
+  'extraction.noKey': 'No hay ninguna clave de API de Gemini configurada. Añade GEMINI_API_KEY o elige otro lector de recibos.',
+  'extraction.badKey': 'Gemini rechazó la clave de API. Revisa GEMINI_API_KEY o elige otro lector de recibos.',
+  'extraction.quota': 'Se ha agotado la cuota de Gemini por ahora. Espera un minuto y vuelve a intentarlo.',
+  'extraction.badImage': 'Gemini no pudo abrir esta imagen. Prueba con otra foto.',
+  'extraction.network': 'No se pudo conectar con Gemini. Revisa tu conexión y vuelve a intentarlo.',
+  'extraction.service': 'Gemini tiene problemas en este momento. Vuelve a intentarlo en un rato.',
+  'extraction.unexpected': 'Gemini no pudo leer este recibo ({detail}). Vuelve a intentarlo o elige otro lector de recibos.',
+  'extraction.needsPhoto': 'Gemini AI necesita una foto del recibo.',
+  'extraction.invalidJson': 'La respuesta de la IA llegó cortada o no era JSON válido. Vuelve a intentarlo.',
+  'extraction.notReceipt': 'La respuesta de la IA no era un recibo.',
+  'extraction.noUsableLines': 'Ninguna línea del recibo llegó en un formato utilizable.',
+  'extraction.unreadable': 'No se pudo leer ningún recibo en esta foto. Asegúrate de que esté nítida, bien iluminada y llene el encuadre.',
+  'extraction.translationCut': 'La traducción llegó cortada. Vuelve a intentarlo.',
+  'extraction.translationMismatch': 'La traducción no coincide con los artículos del recibo. Vuelve a intentarlo.',
+  'extraction.noText': 'Primero pega o escribe el texto del recibo.',
+  'extraction.noTextItems': 'No se encontraron artículos con precio en ese texto.',
+
+  'field.expectedNumber': 'se esperaba un número, llegó {value}',
+  'field.expectedText': 'se esperaba texto, llegó {type}',
+  'field.expectedObject': 'se esperaba un objeto',
+  'field.notObject': 'no es un objeto',
+  'field.missing': 'falta',
+  'field.unknownAdjustment': 'tipo de ajuste desconocido {value}',
+  'field.needsAmount': 'necesita un importe o un porcentaje',
+  'field.onPhoto': 'foto {number}: {path}',
+
+  // Images and camera
+  'image.unreadableFormat': 'Este formato de imagen no se puede leer aquí.',
+  'image.noCanvas': 'El procesamiento de imágenes no está disponible en este navegador.',
+  'image.heic': 'Las fotos HEIC no se pueden abrir en este navegador. Comparte la foto como JPEG o usa el botón de la cámara.',
+  'image.unsupported': 'Esta imagen ({type}) no se puede leer en este navegador.',
+  'camera.noAccess': 'No se pudo acceder a la cámara. Revisa los permisos.',
+  'camera.overlapHint': 'Foto {number}: solapa las últimas líneas de la foto anterior',
+  'camera.photoAlt': 'Foto {number}',
+  'camera.done': 'Listo',
+  'camera.doneCount': 'Listo ({count})',
+  'preview.title': { one: 'Revisar foto', other: 'Revisar fotos' },
+  'preview.enhance': 'Mejorar texto',
+  'preview.photoAlt': 'Foto del recibo {number}',
+  'preview.position': '{number} de {count}',
+  'preview.size': '{size} KB',
+  'preview.converted': 'convertida desde {format}',
+  'preview.preparing': 'Preparando...',
+  'preview.read': 'Leer recibo',
+  'preview.retake': 'Repetir',
+
+  // Confirm and edit
+  'confirm.reconciled': 'Totales cuadrados',
+  'confirm.needsReview': 'Revisar totales',
+  'confirm.claimMine': 'Elegir mis artículos',
+  'confirm.splitTable': 'Dividir para toda la mesa',
+  'confirm.share': 'Compartir enlace con amigos',
+  'confirm.edit': 'Revisar y editar artículos',
+  'confirm.reset': 'Reiniciar',
+  'confirm.review': 'Revisar recibo',
+  'confirm.fieldErrors': 'Algunas partes del recibo no se pudieron leer y se omitieron',
+  'confirm.moreFieldErrors': '…y {count} más. Compara los artículos con tu recibo.',
+  'confirm.unknownCurrency': '"{currency}" no es un código de moneda. Los importes se redondean a 2 decimales hasta que indiques la correcta.',
+  'confirm.setCurrency': 'Indicar moneda',
+  'confirm.toCheck': { one: '{count} valor por comprobar', other: '{count} valores por comprobar' },
+  'confirm.readFromPhoto': 'Leído de tu foto',
+  'reconcile.title': 'Los números de este recibo no cuadran',
+  'reconcile.lineTotal': '"{item}": {quantity} × {unitPrice} = {expected}, pero el total de la línea dice {actual}',
+  'reconcile.itemsVsSubtotal': 'Los artículos suman {items}, pero el subtotal dice {subtotal}',
+  'reconcile.subtotalVsTotal': 'Subtotal + impuestos + propina suman {computed}, pero el total dice {total}',
+  'reconcile.subtotalVsTotalAdjusted': 'Subtotal + impuestos + propina + ajustes suman {computed}, pero el total dice {total}',
+  'source.confidence': 'Leído con un {percent} de confianza.',
+  'source.confidenceOnPhoto': 'Leído con un {percent} de confianza en la foto {number}.',
+  'source.noBox': 'El lector de recibos no indicó en qué parte de la foto estaba.',
+  'source.cropping': 'Recortando...',
+  'source.alt': 'Zona de la foto para {label}',
+  'editor.restaurant': 'Restaurante',
+  'editor.restaurantPlaceholder': 'Nombre del restaurante',
+  'editor.currency': 'Moneda',
+  'editor.unknownCurrency': 'No es un código de moneda. Escribe el código de 3 letras, p. ej. SEK.',
+  'editor.date': 'Fecha',
+  'editor.quantity': 'Cant.',
+  'editor.price': 'Precio',
+  'editor.category': 'Tipo',
+  'editor.categoryAuto': 'Auto ({category})',
+  'editor.split': 'Dividir',
+  'editor.merge': 'Unir ↓',
+  'editor.newItem': 'Artículo nuevo',
+  'editor.addItem': '+ Añadir artículo',
+  'editor.adjustments': 'Ajustes',
+  'editor.wholeBill': 'Toda la cuenta',
+  'editor.addAdjustment': '+ Añadir descuento, cargo o impuesto',
+  'editor.done': 'Terminar edición',
+
+  // Language
+  'language.translated': 'Traducido',
+  'language.original': 'Original',
+  'language.translateTo': 'Traducir a…',
+  'language.translating': 'Traduciendo...',
+
+  // Selecting items
+  'select.title': 'Elegir artículos',
+  'select.myShare': 'Mi parte',
+  'select.share': 'Parte',
+  'select.of': 'de',
+  'select.sendClaim': 'Enviar mi selección',
+  'select.viewSummary': 'Ver resumen',
+  'table.title': 'Asignar artículos',
+  'table.unclaimed': 'Sin asignar',
+  'table.addDiner': 'Añadir comensal',
+  'table.tapHint': 'Toca un nombre y luego los artículos que tomó.',
+  'table.claimPlaceholder': 'Pega el código o enlace de un amigo',
+  'table.addClaim': 'Añadir selección',
+  'table.conflicts': { one: '{count} artículo tiene selecciones en conflicto.', other: '{count} artículos tienen selecciones en conflicto.' },
+  'table.ways': 'entre {count}',
+  'table.byRule': 'Por regla: {rule}',
+  'table.viewSummary': 'Ver resumen de la mesa',
+
+  // Claims
+  'claim.title': 'Enviar mi selección',
+  'claim.summary': {
+    one: '{count} artículo elegido. Quien organiza añade tu selección a la división de la mesa.',
+    other: '{count} artículos elegidos. Quien organiza añade tu selección a la división de la mesa.'
+  },
+  'claim.namePlaceholder': 'Tu nombre',
+  'claim.create': 'Crear y copiar enlace de selección',
+  'claim.copied': 'Enlace copiado. Envíaselo a quien organiza o díctale el código de abajo.',
+  'claim.failed': 'No se pudo crear la selección en este navegador.',
+  'claim.added': 'Se añadió la selección de {name}.',
+  'claim.addedMissing': {
+    one: 'Se añadió la selección de {name}. {count} artículo elegido ya no está en este recibo.',
+    other: 'Se añadió la selección de {name}. {count} artículos elegidos ya no están en este recibo.'
+  },
+  'claim.unknownBill': 'Esta selección es de una cuenta que no está guardada en este dispositivo.',
+  'claim.noName': 'La selección no incluye un nombre.',
+  'conflict.unclaimed': 'Nadie ha elegido este artículo.',
+  'conflict.overClaimed': 'Las partes suman {claimed} de {total}, más que el artículo entero.',
+  'conflict.underClaimed': 'Solo se han elegido {claimed} de {total}.',
+
+  // Split rules
+  'rule.title': 'Reglas de reparto',
+  'rule.hint': 'Las reglas se aplican a tipos de plato enteros y mandan sobre lo marcado abajo.',
+  'rule.kindShareEqually': 'Comparten todos',
+  'rule.kindOnlyAmong': 'Comparten solo algunos',
+  'rule.kindCover': 'No paga',
+  'rule.pickDiner': '¿Quién?',
+  'rule.add': 'Añadir',
+  'rule.remove': 'Quitar regla',
+  'rule.shareEqually': '{category}: entre todos',
+  'rule.onlyAmong': '{category}: solo {names}',
+  'rule.cover': '{name} no paga',
+
+  // Summary
+  'summary.unclaimed': '{amount} aún sin asignar',
+  'summary.roundingSpread': 'El sobrante de redondeo de {amount} se repartió entre los comensales para que la división cuadre con la cuenta.',
+  'summary.taxProportional': 'Impuestos (prop.)',
+  'summary.tipProportional': 'Propina (prop.)',
+  'summary.tipEqual': 'Propina (igual)',
+  'summary.tipOwn': 'Propina (% propio)',
+  'summary.ownPlaceholder': '% propio',
+  'summary.included': '{label} (incl.)',
+  'summary.rounding': 'Redondeo',
+  'summary.coveredByTable': 'Invita la mesa',
+  'summary.covering': 'Invitando a {name}',
+  'summary.billTotal': 'Total de la cuenta',
+  'summary.yourTotal': 'Tu total',
+  'summary.showIn': 'Mostrar mi parte en',
+  'summary.noRate': 'No hay tipo de cambio {from} → {to}',
+  'summary.converted': '≈ {amount} · 1 {from} = {rate} {to} ({date})',
+  'summary.shareLink': 'Compartir enlace',
+  'summary.settled': 'Saldada ✓',
+  'summary.markSettled': 'Marcar como saldada',
+  'summary.newBill': 'Nueva cuenta',
+  'tip.title': 'Propina',
+  'tip.receipt': 'Recibo ({amount})',
+  'tip.none': 'Sin propina',
+  'tip.customPercent': '% personalizado',
+  'tip.customAmount': '{currency} personalizado',
+  'tip.onSubtotal': 'Sobre el subtotal',
+  'tip.onTotal': 'Sobre el total con impuestos',
+  'tip.proportional': 'Proporcional',
+  'tip.equal': 'A partes iguales',
+  'tip.splitBetween': 'Dividir entre',
+  'tip.people': { one: '{count} persona', other: '{count} personas' },
+  'payer.title': '¿Quién pagó?',
+  'payer.fullyPaid': 'Pagada por completo',
+  'payer.unpaid': '{amount} sin pagar',
+  'payer.overpaid': '{amount} pagado de más',
+  'payer.paidAll': 'Pagó todo',
+  'rates.title': 'Tipos de cambio',
+  'rates.empty': 'Aún no hay tipos de cambio. Añade uno para ver las partes en otra moneda.',
+  'rates.remove': 'Quitar',
+  'rates.add': 'Añadir',
+  'rates.pastePlaceholder': 'Pega tipos de cambio, p. ej.\nEUR 0.92\n{currency},GBP,0.79,2026-10-12',
+  'rates.import': 'Importar tipos pegados',
+  'rates.imported': { one: 'Se importó {count} tipo de cambio.', other: 'Se importaron {count} tipos de cambio.' },
+  'rates.noneFound': 'No se encontraron tipos de cambio en ese texto.',
+
+  // Sharing
+  'share.title': 'Compartir recibo',
+  'share.lock': 'Proteger con contraseña',
+  'share.openWarning': 'Cualquiera que vea un enlace abierto puede leer el recibo que contiene.',
+  'share.creating': 'Creando...',
+  'share.create': 'Crear y copiar enlace',
+  'share.copied': 'Enlace copiado.',
+  'share.lockedCopied': 'Enlace protegido copiado. Envía la contraseña por separado.',
+  'share.failed': 'No se pudo crear el enlace en este navegador.',
+  'unlock.title': 'Recibo protegido',
+  'unlock.body': 'Este recibo compartido está protegido. Introduce la contraseña que te dieron.',
+  'unlock.working': 'Desbloqueando...',
+  'unlock.unlock': 'Desbloquear',
+  'link.invalidReceipt': 'El enlace compartido no contiene un recibo válido.',
+  'link.invalid': 'El enlace compartido no es válido o ha sido manipulado.',
+  'link.damaged': 'El enlace compartido está incompleto o dañado.',
+  'link.newerFormat': 'Este enlace usa el formato v{version}, que esta versión de BillSplit Pro no puede leer. Prueba a actualizar la app.',
+  'link.noCompression': 'Este navegador no puede abrir enlaces comprimidos.',
+  'link.wrongPassphrase': 'Contraseña incorrecta, o el enlace ha sido alterado.',
+  'link.notClaim': 'Eso no parece un código de selección.',
+  'link.newerClaimFormat': 'Esta selección usa el formato v{version}, que esta versión de BillSplit Pro no puede leer.',
+  'link.claimDamaged': 'El código de selección está incompleto o dañado.',
+
+  // Export and import
+  'export.title': 'Exportar',
+  'export.csv': 'Descargar CSV',
+  'export.json': 'Descargar JSON',
+  'export.print': 'Imprimir recibos',
+  'export.printOne': 'Imprimir',
+  'export.requests': 'Solicitudes de pago',
+  'export.noPayer': 'Anota quién pagó para obtener una solicitud de pago para los demás.',
+  'export.copy': 'Copiar',
+  'export.copied': 'Copiado',
+  'export.request': '{from}: le debes a {to} {amount} por {restaurant} el {date}',
+  'export.requestNoDate': '{from}: le debes a {to} {amount} por {restaurant}',
+  'export.payTo': '(pago a {handle})',
+  'export.printedFor': 'Recibo de {name}',
+  'export.import': 'Importar cuenta',
+  'export.imported': 'Se importó {name}.',
+  'export.notJson': 'Ese archivo no es JSON válido.',
+  'export.notBill': 'Ese archivo no es una cuenta exportada de BillSplit Pro.',
+  'export.newerFormat': 'Esta cuenta se exportó con el formato v{version}, que esta versión de BillSplit Pro no puede leer.',
+  'export.invalidReceipt': 'La cuenta exportada no contiene un recibo válido.',
+  'summary.you': 'Tú',
+
+  // Groups
+  'group.title': 'Grupos',
+  'group.pick': '¿Quién come?',
+  'group.none': 'Elegir comensales después',
+  'group.newPlaceholder': 'Nuevo grupo, p. ej. comida del viernes',
+  'group.create': 'Crear',
+  'group.add': 'Añadir',
+  'group.empty': 'Aún no hay grupos. Crea uno para la gente con la que sueles comer.',
+  'group.noMembers': 'Aún no hay miembros.',
+  'group.memberName': 'Nombre',
+  'group.removeMember': 'Quitar a {name}',
+  'group.addMember': 'Añadir miembro',
+  'group.initials': 'Iniciales',
+  'group.currency': 'Moneda',
+  'group.paymentHandle': 'Cuenta de pago',
+  'group.noAlcohol': 'No bebe alcohol',
+  'group.excludeWords': 'Excluir también líneas con: postre, café',
+  'group.export': 'Exportar',
+  'group.import': 'Importar',
+  'group.imported': { one: '{count} grupo importado.', other: '{count} grupos importados.' },
+  'group.notGroups': 'Ese archivo no es una exportación de grupos de BillSplit Pro.',
+  'group.newerFormat': 'Estos grupos se exportaron en el formato v{version}, que esta versión de BillSplit Pro no puede leer.',
+
+  // History and settling up
+  'history.search': 'Buscar restaurante o fecha (2026-10)',
+  'history.empty': 'Aún no hay cuentas guardadas.',
+  'history.noMatch': 'Ninguna cuenta coincide con tu búsqueda.',
+  'history.items': { one: '{count} artículo', other: '{count} artículos' },
+  'history.diners': { one: '{count} comensal', other: '{count} comensales' },
+  'history.reopen': 'Reabrir',
+  'history.unavailable': 'El historial de cuentas no está disponible en este navegador.',
+  'history.openFailed': 'No se pudo abrir el historial de cuentas.',
+  'history.aborted': 'Se interrumpió la operación del historial.',
+  'settle.bills': 'Cuentas',
+  'settle.noBills': 'Divide una cuenta para toda la mesa y anota quién pagó para poder saldar.',
+  'settle.paidBy': 'Pagó {names}',
+  'settle.noPayer': 'No consta quién pagó',
+  'settle.balances': 'Saldos ({currency})',
+  'settle.getsBack': 'recibe {amount}',
+  'settle.owes': 'debe {amount}',
+  'settle.transfers': 'Transferencias',
+  'settle.pickBills': 'Elige las cuentas que quieres saldar.',
+  'settle.allSettled': 'Todo el mundo está al día.',
+  'settle.markPaid': 'Marcar pagada',
+  'settle.export': 'Exportar como texto',
+  'settle.markBills': { one: 'Marcar {count} cuenta como saldada', other: 'Marcar {count} cuentas como saldadas' },
+  'settle.transfer': '{from} paga a {to} {amount}',
+  'settle.alreadyPaid': 'Ya pagado:',
+  'settle.copied': 'Resumen copiado.',
+  'settle.copyPrompt': 'Copia el resumen para saldar cuentas:'
+};
@@ -0,0 +1,370 @@
+import { Catalog } from "./en";
+
+export const fr: Catalog = {
+  // Shared
+  'common.back': 'Retour',
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.delete': 'Supprimer',
+  'common.undo': 'Annuler',
+  'common.passphrase': 'Phrase secrète',
+  'common.untitled': 'Reçu sans nom',
+  'common.noDate': 'Sans date',
+  'common.settled': 'Réglée',
+  'common.open': 'Ouverte',
+
+  'totals.subtotal': 'Sous-total',
+  'totals.tax': 'Taxes',
+  'totals.tip': 'Pourboire',
+  'totals.total': 'Total',
+
+  'adjustmentType.DISCOUNT': 'Remise',
+  'adjustmentType.COUPON': 'Bon de réduction',
+  'adjustmentType.SERVICE_CHARGE': 'Frais de service',
+  'adjustmentType.TAX': 'Taxe',
+  'adjustmentType.INCLUDED_TAX': 'Taxe incluse (TVA)',
+  'adjustmentType.FEE': 'Frais',
+  'category.FOOD': 'Plat',
+  'category.DRINK': 'Boisson',
+  'category.ALCOHOL': 'Alcool',
+  'category.DESSERT': 'Dessert',
+  'category.SHARED': 'Entrées à partager',
+  'category.KIDS': 'Menu enfant',
+
+  // Home
+  'home.tagline': 'Partage de reçus assisté par IA. Sans compte, les additions restent sur cet appareil.',
+  'home.language': 'Langue',
+  'home.reader': 'Lecteur de reçus',
+  'home.readText': 'Lire le texte du reçu',
+  'home.manual': 'Saisir le reçu à la main',
+  'home.scan': 'Scanner un reçu',
+  'home.upload': 'Importer depuis la galerie',
+  'home.continue': 'Reprendre {name}',
+  'home.currentBill': 'l’addition en cours',
+  'home.history': 'Historique des additions',
+  'home.settleUp': 'Faire les comptes',
+  'home.tryAgain': 'Réessayer',
+  'home.typeInstead': 'Saisir le reçu à la place',
+  'home.readFileFailed': 'Impossible de lire {file}.',
+
+  // Offline scans
+  'queue.title': 'Scans en attente',
+  'queue.offline': 'Vous êtes hors ligne. Les nouveaux scans sont gardés sur cet appareil et lus dès le retour de la connexion.',
+  'queue.scannedAt': 'Scanné {time}',
+  'queue.waiting': 'En attente de connexion',
+  'queue.reading': 'Lecture...',
+  'queue.failed': 'Lecture impossible : {reason}',
+  'queue.gaveUp': 'Pas de connexion au lecteur de reçus après {count} tentatives.',
+  'queue.ready': "Lu et enregistré dans l'historique",
+  'queue.readNow': 'Lire maintenant',
+  'queue.open': 'Ouvrir',
+  'queue.discard': 'Supprimer',
+  'queue.dismiss': 'Masquer',
+  'queue.missing': "Cette addition n'est plus dans l'historique.",
+
+  // Extractors
+  'extractor.gemini.description': 'Lit les photos de reçus avec Google Gemini. Nécessite une clé d’API et une connexion.',
+  'extractor.local.name': 'Analyseur de texte local',
+  'extractor.local.description': 'Analyse le texte du reçu que vous tapez ou collez. Fonctionne hors ligne, rien ne quitte votre appareil.',
+  'extractor.mock.name': 'Données de démonstration',
+  'extractor.mock.description': 'Renvoie un reçu d’exemple immédiatement. Pratique pour essayer l’app sans clé.',
+
+  // Processing
+  'processing.title': 'Analyse en cours',
+  'processing.analyzing': 'Analyse...',
+  'processing.reading': '{extractor} lit votre reçu...',
+  'processing.readingPhoto': '{extractor} lit la photo {page} sur {count}...',
+  'processing.retrying': '{reason} Nouvelle tentative ({attempt})...',
+
+  // Extraction errors
+  'extraction.cancelled': 'La lecture du reçu a été annulée.',
+  'extraction.malformed': 'L’analyse du reçu a renvoyé des données mal formées.',
+  'extraction.noKey': 'Aucune clé d’API Gemini n’est configurée. Ajoutez GEMINI_API_KEY ou choisissez un autre lecteur de reçus.',
+  'extraction.badKey': 'Gemini a refusé la clé d’API. Vérifiez GEMINI_API_KEY ou choisissez un autre lecteur de reçus.',
+  'extraction.quota': 'Le quota Gemini est épuisé pour le moment. Attendez une minute et réessayez.',
+  'extraction.badImage': 'Gemini n’a pas pu ouvrir cette image. Essayez une autre photo.',
+  'extraction.network': 'Impossible de joindre Gemini. Vérifiez votre connexion et réessayez.',
+  'extraction.service': 'Gemini rencontre un problème pour le moment. Réessayez dans un instant.',
+  'extraction.unexpected': 'Gemini n’a pas pu lire ce reçu ({detail}). Réessayez ou choisissez un autre lecteur de reçus.',
+  'extraction.needsPhoto': 'Gemini AI a besoin d’une photo du reçu.',
+  'extraction.invalidJson': 'La réponse de l’IA était tronquée ou n’était pas du JSON valide. Réessayez.',
+  'extraction.notReceipt': 'La réponse de l’IA n’était pas un reçu.',
+  'extraction.noUsableLines': 'Aucune ligne du reçu n’est revenue sous une forme exploitable.',
+  'extraction.unreadable': 'Aucun reçu n’a pu être lu sur cette photo. Vérifiez qu’elle est nette, bien éclairée et qu’elle remplit le cadre.',
+  'extraction.translationCut': 'La traduction est revenue tronquée. Réessayez.',
+  'extraction.translationMismatch': 'La traduction ne correspond pas aux articles du reçu. Réessayez.',
+  'extraction.noText': 'Collez ou tapez d’abord le texte du reçu.',
+  'extraction.noTextItems': 'Aucun article avec un prix n’a été trouvé dans ce texte.',
+
+  'field.expectedNumber': 'nombre attendu, reçu {value}',
+  'field.expectedText': 'texte attendu, reçu {type}',
+  'field.expectedObject': 'objet attendu',
+  'field.notObject': 'n’est pas un objet',
+  'field.missing': 'manquant',
+  'field.unknownAdjustment': 'type d’ajustement inconnu {value}',
+  'field.needsAmount': 'nécessite un montant ou un pourcentage',
+  'field.onPhoto': 'photo {number} : {path}',
+
+  // Images and camera
+  'image.unreadableFormat': 'Ce format d’image ne peut pas être lu ici.',
+  'image.noCanvas': 'Le traitement d’image n’est pas disponible dans ce navigateur.',
+  'image.heic': 'Les photos HEIC ne s’ouvrent pas dans ce navigateur. Partagez la photo en JPEG ou utilisez le bouton de l’appareil photo.',
+  'image.unsupported': 'Cette image ({type}) ne peut pas être lue dans ce navigateur.',
+  'camera.noAccess': 'Impossible d’accéder à l’appareil photo. Vérifiez les autorisations.',
+  'camera.overlapHint': 'Photo {number} : faites chevaucher les dernières lignes de la photo précédente',
+  'camera.photoAlt': 'Photo {number}',
+  'camera.done': 'Terminé',
+  'camera.doneCount': 'Terminé ({count})',
+  'preview.title': { one: 'Vérifier la photo', other: 'Vérifier les photos' },
+  'preview.enhance': 'Améliorer le texte',
+  'preview.photoAlt': 'Photo du reçu {number}',
+  'preview.position': '{number} sur {count}',
+  'preview.size': '{size} Ko',
+  'preview.converted': 'converti depuis {format}',
+  'preview.preparing': 'Préparation...',
+  'preview.read': 'Lire le reçu',
+  'preview.retake': 'Reprendre',
+
+  // Confirm and edit
+  'confirm.reconciled': 'Totaux vérifiés',
+  'confirm.needsReview': 'Totaux à vérifier',
+  'confirm.claimMine': 'Choisir mes articles',
+  'confirm.splitTable': 'Partager pour toute la table',
+  'confirm.share': 'Partager le lien avec des amis',
+  'confirm.edit': 'Vérifier et modifier les articles',
+  'confirm.reset': 'Réinitialiser',
+  'confirm.review': 'Vérifier le reçu',
+  'confirm.fieldErrors': 'Certaines parties du reçu n’ont pas pu être lues et ont été ignorées',
+  'confirm.moreFieldErrors': '…et {count} de plus. Comparez les articles avec votre reçu.',
+  'confirm.unknownCurrency': '« {currency} » n’est pas un code de devise. Les montants sont arrondis à 2 décimales tant que vous n’avez pas indiqué la bonne.',
+  'confirm.setCurrency': 'Indiquer la devise',
+  'confirm.toCheck': { one: '{count} valeur à vérifier', other: '{count} valeurs à vérifier' },
+  'confirm.readFromPhoto': 'Lu sur votre photo',
+  'reconcile.title': 'Les montants de ce reçu ne concordent pas',
+  'reconcile.lineTotal': '« {item} » : {quantity} × {unitPrice} = {expected}, mais le total de la ligne indique {actual}',
+  'reconcile.itemsVsSubtotal': 'Les articles totalisent {items}, mais le sous-total indique {subtotal}',
+  'reconcile.subtotalVsTotal': 'Sous-total + taxes + pourboire font {computed}, mais le total indique {total}',
+  'reconcile.subtotalVsTotalAdjusted': 'Sous-total + taxes + pourboire + ajustements font {computed}, mais le total indique {total}',
+  'source.confidence': 'Lu avec une confiance de {percent}.',
+  'source.confidenceOnPhoto': 'Lu avec une confiance de {percent} sur la photo {number}.',
+  'source.noBox': 'Le lecteur de reçus n’a pas indiqué où cela se trouvait sur la photo.',
+  'source.cropping': 'Recadrage...',
+  'source.alt': 'Zone de la photo pour {label}',
+  'editor.restaurant': 'Restaurant',
+  'editor.restaurantPlaceholder': 'Nom du restaurant',
+  'editor.currency': 'Devise',
+  'editor.unknownCurrency': 'Ce n’est pas un code de devise. Saisissez le code à 3 lettres, p. ex. SEK.',
+  'editor.date': 'Date',
+  'editor.quantity': 'Qté',
+  'editor.price': 'Prix',
+  'editor.category': 'Type',
+  'editor.categoryAuto': 'Auto ({category})',
+  'editor.split': 'Diviser',
+  'editor.merge': 'Fusionner ↓',
+  'editor.newItem': 'Nouvel article',
+  'editor.addItem': '+ Ajouter un article',
+  'editor.adjustments': 'Ajustements',
+  'editor.wholeBill': 'Toute l’addition',
+  'editor.addAdjustment': '+ Ajouter une remise, des frais ou une taxe',
+  'editor.done': 'Terminer la modification',
+
+  // Language
+  'language.translated': 'Traduit',
+  'language.original': 'Original',
+  'language.translateTo': 'Traduire en…',
+  'language.translating': 'Traduction...',
+
+  // Selecting items
+  'select.title': 'Choisir les articles',
+  'select.myShare': 'Ma part',
+  'select.share': 'Part',
+  'select.of': 'sur',
+  'select.sendClaim': 'Envoyer mon choix',
+  'select.viewSummary': 'Voir le récapitulatif',
+  'table.title': 'Attribuer les articles',
+  'table.unclaimed': 'Non attribué',
+  'table.addDiner': 'Ajouter un convive',
+  'table.tapHint': 'Touchez un nom, puis les articles que cette personne a pris.',
+  'table.claimPlaceholder': 'Collez le code ou le lien d’un ami',
+  'table.addClaim': 'Ajouter le choix',
+  'table.conflicts': { one: '{count} article a des choix contradictoires.', other: '{count} articles ont des choix contradictoires.' },
+  'table.ways': 'à {count}',
+  'table.byRule': 'Par règle : {rule}',
+  'table.viewSummary': 'Voir le récapitulatif de la table',
+
+  // Claims
+  'claim.title': 'Envoyer mon choix',
+  'claim.summary': {
+    one: '{count} article choisi. L’organisateur ajoute votre choix au partage de la table.',
+    other: '{count} articles choisis. L’organisateur ajoute votre choix au partage de la table.'
+  },
+  'claim.namePlaceholder': 'Votre nom',
+  'claim.create': 'Créer et copier le lien',
+  'claim.copied': 'Lien copié. Envoyez-le à l’organisateur ou lisez-lui le code ci-dessous.',
+  'claim.failed': 'Impossible de créer le choix dans ce navigateur.',
+  'claim.added': 'Choix de {name} ajouté.',
+  'claim.addedMissing': {
+    one: 'Choix de {name} ajouté. {count} article choisi ne figure plus sur ce reçu.',
+    other: 'Choix de {name} ajouté. {count} articles choisis ne figurent plus sur ce reçu.'
+  },
+  'claim.unknownBill': 'Ce choix concerne une addition qui n’est pas enregistrée sur cet appareil.',
+  'claim.noName': 'Le choix ne comporte pas de nom.',
+  'conflict.unclaimed': 'Personne n’a choisi cet article.',
+  'conflict.overClaimed': 'Les parts font {claimed} sur {total}, plus que l’article entier.',
+  'conflict.underClaimed': 'Seulement {claimed} sur {total} ont été choisis.',
+
+  // Split rules
+  'rule.title': 'Règles de partage',
+  'rule.hint': 'Les règles s’appliquent à des types d’articles entiers et priment sur ce qui est coché plus bas.',
+  'rule.kindShareEqually': 'Tout le monde partage',
+  'rule.kindOnlyAmong': 'Seulement certains',
+  'rule.kindCover': 'Ne paie rien',
+  'rule.pickDiner': 'Qui ?',
+  'rule.add': 'Ajouter',
+  'rule.remove': 'Supprimer la règle',
+  'rule.shareEqually': '{category} : entre tout le monde',
+  'rule.onlyAmong': '{category} : seulement {names}',
+  'rule.cover': '{name} ne paie rien',
+
+  // Summary
+  'summary.unclaimed': '{amount} encore non attribué',
+  'summary.roundingSpread': 'L’arrondi de {amount} a été réparti entre les convives pour que le partage corresponde à l’addition.',
+  'summary.taxProportional': 'Taxes (prop.)',
+  'summary.tipProportional': 'Pourboire (prop.)',
+  'summary.tipEqual': 'Pourboire (égal)',
+  'summary.tipOwn': 'Pourboire (% perso)',
+  'summary.ownPlaceholder': '% perso',
+  'summary.included': '{label} (incl.)',
+  'summary.rounding': 'Arrondi',
+  'summary.coveredByTable': 'Invité par la table',
+  'summary.covering': 'Part de {name}',
+  'summary.billTotal': 'Total de l’addition',
+  'summary.yourTotal': 'Votre total',
+  'summary.showIn': 'Afficher ma part en',
+  'summary.noRate': 'Aucun taux {from} → {to} saisi',
+  'summary.converted': '≈ {amount} · 1 {from} = {rate} {to} ({date})',
+  'summary.shareLink': 'Partager le lien',
+  'summary.settled': 'Réglée ✓',
+  'summary.markSettled': 'Marquer comme réglée',
+  'summary.newBill': 'Nouvelle addition',
+  'tip.title': 'Pourboire',
+  'tip.receipt': 'Reçu ({amount})',
+  'tip.none': 'Sans pourboire',
+  'tip.customPercent': '% personnalisé',
+  'tip.customAmount': '{currency} personnalisé',
+  'tip.onSubtotal': 'Sur le sous-total',
+  'tip.onTotal': 'Sur le total TTC',
+  'tip.proportional': 'Proportionnel',
+  'tip.equal': 'À parts égales',
+  'tip.splitBetween': 'Partager entre',
+  'tip.people': { one: '{count} personne', other: '{count} personnes' },
+  'payer.title': 'Qui a payé ?',
+  'payer.fullyPaid': 'Entièrement payée',
+  'payer.unpaid': '{amount} non payé',
+  'payer.overpaid': '{amount} payé en trop',
+  'payer.paidAll': 'A tout payé',
+  'rates.title': 'Taux de change',
+  'rates.empty': 'Aucun taux pour l’instant. Ajoutez-en un pour voir les parts dans une autre devise.',
+  'rates.remove': 'Retirer',
+  'rates.add': 'Ajouter',
+  'rates.pastePlaceholder': 'Collez des taux, p. ex.\nEUR 0.92\n{currency},GBP,0.79,2026-10-12',
+  'rates.import': 'Importer les taux collés',
+  'rates.imported': { one: '{count} taux importé.', other: '{count} taux importés.' },
+  'rates.noneFound': 'Aucun taux trouvé dans ce texte.',
+
+  // Sharing
+  'share.title': 'Partager le reçu',
+  'share.lock': 'Protéger par une phrase secrète',
+  'share.openWarning': 'Toute personne qui voit un lien ouvert peut lire le reçu qu’il contient.',
+  'share.creating': 'Création...',
+  'share.create': 'Créer et copier le lien',
+  'share.copied': 'Lien copié.',
+  'share.lockedCopied': 'Lien protégé copié. Envoyez la phrase secrète séparément.',
+  'share.failed': 'Impossible de créer le lien dans ce navigateur.',
+  'unlock.title': 'Reçu protégé',
+  'unlock.body': 'Ce reçu partagé est protégé. Saisissez la phrase secrète qu’on vous a donnée.',
+  'unlock.working': 'Déverrouillage...',
+  'unlock.unlock': 'Déverrouiller',
+  'link.invalidReceipt': 'Le lien partagé ne contient pas de reçu valide.',
+  'link.invalid': 'Le lien partagé est invalide ou a été falsifié.',
+  'link.damaged': 'Le lien partagé est incomplet ou endommagé.',
+  'link.newerFormat': 'Ce lien utilise le format v{version}, que cette version de BillSplit Pro ne sait pas lire. Essayez de mettre l’app à jour.',
+  'link.noCompression': 'Ce navigateur ne peut pas ouvrir les liens compressés.',
+  'link.wrongPassphrase': 'Phrase secrète incorrecte, ou le lien a été modifié.',
+  'link.notClaim': 'Cela ne ressemble pas à un code de choix.',
+  'link.newerClaimFormat': 'Ce choix utilise le format v{version}, que cette version de BillSplit Pro ne sait pas lire.',
+  'link.claimDamaged': 'Le code de choix est incomplet ou endommagé.',
+
+  // Export and import
+  'export.title': 'Exporter',
+  'export.csv': 'Télécharger en CSV',
+  'export.json': 'Télécharger en JSON',
+  'export.print': 'Imprimer les reçus',
+  'export.printOne': 'Imprimer',
+  'export.requests': 'Demandes de paiement',
+  'export.noPayer': 'Indiquez qui a payé pour obtenir une demande de paiement pour les autres.',
+  'export.copy': 'Copier',
+  'export.copied': 'Copié',
+  'export.request': '{from} : tu dois {amount} à {to} pour {restaurant} le {date}',
+  'export.requestNoDate': '{from} : tu dois {amount} à {to} pour {restaurant}',
+  'export.payTo': '(paiement à {handle})',
+  'export.printedFor': 'Reçu de {name}',
+  'export.import': 'Importer une addition',
+  'export.imported': '{name} importé.',
+  'export.notJson': 'Ce fichier n’est pas du JSON valide.',
+  'export.notBill': 'Ce fichier n’est pas une addition exportée par BillSplit Pro.',
+  'export.newerFormat': 'Cette addition a été exportée au format v{version}, que cette version de BillSplit Pro ne sait pas lire.',
+  'export.invalidReceipt': 'L’addition exportée ne contient pas de reçu valide.',
+  'summary.you': 'Vous',
+
+  // Groups
+  'group.title': 'Groupes',
+  'group.pick': 'Qui mange ?',
+  'group.none': 'Choisir les convives plus tard',
+  'group.newPlaceholder': 'Nouveau groupe, ex. déjeuner du vendredi',
+  'group.create': 'Créer',
+  'group.add': 'Ajouter',
+  'group.empty': "Aucun groupe pour l'instant. Créez-en un pour les personnes avec qui vous mangez souvent.",
+  'group.noMembers': "Aucun membre pour l'instant.",
+  'group.memberName': 'Nom',
+  'group.removeMember': 'Retirer {name}',
+  'group.addMember': 'Ajouter un membre',
+  'group.initials': 'Initiales',
+  'group.currency': 'Devise',
+  'group.paymentHandle': 'Compte de paiement',
+  'group.noAlcohol': "Ne boit pas d'alcool",
+  'group.excludeWords': 'Exclure aussi les lignes avec : dessert, café',
+  'group.export': 'Exporter',
+  'group.import': 'Importer',
+  'group.imported': { one: '{count} groupe importé.', other: '{count} groupes importés.' },
+  'group.notGroups': "Ce fichier n'est pas un export de groupes BillSplit Pro.",
+  'group.newerFormat': 'Ces groupes ont été exportés au format v{version}, que cette version de BillSplit Pro ne sait pas lire.',
+
+  // History and settling up
+  'history.search': 'Rechercher un restaurant ou une date (2026-10)',
+  'history.empty': 'Aucune addition enregistrée pour l’instant.',
+  'history.noMatch': 'Aucune addition ne correspond à votre recherche.',
+  'history.items': { one: '{count} article', other: '{count} articles' },
+  'history.diners': { one: '{count} convive', other: '{count} convives' },
+  'history.reopen': 'Rouvrir',
+  'history.unavailable': 'L’historique des additions n’est pas disponible dans ce navigateur.',
+  'history.openFailed': 'Impossible d’ouvrir l’historique des additions.',
+  'history.aborted': 'L’opération sur l’historique a été interrompue.',
+  'settle.bills': 'Additions',
+  'settle.noBills': 'Partagez une addition pour toute la table et indiquez qui a payé pour faire les comptes.',
+  'settle.paidBy': 'Payé par {names}',
+  'settle.noPayer': 'Aucun payeur indiqué',
+  'settle.balances': 'Soldes ({currency})',
+  'settle.getsBack': 'récupère {amount}',
+  'settle.owes': 'doit {amount}',
+  'settle.transfers': 'Virements',
+  'settle.pickBills': 'Choisissez les additions à régler.',
+  'settle.allSettled': 'Tout le monde est quitte.',
+  'settle.markPaid': 'Marquer payé',
+  'settle.export': 'Exporter en texte',
+  'settle.markBills': { one: 'Marquer {count} addition comme réglée', other: 'Marquer {count} additions comme réglées' },
+  'settle.transfer': '{from} verse {amount} à {to}',
+  'settle.alreadyPaid': 'Déjà payé :',
+  'settle.copied': 'Récapitulatif copié.',
+  'settle.copyPrompt': 'Copiez le récapitulatif des comptes :'
+};
@@ -0,0 +1,41 @@
+import { ReceiptData, ReceiptExtractor } from "../types";
+import { cancelledError } from "./extractionErrors";
+import { t } from "./i18n";
+
+export const SAMPLE_RECEIPT: ReceiptData = {
+  restaurantName: "Demo Bistro",
+  date: "2026-10-12",
+  currency: "USD",
+  items: [
+    { id: "item-0", quantity: 1, description: "Margherita Pizza", price: 14 },
+    { id: "item-1", quantity: 2, description: "Craft Beer", price: 13, unitPrice: 6.5, source: { confidence: 0.62 } },
+    { id: "item-2", quantity: 1, description: "Caesar Salad", price: 9.5 },
+    { id: "item-3", quantity: 1, description: "Tiramisu", price: 7.5 }
+  ],
+  subtotal: 44,
+  tax: 3.52,
+  tip: 0,
+  total: 47.52,
+  adjustments: []
+};
+
+/**
+ * Backend that resolves to a fixed receipt without touching the network.
+ * Used for demos and tests; pass `data` or `error` to script the outcome.
+ */
+export const createMockExtractor = (data: ReceiptData = SAMPLE_RECEIPT, error?: Error, delayMs = 600): ReceiptExtractor => ({
+  id: 'mock',
+  get name() { return t('extractor.mock.name'); },
+  get description() { return t('extractor.mock.description'); },
+  input: 'image',
+  offline: true,
+  extract: ({ signal }) => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => (error ? reject(error) : resolve(JSON.parse(JSON.stringify(data)))), delayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    }, { once: true });
+  })
+});
+
+export const mockExtractor = createMockExtractor();
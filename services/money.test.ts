@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { allocate, currencyDecimals, formatMinor, fromMinor, parseAmount, sumMinor, toMinor } from "./money";
+
+describe('allocate', () => {
+  it('always sums exactly to the total', () => {
+    for (let n = 1; n <= 12; n++) {
+      [0, 1, 7, 100, 9999, 100001].forEach(total => {
+        const equal = allocate(total, Array(n).fill(1));
+        const uneven = allocate(total, Array.from({ length: n }, (_, k) => k * 1.7 + 0.3));
+        expect(sumMinor(equal)).toBe(total);
+        expect(sumMinor(uneven)).toBe(total);
+        equal.forEach(share => expect(Number.isInteger(share)).toBe(true));
+      });
+    }
+  });
+
+  it('splits by weight, leftovers to the largest remainders', () => {
+    expect(allocate(1000, [3, 1])).toEqual([750, 250]);
+    expect(allocate(100, [1, 2, 2])).toEqual([20, 40, 40]);
+    expect(allocate(10, [1, 1, 1.1])).toEqual([3, 3, 4]);
+  });
+
+  it('gives tied leftovers to the lower index', () => {
+    expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocate(2, [1, 1, 1])).toEqual([1, 1, 0]);
+    expect(allocate(5, [1, 0, 1, 1])).toEqual([2, 0, 2, 1]);
+  });
+
+  it('splits negative totals by magnitude', () => {
+    expect(allocate(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+    expect(sumMinor(allocate(-999, [2, 3, 5]))).toBe(-999);
+  });
+
+  it('splits evenly when every weight is zero', () => {
+    expect(allocate(10, [0, 0, 0])).toEqual([4, 3, 3]);
+    expect(allocate(10, [0, -1, NaN])).toEqual([4, 3, 3]);
+  });
+
+  it('treats negative and non-finite weights as zero', () => {
+    expect(allocate(10, [1, -5, Infinity, 1])).toEqual([5, 0, 0, 5]);
+  });
+
+  it('returns nothing for no weights', () => {
+    expect(allocate(100, [])).toEqual([]);
+  });
+});
+
+describe('toMinor', () => {
+  it('avoids binary float slips', () => {
+    expect(toMinor(1.005, 2)).toBe(101);
+    expect(toMinor(0.1 + 0.2, 2)).toBe(30);
+    expect(toMinor(8.675, 2)).toBe(868);
+  });
+
+  it('uses the currency minor unit', () => {
+    expect(toMinor(1234, 0)).toBe(1234);
+    expect(toMinor(1234.5, 0)).toBe(1235);
+    expect(toMinor(1.2345, 3)).toBe(1235);
+    expect(toMinor(0.001, 3)).toBe(1);
+  });
+
+  it('handles negatives, tiny exponents and garbage', () => {
+    expect(toMinor(-2.5, 2)).toBe(-250);
+    expect(toMinor(1e-7, 2)).toBe(0);
+    expect(toMinor(NaN, 2)).toBe(0);
+    expect(toMinor(Infinity, 2)).toBe(0);
+  });
+});
+
+describe('currencyDecimals', () => {
+  it('knows zero- and three-decimal currencies', () => {
+    expect(currencyDecimals('JPY')).toBe(0);
+    expect(currencyDecimals('krw')).toBe(0);
+    expect(currencyDecimals('BHD')).toBe(3);
+    expect(currencyDecimals(' kwd ')).toBe(3);
+  });
+
+  it('reads yen symbols and defaults to two', () => {
+    expect(currencyDecimals('¥')).toBe(0);
+    expect(currencyDecimals('USD')).toBe(2);
+    expect(currencyDecimals('')).toBe(2);
+  });
+});
+
+describe('fromMinor and formatMinor', () => {
+  it('round-trip with the right number of places', () => {
+    expect(fromMinor(toMinor(12.34, 2), 2)).toBe(12.34);
+    expect(formatMinor(1500, 0)).toBe('1500');
+    expect(formatMinor(1500, 3)).toBe('1.500');
+    expect(formatMinor(-5, 2)).toBe('-0.05');
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads either decimal separator and thousands groups', () => {
+    expect(parseAmount('12,50')).toBe(12.5);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1,250')).toBe(1250);
+    expect(parseAmount('-3,5 €')).toBe(-3.5);
+  });
+
+  it('gives NaN when there is no digit to read', () => {
+    expect(parseAmount('')).toBeNaN();
+    expect(parseAmount('free')).toBeNaN();
+  });
+});
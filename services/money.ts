@@ -0,0 +1,90 @@
+/**
+ * Money helpers working in integer minor units (cents, yen, fils) so that
+ * splitting a bill never loses or invents a fraction of a unit.
+ */
+
+/** ISO 4217 codes whose minor unit is not 1/100. Everything else uses 2 decimals. */
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3
+};
+
+/** Symbols the AI sometimes returns instead of a code. */
+const SYMBOL_DECIMALS: Record<string, number> = {
+  '¥': 0, '￥': 0, '円': 0, '₩': 0, '₫': 0
+};
+
+export const currencyDecimals = (currency: string): number => {
+  const trimmed = (currency || '').trim();
+  const code = trimmed.toUpperCase();
+  if (code in CURRENCY_DECIMALS) return CURRENCY_DECIMALS[code];
+  if (trimmed in SYMBOL_DECIMALS) return SYMBOL_DECIMALS[trimmed];
+  return 2;
+};
+
+/**
+ * Converts a decimal amount to integer minor units. Shifting the exponent in
+ * the string form avoids binary float slips such as 1.005 * 100 = 100.4999.
+ */
+export const toMinor = (amount: number, decimals: number): number => {
+  if (!Number.isFinite(amount)) return 0;
+  const shifted = Number(`${amount}e${decimals}`);
+  return Math.round(Number.isFinite(shifted) ? shifted : amount * Math.pow(10, decimals));
+};
+
+/**
+ * Reads "1.234,56", "1,234.56" and "12,50" the way the receipt meant them.
+ * Symbols, codes and spaces around the digits are ignored; no digits at all is NaN.
+ */
+export const parseAmount = (raw: string): number => {
+  const cleaned = raw.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return NaN;
+  const lastSep = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+  if (lastSep === -1) return Number(cleaned);
+  const decimals = cleaned.length - lastSep - 1;
+  // Three digits after the only separator is a thousands group ("1,250"), not decimals
+  if (decimals === 3 && cleaned.replace(/[^.,]/g, '').length === 1) return Number(cleaned.replace(/[.,]/g, ''));
+  const integer = cleaned.slice(0, lastSep).replace(/[.,]/g, '');
+  return Number(`${integer}.${cleaned.slice(lastSep + 1)}`);
+};
+
+export const fromMinor = (minor: number, decimals: number): number => minor / Math.pow(10, decimals);
+
+export const formatMinor = (minor: number, decimals: number): string => fromMinor(minor, decimals).toFixed(decimals);
+
+export const sumMinor = (values: number[]): number => values.reduce((acc, v) => acc + v, 0);
+
+/**
+ * Splits `total` minor units across `weights` using the largest-remainder
+ * method: every share gets the floor of its exact quota, then the leftover
+ * units go to the largest fractional remainders (ties to the lower index).
+ * The result always sums exactly to `total`.
+ *
+ * Negative weights count as zero. If every weight is zero the amount is
+ * split evenly. Negative totals (discounts) are split by magnitude.
+ */
+export const allocate = (total: number, weights: number[]): number[] => {
+  if (weights.length === 0) return [];
+  if (total < 0) return allocate(-total, weights).map(v => (v === 0 ? 0 : -v));
+
+  const clean = weights.map(w => (Number.isFinite(w) && w > 0 ? w : 0));
+  const weightSum = sumMinor(clean);
+  const effective = weightSum > 0 ? clean : clean.map(() => 1);
+  const effectiveSum = weightSum > 0 ? weightSum : clean.length;
+
+  const quotas = effective.map(w => (total * w) / effectiveSum);
+  // The epsilon keeps exact quotas like 299.99999999 from flooring a whole unit short
+  const shares = quotas.map(q => Math.floor(q + 1e-9));
+  let remaining = total - sumMinor(shares);
+
+  const order = quotas
+    .map((q, index) => ({ index, remainder: q - shares[index], weight: effective[index] }))
+    .filter(entry => entry.weight > 0)
+    .sort((a, b) => (b.remainder - a.remainder) || (a.index - b.index));
+
+  for (let i = 0; remaining > 0 && order.length > 0; i++, remaining--) {
+    shares[order[i % order.length].index] += 1;
+  }
+  return shares;
+};
@@ -0,0 +1,93 @@
+import { ExtractedReceipt, FieldError, FieldSource, ReceiptAdjustment, ReceiptData, ReceiptItem, TotalField } from "../types";
+import { t } from "./i18n";
+
+/** Two lines are the same printed line if description, quantity and price match, ignoring case and punctuation. */
+const lineKey = (item: ReceiptItem): string =>
+  `${item.description.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')}|${item.quantity}|${Math.round(item.price * 100)}`;
+
+/**
+ * Number of items at the end of `previous` repeated at the start of `next`.
+ * Consecutive photos of a long receipt usually overlap by a few lines; only
+ * that seam is checked, so genuinely repeated lines elsewhere survive.
+ */
+const overlapLength = (previous: ReceiptItem[], next: ReceiptItem[]): number => {
+  const max = Math.min(previous.length, next.length);
+  for (let k = max; k > 0; k--) {
+    let matches = true;
+    for (let i = 0; i < k && matches; i++) {
+      matches = lineKey(previous[previous.length - k + i]) === lineKey(next[i]);
+    }
+    if (matches) return k;
+  }
+  return 0;
+};
+
+/**
+ * Stitches receipts read from consecutive photos into one. Header fields come
+ * from the first page that has them and totals from the last (they're printed
+ * at the bottom). Item and adjustment IDs are reissued so pages can't collide,
+ * and value sources are tagged with the photo they came from.
+ */
+export const mergeReceiptPages = (pages: ExtractedReceipt[]): ExtractedReceipt => {
+  if (pages.length === 1) return pages[0];
+  const stamp = Date.now();
+  const items: ReceiptItem[] = [];
+  const adjustments: ReceiptAdjustment[] = [];
+  let previous: ReceiptItem[] = [];
+
+  pages.forEach((page, pageIndex) => {
+    const idMap: Record<string, string> = {};
+    const skip = overlapLength(previous, page.items);
+    page.items.forEach((item, idx) => {
+      if (idx < skip) {
+        // Point the duplicate at the copy already kept from the previous page
+        idMap[item.id] = items[items.length - skip + idx].id;
+        return;
+      }
+      const id = `item-${items.length}-${stamp}`;
+      idMap[item.id] = id;
+      items.push({ ...item, id, ...(item.source ? { source: { ...item.source, page: pageIndex } } : {}) });
+    });
+    previous = page.items;
+
+    (page.adjustments || []).forEach(adj => {
+      const duplicate = adjustments.some(a => a.type === adj.type && a.label === adj.label && a.amount === adj.amount && a.percentage === adj.percentage);
+      if (duplicate) return;
+      adjustments.push({
+        ...adj,
+        id: `adj-${adjustments.length}-${stamp}`,
+        itemIds: (adj.itemIds || []).map(id => idMap[id]).filter(Boolean)
+      });
+    });
+  });
+
+  const first = <K extends keyof ReceiptData>(key: K) => pages.find(p => p[key])?.[key] ?? pages[0][key];
+  const lastPage = (key: TotalField) => {
+    for (let idx = pages.length - 1; idx >= 0; idx--) if (Number(pages[idx][key]) > 0) return idx;
+    return -1;
+  };
+  const last = (key: TotalField) => (lastPage(key) >= 0 ? pages[lastPage(key)][key] : 0);
+  const totalSources: Partial<Record<TotalField, FieldSource>> = {};
+  (['subtotal', 'tax', 'tip', 'total'] as TotalField[]).forEach(key => {
+    const idx = lastPage(key);
+    const source = idx >= 0 ? pages[idx].totalSources?.[key] : undefined;
+    if (source) totalSources[key] = { ...source, page: idx };
+  });
+  const fieldErrors: FieldError[] = pages.flatMap((page, idx) =>
+    (page.fieldErrors || []).map(error => ({ ...error, path: t('field.onPhoto', { number: idx + 1, path: error.path }) })));
+
+  return {
+    restaurantName: first('restaurantName'),
+    date: first('date'),
+    currency: first('currency'),
+    ...(first('language') ? { language: first('language') } : {}),
+    items,
+    subtotal: last('subtotal'),
+    tax: last('tax'),
+    tip: last('tip'),
+    total: last('total'),
+    adjustments,
+    ...(Object.keys(totalSources).length > 0 ? { totalSources } : {}),
+    ...(fieldErrors.length > 0 ? { fieldErrors } : {})
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { t } from "./i18n";
+import { parseModelReceipt } from "./receiptSchema";
+
+const parse = (data: Record<string, unknown>) =>
+  parseModelReceipt(JSON.stringify({ restaurantName: 'Bistro', items: [{ quantity: 1, description: 'Soup', price: 5 }], total: 5, ...data }));
+
+describe('parseModelReceipt', () => {
+  it('reads numbers sent as strings with either decimal separator', () => {
+    const receipt = parse({ subtotal: '12,50', tax: '1.234,56 €', tip: '$1,250', total: '12.50' });
+    expect([receipt.subtotal, receipt.tax, receipt.tip, receipt.total]).toEqual([12.5, 1234.56, 1250, 12.5]);
+    expect(receipt.fieldErrors).toBeUndefined();
+  });
+
+  it('reads comma decimals in item prices', () => {
+    const receipt = parse({ items: [{ quantity: '2', description: 'Bier', price: '7,80', unitPrice: '3,90' }] });
+    expect(receipt.items[0]).toMatchObject({ quantity: 2, price: 7.8, unitPrice: 3.9 });
+  });
+
+  it('reports strings without a number instead of reading them as zero', () => {
+    const receipt = parse({ tax: 'n/a' });
+    expect(receipt.tax).toBe(0);
+    expect(receipt.fieldErrors).toEqual([{ path: 'tax', message: t('field.expectedNumber', { value: '"n/a"' }) }]);
+  });
+
+  it('reports a missing item list in the UI language', () => {
+    const receipt = parseModelReceipt(JSON.stringify({ restaurantName: 'Bistro', total: 5 }));
+    expect(receipt.fieldErrors).toEqual([{ path: 'items', message: t('field.missing') }]);
+  });
+});
@@ -0,0 +1,173 @@
+import { ADJUSTMENT_TYPES, AdjustmentType, BoundingBox, ExtractedReceipt, FieldError, FieldSource, ReceiptAdjustment, ReceiptItem, TotalField } from "../types";
+import { ExtractionError } from "./extractionErrors";
+import { t } from "./i18n";
+import { isItemCategory } from "./itemCategories";
+import { parseAmount } from "./money";
+
+/**
+ * Runtime checks for what the model sends back. The response schema asks
+ * for the right shape, but the model can still skip fields, send strings for
+ * numbers or cut the JSON short, so nothing is trusted until it passes here.
+ */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Accepts numbers and numeric strings ("12.50", "12,50", "1.234,56 €"); anything else is reported. */
+const readNumber = (value: unknown, path: string, errors: FieldError[], fallback?: number): number | undefined => {
+  if (value === undefined || value === null) return fallback;
+  const number = typeof value === 'string' ? parseAmount(value) : value;
+  if (typeof number === 'number' && Number.isFinite(number)) return number;
+  errors.push({ path, message: t('field.expectedNumber', { value: JSON.stringify(value) }) });
+  return fallback;
+};
+
+const readString = (value: unknown, path: string, errors: FieldError[], fallback = ''): string => {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value === 'string') return value;
+  errors.push({ path, message: t('field.expectedText', { type: typeof value }) });
+  return fallback;
+};
+
+/** Gemini boxes are [ymin, xmin, ymax, xmax] on a 0-1000 grid. */
+const readBox = (value: unknown): BoundingBox | undefined => {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) return undefined;
+  const [ymin, xmin, ymax, xmax] = value.map(v => Math.min(1000, Math.max(0, v)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+/**
+ * Confidence and box are hints, not data: a malformed one is dropped
+ * quietly instead of being reported as a field the user has to fix.
+ */
+const readSource = (raw: Record<string, unknown>): FieldSource | undefined => {
+  const confidence = typeof raw.confidence === 'number' && Number.isFinite(raw.confidence)
+    ? Math.min(1, Math.max(0, raw.confidence))
+    : undefined;
+  const box = readBox(raw.box_2d);
+  if (confidence === undefined && !box) return undefined;
+  return { ...(confidence !== undefined ? { confidence } : {}), ...(box ? { box } : {}) };
+};
+
+const readTotalSources = (raw: unknown): Partial<Record<TotalField, FieldSource>> | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const sources: Partial<Record<TotalField, FieldSource>> = {};
+  (['subtotal', 'tax', 'tip', 'total'] as TotalField[]).forEach(field => {
+    const source = isRecord(raw[field]) ? readSource(raw[field] as Record<string, unknown>) : undefined;
+    if (source) sources[field] = source;
+  });
+  return Object.keys(sources).length > 0 ? sources : undefined;
+};
+
+const readItem = (raw: unknown, index: number, id: string, errors: FieldError[]): ReceiptItem | null => {
+  const path = `items[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({ path, message: t('field.notObject') });
+    return null;
+  }
+  const lineErrors: FieldError[] = [];
+  const description = readString(raw.description, `${path}.description`, lineErrors).trim();
+  const price = readNumber(raw.price, `${path}.price`, lineErrors);
+  const quantity = readNumber(raw.quantity, `${path}.quantity`, lineErrors, 1);
+  const unitPrice = readNumber(raw.unitPrice, `${path}.unitPrice`, lineErrors);
+  const originalDescription = readString(raw.originalDescription, `${path}.originalDescription`, lineErrors).trim();
+  if (!description) lineErrors.push({ path: `${path}.description`, message: t('field.missing') });
+  if (price === undefined) lineErrors.push({ path: `${path}.price`, message: t('field.missing') });
+  errors.push(...lineErrors);
+  // A line without a name or price can't be split; drop it and keep the rest
+  if (!description || price === undefined) return null;
+  const source = readSource(raw);
+  // Like confidence, the category is a hint: an unknown one leaves the keywords to decide
+  const category = typeof raw.category === 'string' ? raw.category.toUpperCase() : undefined;
+  return {
+    id,
+    quantity: quantity !== undefined && quantity > 0 ? quantity : 1,
+    description,
+    price,
+    ...(unitPrice !== undefined && unitPrice > 0 ? { unitPrice } : {}),
+    ...(originalDescription && originalDescription !== description ? { originalDescription } : {}),
+    ...(isItemCategory(category) ? { category } : {}),
+    ...(source ? { source } : {})
+  };
+};
+
+const readAdjustment = (raw: unknown, index: number, id: string, itemIds: (string | null)[], errors: FieldError[]): ReceiptAdjustment | null => {
+  const path = `adjustments[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({ path, message: t('field.notObject') });
+    return null;
+  }
+  const type = raw.type as AdjustmentType;
+  if (!ADJUSTMENT_TYPES.some(t => t.code === type)) {
+    errors.push({ path: `${path}.type`, message: t('field.unknownAdjustment', { value: JSON.stringify(raw.type) }) });
+    return null;
+  }
+  const amount = readNumber(raw.amount, `${path}.amount`, errors);
+  const percentage = readNumber(raw.percentage, `${path}.percentage`, errors);
+  if (amount === undefined && percentage === undefined) {
+    errors.push({ path, message: t('field.needsAmount') });
+    return null;
+  }
+  // Scope comes back as item positions; map them onto the generated IDs
+  const indexes = Array.isArray(raw.itemIndexes) ? raw.itemIndexes : [];
+  return {
+    id,
+    type,
+    label: readString(raw.label, `${path}.label`, errors, type),
+    ...(amount !== undefined ? { amount: Math.abs(amount) } : { percentage: Math.abs(percentage!) }),
+    itemIds: indexes.map((i: unknown) => (typeof i === 'number' ? itemIds[i] : null)).filter((id): id is string => !!id)
+  };
+};
+
+/**
+ * Turns the model's JSON text into a receipt. Bad lines are dropped and
+ * listed in `fieldErrors`; only a response with nothing usable throws.
+ */
+export const parseModelReceipt = (text: string): ExtractedReceipt => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.invalidJson'));
+  }
+  if (!isRecord(raw)) {
+    throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.notReceipt'), [{ path: '', message: t('field.expectedObject') }]);
+  }
+
+  const errors: FieldError[] = [];
+  const stamp = Date.now();
+  const rawItems = Array.isArray(raw.items) ? raw.items : [];
+  if (!Array.isArray(raw.items)) errors.push({ path: 'items', message: t('field.missing') });
+
+  // Keep positions aligned with the model's indexes so adjustment scopes still line up
+  const positioned = rawItems.map((item, index) => readItem(item, index, `item-${index}-${stamp}`, errors));
+  const items = positioned.filter((item): item is ReceiptItem => item !== null);
+  const itemIds = positioned.map(item => item?.id || null);
+
+  const adjustments = (Array.isArray(raw.adjustments) ? raw.adjustments : [])
+    .map((adj, index) => readAdjustment(adj, index, `adj-${index}-${stamp}`, itemIds, errors))
+    .filter((adj): adj is ReceiptAdjustment => adj !== null);
+
+  const receipt: ExtractedReceipt = {
+    restaurantName: readString(raw.restaurantName, 'restaurantName', errors),
+    date: readString(raw.date, 'date', errors),
+    currency: readString(raw.currency, 'currency', errors),
+    items,
+    subtotal: readNumber(raw.subtotal, 'subtotal', errors, 0)!,
+    tax: readNumber(raw.tax, 'tax', errors, 0)!,
+    tip: readNumber(raw.tip, 'tip', errors, 0)!,
+    total: readNumber(raw.total, 'total', errors, 0)!,
+    adjustments
+  };
+  const totalSources = readTotalSources(raw.totalSources);
+  if (totalSources) receipt.totalSources = totalSources;
+
+  if (rawItems.length > 0 && items.length === 0) {
+    throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.noUsableLines'), errors);
+  }
+  if (items.length === 0 && receipt.total === 0) {
+    throw new ExtractionError('UNREADABLE_IMAGE', t('extraction.unreadable'), errors);
+  }
+  return errors.length > 0 ? { ...receipt, fieldErrors: errors } : receipt;
+};
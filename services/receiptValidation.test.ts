@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { ReceiptData } from "../types";
+import { computeShares } from "./splitEngine";
+import { followLineTotals, reconcileReceipt, sanitizeString, validateReceipt } from "./receiptValidation";
+
+const base = { restaurantName: 'Test', currency: 'USD', subtotal: 0, tax: 0, tip: 0, total: 0, items: [] };
+
+describe('validateReceipt', () => {
+  it('rejects input that is not a receipt', () => {
+    [null, undefined, 42, 'receipt', [], {}, { restaurantName: 7, items: [] }, { restaurantName: 'X', items: 'none' }]
+      .forEach(input => expect(validateReceipt(input)).toBeNull());
+  });
+
+  it('clamps negative and non-numeric item values', () => {
+    const { receipt } = validateReceipt({
+      ...base,
+      items: [
+        { id: 'a', description: 'Refund?', quantity: -2, price: -5 },
+        { id: 'b', description: 'Garbage', quantity: 'lots', price: 'free', unitPrice: -1 }
+      ]
+    })!;
+
+    expect(receipt.items.map(i => [i.quantity, i.price])).toEqual([[0, 0], [1, 0]]);
+    expect(receipt.items[1].unitPrice).toBeUndefined();
+  });
+
+  it('treats non-numeric totals as missing', () => {
+    const { receipt } = validateReceipt({ ...base, subtotal: 'NaN', tax: {}, tip: null, total: '12.5' })!;
+    expect([receipt.subtotal, receipt.tax, receipt.tip, receipt.total]).toEqual([0, 0, 0, 12.5]);
+  });
+
+  it('strips markup and caps string lengths', () => {
+    const { receipt } = validateReceipt({
+      ...base,
+      restaurantName: '<img src=x onerror=alert(1)>Diner',
+      items: [{ id: 'a', description: `<script>x</script>${'y'.repeat(400)}`, price: 1 }]
+    })!;
+
+    expect(receipt.restaurantName).toBe('Diner');
+    expect(receipt.items[0].description).not.toContain('<');
+    expect(receipt.items[0].description.length).toBeLessThanOrEqual(255);
+  });
+
+  it('replaces an id that is not a plain token', () => {
+    const { receipt } = validateReceipt({ ...base, id: '../../etc/passwd' })!;
+    expect(receipt.id).toMatch(/^rcpt-/);
+  });
+
+  it('drops unknown adjustments and scopes that point at missing items', () => {
+    const { receipt } = validateReceipt({
+      ...base,
+      items: [{ id: 'a', description: 'A', price: 10 }],
+      adjustments: [
+        { type: 'BRIBE', amount: 5 },
+        { type: 'DISCOUNT' },
+        { type: 'DISCOUNT', amount: -2, itemIds: ['a', 'ghost'] },
+        { type: 'SERVICE_CHARGE', percentage: 250 }
+      ]
+    })!;
+
+    expect(receipt.adjustments).toHaveLength(2);
+    expect(receipt.adjustments[0]).toMatchObject({ type: 'DISCOUNT', amount: 2, itemIds: ['a'] });
+    expect(receipt.adjustments[1]).toMatchObject({ type: 'SERVICE_CHARGE', percentage: 100 });
+  });
+
+  it('keeps known item categories and drops anything else', () => {
+    const { receipt } = validateReceipt({
+      ...base,
+      items: [{ id: 'a', description: 'IPA', price: 6, category: 'ALCOHOL' }, { id: 'b', description: 'B', price: 1, category: 'CAVIAR' }]
+    })!;
+    expect(receipt.items.map(i => i.category)).toEqual(['ALCOHOL', undefined]);
+  });
+
+  it('reports a total that does not match its lines instead of rejecting it', () => {
+    const validated = validateReceipt({ ...base, items: [{ id: 'a', description: 'A', price: 10 }], subtotal: 10, total: 99 })!;
+    expect(validated.reconciliation.isBalanced).toBe(false);
+    expect(validated.reconciliation.issues.map(i => i.kind)).toEqual(['SUBTOTAL_VS_TOTAL']);
+  });
+});
+
+describe('reconcileReceipt', () => {
+  it('skips missing figures and accepts drift within the tolerance', () => {
+    const { receipt } = validateReceipt({ ...base, items: [{ id: 'a', description: 'A', price: 10, quantity: 3, unitPrice: 3.34 }] })!;
+    expect(reconcileReceipt(receipt).isBalanced).toBe(true);
+  });
+});
+
+describe('followLineTotals', () => {
+  /** One editor change, validated the way App applies it. */
+  const edit = (receipt: ReceiptData, patch: Partial<ReceiptData>) => validateReceipt(followLineTotals(receipt, { ...receipt, ...patch }))!.receipt;
+
+  it('fills the totals of a blank receipt from the lines typed in, so the split is not zero', () => {
+    let receipt = validateReceipt({ restaurantName: '', date: '', currency: 'USD', items: [] })!.receipt;
+    receipt = edit(receipt, { items: [{ id: 'a', quantity: 1, description: 'Pizza', price: 12 }] });
+    receipt = edit(receipt, { items: [...receipt.items, { id: 'b', quantity: 1, description: 'Beer', price: 5 }] });
+    receipt = edit(receipt, { tax: 1.7 });
+
+    expect([receipt.subtotal, receipt.total]).toEqual([17, 18.7]);
+    expect(reconcileReceipt(receipt).isBalanced).toBe(true);
+    const split = computeShares(receipt, [{ id: 'ann', name: 'Ann' }, { id: 'bo', name: 'Bo' }], {
+      a: { itemId: 'a', shares: { ann: 1 } },
+      b: { itemId: 'b', shares: { bo: 1 } }
+    });
+    expect(split.shares.map(share => share.total)).toEqual([1320, 550]);
+    expect(split.unclaimedAmount).toBe(0);
+  });
+
+  it('leaves totals the user typed in alone', () => {
+    let receipt = validateReceipt({ restaurantName: 'Cafe', currency: 'USD', items: [{ id: 'a', description: 'Tea', price: 3 }] })!.receipt;
+    receipt = edit(receipt, { total: 4 });
+    receipt = edit(receipt, { items: [{ ...receipt.items[0], price: 3.5 }] });
+    expect([receipt.subtotal, receipt.total]).toEqual([3.5, 4]);
+  });
+
+  it('keeps printed totals that the lines do not add up to', () => {
+    const printed = validateReceipt({ restaurantName: 'Cafe', currency: 'USD', subtotal: 10, total: 10, items: [{ id: 'a', description: 'Tea', price: 8 }] })!.receipt;
+    const receipt = edit(printed, { items: [{ ...printed.items[0], price: 9 }] });
+    expect([receipt.subtotal, receipt.total]).toEqual([10, 10]);
+  });
+});
+
+describe('sanitizeString', () => {
+  it('removes unterminated tags too', () => {
+    expect(sanitizeString('Fish <b onclick="x"')).toBe('Fish');
+  });
+});
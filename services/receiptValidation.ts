@@ -0,0 +1,308 @@
+import {
+  ADJUSTMENT_TYPES,
+  AdjustmentType,
+  ExchangeRate,
+  FieldSource,
+  ReceiptAdjustment,
+  ReceiptData,
+  ReceiptItem,
+  ReconciliationIssue,
+  ReconciliationReport,
+  TipPolicy,
+  TotalField,
+  ValidatedReceipt
+} from "../types";
+import { currencyDecimals, fromMinor, toMinor } from "./money";
+import { normalizeCurrency } from "./currency";
+import { adjustmentTypeName, formatMoney, t } from "./i18n";
+import { isItemCategory } from "./itemCategories";
+
+/**
+ * Turns untrusted receipt data (AI output, share links, saved bills, the
+ * editor) into a clean ReceiptData, and checks its arithmetic. Nothing here
+ * touches the DOM or React, so every path into the app goes through the same
+ * checks.
+ */
+
+/**
+ * Strips potential HTML tags to prevent XSS from untrusted AI output 
+ * or manipulated URL parameters.
+ */
+export const sanitizeString = (str: string): string => {
+  return str.replace(/<[^>]*>?/gm, '').trim().substring(0, 255);
+};
+
+/** Whether an adjustment adds to (+1) or takes off (-1) the bill. */
+const ADJUSTMENT_DIRECTION: Record<AdjustmentType, 1 | -1> = {
+  DISCOUNT: -1,
+  COUPON: -1,
+  SERVICE_CHARGE: 1,
+  TAX: 1,
+  INCLUDED_TAX: 1,
+  FEE: 1
+};
+
+/** VAT-inclusive tax is already part of the item prices: it is shown, never added. */
+export const affectsTotal = (type: AdjustmentType): boolean => type !== 'INCLUDED_TAX';
+
+export const isInAdjustmentScope = (adjustment: ReceiptAdjustment, itemId: string): boolean =>
+  !adjustment.itemIds || adjustment.itemIds.length === 0 || adjustment.itemIds.includes(itemId);
+
+/** Sum of the item prices an adjustment applies to. */
+const adjustmentBase = (adjustment: ReceiptAdjustment, items: ReceiptItem[]): number =>
+  items.filter(item => isInAdjustmentScope(adjustment, item.id)).reduce((acc, item) => acc + item.price, 0);
+
+/**
+ * Resolves an adjustment to a signed amount (discounts negative). Percentages
+ * apply to the scoped items; an included tax percentage is backed out of the
+ * gross prices (20% VAT on 12.00 is 2.00).
+ */
+export const resolveAdjustmentAmount = (adjustment: ReceiptAdjustment, items: ReceiptItem[]): number => {
+  let value = adjustment.amount;
+  if (value === undefined) {
+    const base = adjustmentBase(adjustment, items);
+    const pct = adjustment.percentage || 0;
+    value = adjustment.type === 'INCLUDED_TAX' ? base * pct / (100 + pct) : base * pct / 100;
+  }
+  return value * ADJUSTMENT_DIRECTION[adjustment.type];
+};
+
+/** Net effect of all adjustments on the bill total. */
+export const adjustmentsTotal = (receipt: ReceiptData): number =>
+  receipt.adjustments
+    .filter(adj => affectsTotal(adj.type))
+    .reduce((acc, adj) => acc + resolveAdjustmentAmount(adj, receipt.items), 0);
+
+const sanitizeAdjustment = (adj: any, idx: number, itemIds: string[]): ReceiptAdjustment | null => {
+  if (!adj || typeof adj !== 'object') return null;
+  if (!ADJUSTMENT_TYPES.some(t => t.code === adj.type)) return null;
+  const amount = Number(adj.amount);
+  const percentage = Number(adj.percentage);
+  const hasAmount = adj.amount !== undefined && adj.amount !== null && Number.isFinite(amount);
+  const hasPercentage = !hasAmount && adj.percentage !== undefined && adj.percentage !== null && Number.isFinite(percentage);
+  if (!hasAmount && !hasPercentage) return null;
+  const scope = Array.isArray(adj.itemIds) ? adj.itemIds.map((id: any) => String(id)).filter((id: string) => itemIds.includes(id)) : [];
+  return {
+    id: sanitizeString(adj.id || `adj-${idx}`),
+    type: adj.type,
+    label: sanitizeString(adj.label || adjustmentTypeName(adj.type)),
+    ...(hasAmount ? { amount: Math.abs(amount) } : { percentage: Math.min(100, Math.max(0, percentage)) }),
+    ...(scope.length > 0 ? { itemIds: scope } : {})
+  };
+};
+
+export const DEFAULT_TIP_POLICY: TipPolicy = {
+  mode: 'RECEIPT',
+  percentage: 18,
+  amount: 0,
+  basis: 'PRE_TAX',
+  split: 'PROPORTIONAL',
+  headcount: 2,
+  overrides: {}
+};
+
+const clampPercentage = (value: any): number => Math.min(100, Math.max(0, Number(value) || 0));
+
+const sanitizeTipPolicy = (policy: any): TipPolicy | undefined => {
+  if (!policy || typeof policy !== 'object') return undefined;
+  const overrides: Record<string, number> = {};
+  if (policy.overrides && typeof policy.overrides === 'object') {
+    Object.keys(policy.overrides).forEach(key => {
+      overrides[sanitizeString(key)] = clampPercentage(policy.overrides[key]);
+    });
+  }
+  return {
+    mode: ['RECEIPT', 'PERCENTAGE', 'AMOUNT'].includes(policy.mode) ? policy.mode : DEFAULT_TIP_POLICY.mode,
+    percentage: clampPercentage(policy.percentage),
+    amount: Math.max(0, Number(policy.amount) || 0),
+    basis: policy.basis === 'POST_TAX' ? 'POST_TAX' : 'PRE_TAX',
+    split: policy.split === 'EQUAL' ? 'EQUAL' : 'PROPORTIONAL',
+    headcount: Math.max(1, Math.floor(Number(policy.headcount) || 1)),
+    overrides
+  };
+};
+
+const sanitizeExchangeRates = (rates: any): ExchangeRate[] => {
+  if (!Array.isArray(rates)) return [];
+  return rates
+    .filter(r => r && typeof r === 'object' && Number(r.rate) > 0 && Number.isFinite(Number(r.rate)))
+    .map(r => ({
+      from: normalizeCurrency(sanitizeString(String(r.from || ''))),
+      to: normalizeCurrency(sanitizeString(String(r.to || ''))),
+      rate: Number(r.rate),
+      date: sanitizeString(String(r.date || '')),
+      ...(r.source ? { source: sanitizeString(String(r.source)) } : {})
+    }))
+    .filter(r => r.from !== r.to);
+};
+
+const fraction = (value: any): number | undefined => {
+  const number = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(number) ? Math.min(1, Math.max(0, number)) : undefined;
+};
+
+const sanitizeFieldSource = (source: any): FieldSource | undefined => {
+  if (!source || typeof source !== 'object') return undefined;
+  const confidence = fraction(source.confidence);
+  const box = source.box && typeof source.box === 'object'
+    ? { x: fraction(source.box.x), y: fraction(source.box.y), width: fraction(source.box.width), height: fraction(source.box.height) }
+    : null;
+  const hasBox = !!box && box.x !== undefined && box.y !== undefined && !!box.width && !!box.height;
+  if (confidence === undefined && !hasBox) return undefined;
+  return {
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(hasBox ? { box: box as FieldSource['box'] } : {}),
+    ...(Number.isInteger(source.page) && source.page >= 0 ? { page: source.page } : {})
+  };
+};
+
+export const TOTAL_FIELDS: TotalField[] = ['subtotal', 'tax', 'tip', 'total'];
+
+const LANGUAGE_TAG_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** Default allowed drift (in receipt currency) before totals are reported as not matching. */
+export const RECONCILIATION_TOLERANCE = 0.05;
+
+/**
+ * Checks the receipt arithmetic: each line's quantity × unit price against its
+ * line total, the items against the subtotal, and subtotal + tax + tip against
+ * the total. Missing (zero) figures are skipped rather than reported.
+ */
+export const reconcileReceipt = (receipt: ReceiptData, tolerance: number = RECONCILIATION_TOLERANCE): ReconciliationReport => {
+  const issues: ReconciliationIssue[] = [];
+  const decimals = currencyDecimals(receipt.currency);
+  const fmt = (value: number) => formatMoney(toMinor(value, decimals), receipt.currency);
+  const differs = (a: number, b: number) => Math.abs(a - b) > tolerance;
+
+  receipt.items.forEach(item => {
+    if (item.unitPrice === undefined) return;
+    const expected = item.quantity * item.unitPrice;
+    if (differs(expected, item.price)) {
+      issues.push({
+        kind: 'LINE_TOTAL',
+        itemId: item.id,
+        expected,
+        actual: item.price,
+        message: t('reconcile.lineTotal', {
+          item: item.description,
+          quantity: item.quantity,
+          unitPrice: fmt(item.unitPrice),
+          expected: fmt(expected),
+          actual: fmt(item.price)
+        })
+      });
+    }
+  });
+
+  const itemsSum = receipt.items.reduce((acc, item) => acc + item.price, 0);
+  if (receipt.subtotal > 0 && differs(itemsSum, receipt.subtotal)) {
+    issues.push({
+      kind: 'ITEMS_VS_SUBTOTAL',
+      expected: receipt.subtotal,
+      actual: itemsSum,
+      message: t('reconcile.itemsVsSubtotal', { items: fmt(itemsSum), subtotal: fmt(receipt.subtotal) })
+    });
+  }
+
+  const computedTotal = (receipt.subtotal || itemsSum) + receipt.tax + receipt.tip + adjustmentsTotal(receipt);
+  if (receipt.total > 0 && differs(computedTotal, receipt.total)) {
+    issues.push({
+      kind: 'SUBTOTAL_VS_TOTAL',
+      expected: receipt.total,
+      actual: computedTotal,
+      message: t(receipt.adjustments.length > 0 ? 'reconcile.subtotalVsTotalAdjusted' : 'reconcile.subtotalVsTotal', { computed: fmt(computedTotal), total: fmt(receipt.total) })
+    });
+  }
+
+  return { isBalanced: issues.length === 0, tolerance, itemsSum, issues };
+};
+
+/**
+ * Keeps a typed-in receipt adding up while it is edited. A subtotal or total
+ * that is blank, or still what the lines added up to before this edit,
+ * follows the edited lines; one the user typed in is left alone.
+ */
+export const followLineTotals = (previous: ReceiptData, next: ReceiptData): ReceiptData => {
+  const decimals = currencyDecimals(next.currency);
+  const same = (a: number, b: number) => toMinor(a, decimals) === toMinor(b, decimals);
+  const rounded = (value: number) => fromMinor(toMinor(value, decimals), decimals);
+  const itemsSum = (receipt: ReceiptData) => receipt.items.reduce((acc, item) => acc + item.price, 0);
+  const addedUp = (receipt: ReceiptData) => (receipt.subtotal || itemsSum(receipt)) + receipt.tax + receipt.tip + adjustmentsTotal(receipt);
+  const follows = (field: TotalField, addedUpBefore: number) =>
+    same(next[field], previous[field]) && (previous[field] === 0 || same(previous[field], addedUpBefore));
+
+  const followed = { ...next };
+  if (follows('subtotal', itemsSum(previous))) followed.subtotal = rounded(itemsSum(next));
+  if (follows('total', addedUp(previous))) followed.total = rounded(addedUp(followed));
+  return followed;
+};
+
+const RECEIPT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const newReceiptId = (): string => `rcpt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Validates the structure and integrity of the receipt data.
+ * Prevents "Bill Tampering" (e.g., manually changing total in the URL).
+ * Returns the sanitized receipt together with its arithmetic reconciliation.
+ */
+export const validateReceipt = (data: any, tolerance: number = RECONCILIATION_TOLERANCE): ValidatedReceipt | null => {
+  try {
+    if (!data || typeof data !== 'object') return null;
+    
+    // 1. Check Required Fields & Types
+    if (typeof data.restaurantName !== 'string') return null;
+    if (!Array.isArray(data.items)) return null;
+
+    // 2. Sanitize Strings
+    const items: ReceiptItem[] = data.items.map((item: any, idx: number) => {
+      const source = sanitizeFieldSource(item.source);
+      return {
+        id: sanitizeString(item.id || `shared-${idx}`),
+        quantity: Math.max(0, Number(item.quantity) || 1),
+        description: sanitizeString(item.description || 'Unknown Item'),
+        price: Math.max(0, Number(item.price) || 0),
+        ...(Number(item.unitPrice) > 0 ? { unitPrice: Number(item.unitPrice) } : {}),
+        ...(typeof item.originalDescription === 'string' && item.originalDescription.trim()
+          ? { originalDescription: sanitizeString(item.originalDescription) }
+          : {}),
+        ...(isItemCategory(item.category) ? { category: item.category } : {}),
+        ...(source ? { source } : {})
+      };
+    });
+    const itemIds = items.map(item => item.id);
+
+    const sanitized: ReceiptData = {
+      id: typeof data.id === 'string' && RECEIPT_ID_PATTERN.test(data.id) ? data.id : newReceiptId(),
+      restaurantName: sanitizeString(data.restaurantName),
+      date: sanitizeString(data.date || ''),
+      currency: normalizeCurrency(sanitizeString(data.currency || '')),
+      subtotal: Number(data.subtotal) || 0,
+      tax: Number(data.tax) || 0,
+      tip: Number(data.tip) || 0,
+      total: Number(data.total) || 0,
+      items,
+      adjustments: (Array.isArray(data.adjustments) ? data.adjustments : [])
+        .map((adj: any, idx: number) => sanitizeAdjustment(adj, idx, itemIds))
+        .filter((adj: ReceiptAdjustment | null): adj is ReceiptAdjustment => adj !== null)
+    };
+    const tipPolicy = sanitizeTipPolicy(data.tipPolicy);
+    if (tipPolicy) sanitized.tipPolicy = tipPolicy;
+    const exchangeRates = sanitizeExchangeRates(data.exchangeRates);
+    if (exchangeRates.length > 0) sanitized.exchangeRates = exchangeRates;
+    const totalSources: Partial<Record<TotalField, FieldSource>> = {};
+    TOTAL_FIELDS.forEach(field => {
+      const source = sanitizeFieldSource(data.totalSources?.[field]);
+      if (source) totalSources[field] = source;
+    });
+    if (Object.keys(totalSources).length > 0) sanitized.totalSources = totalSources;
+    if (typeof data.language === 'string' && LANGUAGE_TAG_PATTERN.test(data.language)) sanitized.language = data.language;
+
+    // 3. Mathematical Integrity Check (Tolerance for floating point)
+    // Note: We don't block on mismatches (discounts, rounding, OCR slips), 
+    // we report them so the user can fix them in the editor.
+    return { receipt: sanitized, reconciliation: reconcileReceipt(sanitized, tolerance) };
+  } catch (e) {
+    return null;
+  }
+};
@@ -0,0 +1,97 @@
+import { AppState } from "../types";
+
+/**
+ * Maps screens to URL paths so the browser's back and forward buttons move
+ * between them and a screen survives a reload. Shared bills and claims ride
+ * in their own `share` query parameter; links from before routing carried
+ * them in the hash ("#2.z.q1ZK..."), and those are still read.
+ *
+ * Paths are relative to wherever index.html was served from, so the app
+ * works the same at "/" and under a sub-path.
+ */
+
+const ROUTES: Record<AppState, string> = {
+  [AppState.HOME]: '',
+  [AppState.CAMERA]: 'scan',
+  [AppState.PREVIEW]: 'scan/preview',
+  [AppState.PROCESSING]: 'scan/reading',
+  [AppState.CONFIRM_INFO]: 'receipt',
+  [AppState.SELECT_ITEMS]: 'items',
+  [AppState.SUMMARY]: 'summary',
+  [AppState.HISTORY]: 'history',
+  [AppState.SETTLE_UP]: 'settle-up',
+  [AppState.GROUPS]: 'groups'
+};
+
+const SHARE_PARAM = 'share';
+
+/** Screens that only make sense with a bill open. */
+const BILL_STATES = [AppState.CONFIRM_INFO, AppState.SELECT_ITEMS, AppState.SUMMARY];
+
+/** Screens left in the middle of a scan; a reload or a step back can't resume them. */
+export const TRANSIENT_STATES = [AppState.CAMERA, AppState.PREVIEW, AppState.PROCESSING];
+
+/** What a screen needs before it can be shown. */
+export interface RouteContext {
+  hasReceipt: boolean;
+  hasPendingImages: boolean;
+  isExtracting: boolean;
+}
+
+const routeEntries = (Object.keys(ROUTES) as AppState[])
+  .map(state => ({ state, path: ROUTES[state] }))
+  .sort((a, b) => b.path.length - a.path.length);
+
+/** Splits a pathname into the app's base ("/app/") and the route after it ("summary"). */
+const splitPath = (pathname: string): { base: string; route: string } => {
+  const path = pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+  const match = routeEntries.find(({ path: route }) => route && (path === `/${route}` || path.endsWith(`/${route}`)));
+  const base = match ? path.slice(0, path.length - match.path.length) : `${path}/`;
+  return { base: base.replace(/\/index\.html\/$/, '/'), route: match ? match.path : '' };
+};
+
+// Fixed on first load so navigating never moves the base
+const BASE_PATH = typeof window === 'undefined' ? '/' : splitPath(window.location.pathname).base;
+
+/** The screen a pathname points at; unknown paths are HOME. */
+export const stateFromPath = (pathname: string): AppState =>
+  routeEntries.find(({ path }) => path === splitPath(pathname).route)?.state || AppState.HOME;
+
+export const pathForState = (state: AppState): string => `${BASE_PATH}${ROUTES[state]}`;
+
+/** A file served next to index.html, such as the service worker. */
+export const appFileUrl = (file: string): string => `${BASE_PATH}${file}`;
+
+/** The screen to show instead of `state` when it lacks what it needs, e.g. SELECT_ITEMS without a receipt. */
+export const guardState = (state: AppState, context: RouteContext): AppState => {
+  if (BILL_STATES.includes(state) && !context.hasReceipt) return AppState.HOME;
+  if (state === AppState.PREVIEW && !context.hasPendingImages) return AppState.HOME;
+  if (state === AppState.PROCESSING && !context.isExtracting) return context.hasReceipt ? AppState.CONFIRM_INFO : AppState.HOME;
+  return state;
+};
+
+/** A link that opens the app on HOME with a share or claim payload. */
+export const shareUrl = (payload: string): string =>
+  `${window.location.origin}${BASE_PATH}?${SHARE_PARAM}=${encodeURIComponent(payload)}`;
+
+/** The share or claim payload in a URL (query parameter, or a pre-routing hash), or null if there is none. */
+export const readSharePayload = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return null;
+  }
+  const fromQuery = parsed.searchParams.get(SHARE_PARAM);
+  if (fromQuery) return fromQuery;
+  const hash = parsed.hash.slice(1);
+  return hash.length > 10 ? hash : null;
+};
+
+/** The current URL without a share payload, to replace it with once the payload has been read. */
+export const withoutSharePayload = (url: string): string => {
+  const parsed = new URL(url);
+  parsed.searchParams.delete(SHARE_PARAM);
+  parsed.hash = '';
+  return `${parsed.pathname}${parsed.search}`;
+};
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QueuedScan } from "../types";
+import { ExtractionError } from "./extractionErrors";
+import { extractPages } from "./extractors";
+import { t } from "./i18n";
+import { MAX_SCAN_ATTEMPTS, processQueuedScan, scanStatus } from "./scanQueue";
+
+vi.mock("./historyStore", () => ({
+  listGroups: vi.fn(async () => []),
+  saveBill: vi.fn(async () => {}),
+  saveQueuedScan: vi.fn(async () => {})
+}));
+
+vi.mock("./extractors", () => ({
+  getExtractor: vi.fn(() => ({ id: 'gemini', offline: false })),
+  extractPages: vi.fn()
+}));
+
+const scan: QueuedScan = { id: 'scan-1', images: ['data:image/jpeg;base64,AA=='], extractorId: 'gemini', targetLanguage: 'English', queuedAt: 1 };
+
+const networkDown = () => vi.mocked(extractPages).mockRejectedValue(new ExtractionError('NETWORK', t('extraction.network')));
+
+describe('processQueuedScan', () => {
+  let onLine = true;
+  beforeEach(() => {
+    onLine = true;
+    vi.stubGlobal('navigator', { get onLine() { return onLine; } });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(extractPages).mockReset();
+  });
+
+  it('keeps waiting without using up an attempt while the browser is offline', async () => {
+    networkDown();
+    onLine = false;
+    expect(await processQueuedScan(scan)).toBe(scan);
+  });
+
+  it('gives up after a bounded number of network errors while online', async () => {
+    networkDown();
+    let current = scan;
+    for (let attempt = 1; attempt < MAX_SCAN_ATTEMPTS; attempt++) {
+      current = await processQueuedScan(current);
+      expect(scanStatus(current)).toBe('waiting');
+      expect(current.attempts).toBe(attempt);
+    }
+    current = await processQueuedScan(current);
+    expect(scanStatus(current)).toBe('failed');
+    expect(current.error).toBe(t('queue.gaveUp', { count: MAX_SCAN_ATTEMPTS }));
+  });
+
+  it('fails straight away on errors that have nothing to do with the connection', async () => {
+    vi.mocked(extractPages).mockRejectedValue(new ExtractionError('UNEXPECTED', 'Model said no'));
+    const failed = await processQueuedScan(scan);
+    expect(scanStatus(failed)).toBe('failed');
+    expect(failed.error).toBe('Model said no');
+  });
+});
@@ -0,0 +1,88 @@
+import { ExtractorId, QueuedScan, ReceiptExtractor, SavedBill } from "../types";
+import { newBillId } from "./billStore";
+import { ExtractionError } from "./extractionErrors";
+import { extractPages, getExtractor } from "./extractors";
+import { prefillFromGroup } from "./groups";
+import { listGroups, saveBill, saveQueuedScan } from "./historyStore";
+import { t } from "./i18n";
+import { validateReceipt } from "./receiptValidation";
+
+/**
+ * Scans taken without a connection. Their photos wait in IndexedDB and are
+ * read in the background once the browser is back online; each one becomes
+ * a bill in history rather than taking over whatever screen is open.
+ */
+
+export type QueuedScanStatus = 'waiting' | 'failed' | 'ready';
+
+/** Failed reads while supposedly online before a scan stops waiting, so a flaky connection can't keep it pending forever. */
+export const MAX_SCAN_ATTEMPTS = 5;
+
+export const scanStatus = (scan: QueuedScan): QueuedScanStatus =>
+  scan.billId ? 'ready' : scan.error ? 'failed' : 'waiting';
+
+/** Whether photos for this reader have to wait, i.e. it needs a connection and there isn't one. */
+export const shouldQueueScan = (extractor: ReceiptExtractor, isOnline: boolean = navigator.onLine): boolean =>
+  !extractor.offline && !isOnline;
+
+export const queueScan = async (images: string[], extractorId: ExtractorId, targetLanguage: string, groupId?: string): Promise<QueuedScan> => {
+  const scan: QueuedScan = {
+    id: `scan-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    images,
+    extractorId,
+    targetLanguage,
+    queuedAt: Date.now(),
+    ...(groupId ? { groupId } : {})
+  };
+  await saveQueuedScan(scan);
+  return scan;
+};
+
+const billFromScan = async (scan: QueuedScan, signal?: AbortSignal): Promise<SavedBill> => {
+  const data = await extractPages(getExtractor(scan.extractorId), scan.images, { targetLanguage: scan.targetLanguage, signal });
+  const validated = validateReceipt(data);
+  if (!validated) throw new ExtractionError('SCHEMA_MISMATCH', t('extraction.malformed'));
+  // A group deleted while the scan waited just leaves the table empty
+  const group = scan.groupId ? (await listGroups()).find(g => g.id === scan.groupId) : undefined;
+  const table = group ? prefillFromGroup(group, validated.receipt) : { participants: [], assignments: {} };
+  return {
+    id: newBillId(),
+    createdAt: scan.queuedAt,
+    updatedAt: Date.now(),
+    receipt: validated.receipt,
+    splitMode: group ? 'table' : 'solo',
+    userSelections: {},
+    ...table,
+    payments: [],
+    images: scan.images,
+    isSettled: false
+  };
+};
+
+/**
+ * Reads one waiting scan and stores the outcome: the bill in history and the
+ * scan marked ready, or the reason it failed. Going offline again is not a
+ * failure; the scan comes back unchanged and keeps waiting. A network error
+ * while the browser reports a connection counts as an attempt, and after
+ * MAX_SCAN_ATTEMPTS of those the scan fails like any other read.
+ */
+export const processQueuedScan = async (scan: QueuedScan, signal?: AbortSignal): Promise<QueuedScan> => {
+  let updated: QueuedScan;
+  try {
+    const bill = await billFromScan(scan, signal);
+    await saveBill(bill);
+    updated = { ...scan, images: [], error: undefined, billId: bill.id };
+  } catch (e: any) {
+    if (e instanceof ExtractionError && e.kind === 'CANCELLED') return scan;
+    const isNetwork = e instanceof ExtractionError && e.kind === 'NETWORK';
+    if (isNetwork && !navigator.onLine) return scan;
+    const attempts = (scan.attempts || 0) + 1;
+    if (isNetwork && attempts < MAX_SCAN_ATTEMPTS) {
+      updated = { ...scan, attempts };
+    } else {
+      updated = { ...scan, attempts, error: isNetwork ? t('queue.gaveUp', { count: attempts }) : e.message || t('extraction.malformed') };
+    }
+  }
+  await saveQueuedScan(updated);
+  return updated;
+};
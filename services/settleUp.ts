@@ -0,0 +1,135 @@
+import { RecordedTransfer, Transfer } from "../types";
+import { allocate } from "./money";
+import { formatMoney, formatTimestamp, t } from "./i18n";
+
+/** One bill reduced to what settling needs: who owes what and who paid what, by name. */
+export interface SettlementEntry {
+  currency: string;
+  shares: { name: string; amount: number }[]; // Minor units
+  payments: { name: string; amount: number }[]; // Minor units
+}
+
+/** Net position per person and currency, in minor units. Positive means they are owed money. */
+export type Balances = Record<string, Record<string, number>>; // currency -> name -> amount
+
+/** Diners on different bills are the same person if their names match, ignoring case and spacing. */
+export const personKey = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Adds up every bill and every transfer already paid. Shares that don't
+ * cover the whole payment (unclaimed items) are spread over the diners in
+ * proportion to their shares so each currency nets to zero.
+ */
+export const computeBalances = (entries: SettlementEntry[], paid: RecordedTransfer[]): Balances => {
+  const balances: Balances = {};
+  const names: Record<string, string> = {};
+  const add = (currency: string, name: string, amount: number) => {
+    const key = personKey(name);
+    if (!names[key]) names[key] = name.trim();
+    const bucket = balances[currency] || (balances[currency] = {});
+    bucket[names[key]] = (bucket[names[key]] || 0) + amount;
+  };
+
+  entries.forEach(entry => {
+    const owed = entry.shares.reduce((sum, s) => sum + s.amount, 0);
+    const paidTotal = entry.payments.reduce((sum, p) => sum + p.amount, 0);
+    if (paidTotal === 0 || entry.shares.length === 0) return;
+    const scaled = owed === paidTotal
+      ? entry.shares.map(s => s.amount)
+      : allocate(paidTotal, entry.shares.map(s => s.amount));
+    entry.shares.forEach((s, idx) => add(entry.currency, s.name, -scaled[idx]));
+    entry.payments.forEach(p => add(entry.currency, p.name, p.amount));
+  });
+  paid.forEach(t => {
+    add(t.currency, t.from, t.amount);
+    add(t.currency, t.to, -t.amount);
+  });
+
+  Object.keys(balances).forEach(currency => {
+    Object.keys(balances[currency]).forEach(name => {
+      if (balances[currency][name] === 0) delete balances[currency][name];
+    });
+    if (Object.keys(balances[currency]).length === 0) delete balances[currency];
+  });
+  return balances;
+};
+
+/** Settles one zero-sum group greedily: largest debtor pays largest creditor. Needs at most n - 1 transfers. */
+const settleGroup = (people: { name: string; amount: number }[], currency: string): Transfer[] => {
+  const creditors = people.filter(p => p.amount > 0).map(p => ({ ...p }));
+  const debtors = people.filter(p => p.amount < 0).map(p => ({ name: p.name, amount: -p.amount }));
+  const transfers: Transfer[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+    const amount = Math.min(creditors[0].amount, debtors[0].amount);
+    transfers.push({ from: debtors[0].name, to: creditors[0].name, amount, currency });
+    creditors[0].amount -= amount;
+    debtors[0].amount -= amount;
+    if (creditors[0].amount === 0) creditors.shift();
+    if (debtors[0].amount === 0) debtors.shift();
+  }
+  return transfers;
+};
+
+// Exact partitioning is exponential; past this many people the greedy pass is used as-is
+const EXACT_LIMIT = 14;
+
+/**
+ * Minimal "A pays B" transfers for one currency. Every subset of people whose
+ * balances sum to zero can settle among themselves in (size - 1) transfers,
+ * so the fewest transfers come from splitting everyone into as many zero-sum
+ * groups as possible. That split is found exactly for small groups (a DP
+ * over subsets), then each group is settled greedily.
+ */
+export const simplifyDebts = (balances: Record<string, number>, currency: string): Transfer[] => {
+  const people = Object.keys(balances).filter(name => balances[name] !== 0).map(name => ({ name, amount: balances[name] }));
+  if (people.length > EXACT_LIMIT) return settleGroup(people, currency);
+
+  const n = people.length;
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(1 << n).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + people[31 - Math.clz32(low)].amount;
+  }
+  // groups[mask]: most zero-sum groups the people in `mask` can be split into
+  const groups = new Array<number>(1 << n).fill(0);
+  const choice = new Array<number>(1 << n).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    if (sums[mask] !== 0) continue;
+    // Fix the lowest member so each partition is only counted once
+    const low = mask & -mask;
+    for (let sub = mask; sub > 0; sub = (sub - 1) & mask) {
+      if (!(sub & low) || sums[sub] !== 0) continue;
+      const rest = mask ^ sub;
+      const count = 1 + (rest === 0 ? 0 : groups[rest]);
+      if ((rest === 0 || groups[rest] > 0) && count > groups[mask]) {
+        groups[mask] = count;
+        choice[mask] = sub;
+      }
+    }
+  }
+
+  const transfers: Transfer[] = [];
+  for (let mask = full; mask > 0; mask ^= choice[mask]) {
+    if (!choice[mask]) return settleGroup(people, currency); // Rounding left the total off zero
+    transfers.push(...settleGroup(people.filter((_, idx) => choice[mask] & (1 << idx)), currency));
+  }
+  return transfers;
+};
+
+export const formatTransfer = (transfer: Transfer): string =>
+  t('settle.transfer', { from: transfer.from, to: transfer.to, amount: formatMoney(transfer.amount, transfer.currency) });
+
+/** Plain-text summary for pasting into a group chat. */
+export const settlementText = (title: string, transfers: Transfer[], paid: RecordedTransfer[]): string => {
+  const lines = [title, ''];
+  if (transfers.length === 0) lines.push(t('settle.allSettled'));
+  transfers.forEach(transfer => lines.push(`- ${formatTransfer(transfer)}`));
+  if (paid.length > 0) {
+    lines.push('', t('settle.alreadyPaid'));
+    paid.forEach(transfer => lines.push(`- ${formatTransfer(transfer)} (${formatTimestamp(transfer.paidAt)})`));
+  }
+  return lines.join('\n');
+};
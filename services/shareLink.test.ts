@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { ReceiptData } from "../types";
+import { t } from "./i18n";
+import { decodeSharePayload, encodeSharePayload, SHARE_FORMAT_VERSION } from "./shareLink";
+import { validateReceipt } from "./receiptValidation";
+
+const receipt: ReceiptData = validateReceipt({
+  id: 'rcpt-1', restaurantName: 'Trattoria', date: '2026-10-12', currency: 'EUR',
+  subtotal: 20, tax: 0, tip: 2, total: 22,
+  items: [{ id: 'a', description: 'Pizza', price: 12 }, { id: 'b', description: 'Vino', quantity: 2, price: 8, unitPrice: 4 }],
+  adjustments: [{ id: 'adj', type: 'DISCOUNT', label: 'Happy hour', amount: 1, itemIds: ['b'] }]
+})!.receipt;
+
+const base64Url = (text: string) => Buffer.from(text).toString('base64url');
+
+/** A v2 plain-JSON payload carrying whatever compact receipt the test hands it. */
+const plainLink = (compact: unknown) => `${SHARE_FORMAT_VERSION}.j.${base64Url(JSON.stringify(compact))}`;
+
+describe('decodeSharePayload', () => {
+  it('reads back what it encoded', async () => {
+    const decoded = await decodeSharePayload(await encodeSharePayload(receipt));
+    expect(decoded.status).toBe('ok');
+    const { receipt: restored } = validateReceipt((decoded as { data: unknown }).data)!;
+    expect(restored).toEqual(receipt);
+  });
+
+  it('reads legacy base64 links', async () => {
+    const decoded = await decodeSharePayload(Buffer.from(JSON.stringify(receipt)).toString('base64'));
+    expect(decoded).toEqual({ status: 'ok', data: JSON.parse(JSON.stringify(receipt)) });
+  });
+
+  it('rejects links from a newer version', async () => {
+    await expect(decodeSharePayload('9.z.abc')).rejects.toThrow(t('link.newerFormat', { version: '9' }));
+  });
+
+  it('rejects damaged payloads', async () => {
+    const link = await encodeSharePayload(receipt);
+    const damaged = [
+      link.slice(0, -10),
+      `${link.slice(0, 6)}!!!${link.slice(9)}`,
+      `${SHARE_FORMAT_VERSION}.q.${link.split('.')[2]}`,
+      `${SHARE_FORMAT_VERSION}.z`,
+      `${SHARE_FORMAT_VERSION}.j.${base64Url('{"n": "cut sho')}`,
+      'not base64 at all %%%'
+    ];
+    for (const fragment of damaged) {
+      await expect(decodeSharePayload(fragment)).rejects.toThrow(t('link.damaged'));
+    }
+  });
+
+  it('asks for the passphrase of a locked link and refuses a wrong one', async () => {
+    const link = await encodeSharePayload(receipt, 'correct horse');
+    expect(await decodeSharePayload(link)).toEqual({ status: 'locked' });
+    await expect(decodeSharePayload(link, 'wrong horse')).rejects.toThrow(t('link.wrongPassphrase'));
+    expect((await decodeSharePayload(link, 'correct horse')).status).toBe('ok');
+  });
+
+  it('refuses a locked link whose ciphertext was edited', async () => {
+    const link = await encodeSharePayload(receipt, 'pass');
+    const parts = link.split('.');
+    const cipher = parts[4];
+    parts[4] = `${cipher[0] === 'A' ? 'B' : 'A'}${cipher.slice(1)}`;
+    await expect(decodeSharePayload(parts.join('.'), 'pass')).rejects.toThrow(t('link.wrongPassphrase'));
+  });
+
+  it('hands back tampered but well-formed payloads for validation to clean up', async () => {
+    const decoded = await decodeSharePayload(plainLink({
+      r: '"><script>', n: '<b>Hacked</b>', c: 'EUR', s: 'lots', x: -3, t: null, T: 1e9,
+      i: [['a', 'x', '<img onerror=1>Pizza', -12], ['b', 1, 'Wine', 8, null, null]],
+      a: [['adj', 'REFUND', 'Everything free', 500, null, [0]]]
+    }));
+    expect(decoded.status).toBe('ok');
+
+    const validated = validateReceipt((decoded as { data: unknown }).data)!;
+    const tampered = validated.receipt;
+    expect(tampered.id).not.toContain('<');
+    expect(tampered.restaurantName).toBe('Hacked');
+    expect(tampered.subtotal).toBe(0);
+    expect(tampered.adjustments).toEqual([]);
+    expect(tampered.items[0]).toMatchObject({ quantity: 1, description: 'Pizza', price: 0 });
+    expect(validated.reconciliation.isBalanced).toBe(false);
+  });
+
+  it('leaves payloads with items of the wrong shape for validation to reject', async () => {
+    const decoded = await decodeSharePayload(plainLink({ n: 'Diner', i: ['not an item'] }));
+    expect(validateReceipt((decoded as { data: unknown }).data)).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import { Claim, ReceiptData } from "../types";
+import { t } from "./i18n";
+import { readSelections } from "./itemShares";
+import { readSharePayload } from "./router";
+
+/**
+ * Share link format
+ *
+ *   v1 (legacy): base64(JSON receipt)                  -> "?share=eyJyZXN0..."
+ *   v2:          "2.<mode>.<base64url payload>"        -> "?share=2.z.q1ZKz0..."
+ *   v2 locked:   "2.e<mode>.<salt>.<iv>.<ciphertext>"  -> "?share=2.ez.Xc...."
+ *
+ * <mode> is "z" for deflate-compressed JSON or "j" for plain JSON (browsers
+ * without CompressionStream). The JSON uses short keys and positional arrays
+ * (see compactReceipt). Locked links are AES-GCM encrypted with a key derived
+ * from a passphrase; without it the link is unreadable.
+ *
+ *   claim:       "c2.<mode>.<base64url payload>"       -> "?share=c2.z.q1ZK..."
+ *
+ * Claims travel the other way, from a diner back to the organizer, and use
+ * the same encoding with a "c" prefix so they can't be mistaken for receipts.
+ * Links made before the app had routes carry the same payloads in the hash
+ * ("#2.z.q1ZKz0..."); services/router.ts reads both.
+ */
+export const SHARE_FORMAT_VERSION = 2;
+
+const PBKDF2_ITERATIONS = 250000;
+
+export type DecodedShareLink =
+  | { status: 'ok'; data: unknown } // Untrusted: always run it through validation
+  | { status: 'locked' }; // Encrypted and no passphrase given
+
+// --- Bytes <-> base64url ---
+
+const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// --- Compression ---
+
+const canCompress = (): boolean => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const packJson = async (value: unknown): Promise<{ mode: 'z' | 'j'; bytes: Uint8Array }> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return canCompress()
+    ? { mode: 'z', bytes: await pipeThrough(bytes, new CompressionStream('deflate-raw')) }
+    : { mode: 'j', bytes };
+};
+
+const unpackJson = async (mode: string, bytes: Uint8Array): Promise<any> => {
+  const raw = mode === 'z' ? await pipeThrough(bytes, new DecompressionStream('deflate-raw')) : bytes;
+  return JSON.parse(new TextDecoder().decode(raw));
+};
+
+// --- Encryption ---
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// --- Compact receipt encoding ---
+
+/**
+ * Short keys and positional arrays keep long receipts small:
+ * items are [id, quantity, description, price, unitPrice?, originalDescription?]
+ * (unitPrice is null when only the original is present) and adjustments
+ * reference items by index instead of repeating their IDs.
+ */
+export const compactReceipt = (receipt: ReceiptData): Record<string, unknown> => {
+  const itemIndex = (id: string) => receipt.items.findIndex(item => item.id === id);
+  const compact: Record<string, unknown> = {
+    r: receipt.id,
+    n: receipt.restaurantName,
+    d: receipt.date,
+    c: receipt.currency,
+    s: receipt.subtotal,
+    x: receipt.tax,
+    t: receipt.tip,
+    T: receipt.total,
+    i: receipt.items.map(item => {
+      const entry: unknown[] = [item.id, item.quantity, item.description, item.price];
+      if (item.unitPrice !== undefined || item.originalDescription) entry.push(item.unitPrice ?? null);
+      if (item.originalDescription) entry.push(item.originalDescription);
+      return entry;
+    })
+  };
+  if (receipt.language) compact.l = receipt.language;
+  if (receipt.adjustments.length > 0) {
+    compact.a = receipt.adjustments.map(adj => [
+      adj.id, adj.type, adj.label, adj.amount ?? null, adj.percentage ?? null, (adj.itemIds || []).map(itemIndex)
+    ]);
+  }
+  if (receipt.tipPolicy) {
+    // Personal overrides are keyed by local diner IDs and stay on this device
+    const p = receipt.tipPolicy;
+    compact.p = [p.mode, p.percentage, p.amount, p.basis, p.split, p.headcount];
+  }
+  if (receipt.exchangeRates && receipt.exchangeRates.length > 0) {
+    compact.e = receipt.exchangeRates.map(r => [r.from, r.to, r.rate, r.date]);
+  }
+  return compact;
+};
+
+/** Inverse of compactReceipt. Returns a raw object; shapes are not trusted. */
+export const expandReceipt = (compact: any): unknown => {
+  if (!compact || typeof compact !== 'object' || !Array.isArray(compact.i)) return null;
+  const items = compact.i.map((i: any) => Array.isArray(i)
+    ? { id: i[0], quantity: i[1], description: i[2], price: i[3], unitPrice: i[4] ?? undefined, originalDescription: i[5] }
+    : null);
+  return {
+    id: compact.r,
+    restaurantName: compact.n,
+    date: compact.d,
+    currency: compact.c,
+    language: compact.l,
+    subtotal: compact.s,
+    tax: compact.x,
+    tip: compact.t,
+    total: compact.T,
+    items,
+    adjustments: Array.isArray(compact.a) ? compact.a.map((a: any) => Array.isArray(a) ? {
+      id: a[0],
+      type: a[1],
+      label: a[2],
+      amount: a[3] ?? undefined,
+      percentage: a[4] ?? undefined,
+      itemIds: Array.isArray(a[5]) ? a[5].map((idx: any) => items[idx]?.id).filter(Boolean) : []
+    } : null) : [],
+    tipPolicy: Array.isArray(compact.p) ? {
+      mode: compact.p[0], percentage: compact.p[1], amount: compact.p[2],
+      basis: compact.p[3], split: compact.p[4], headcount: compact.p[5], overrides: {}
+    } : undefined,
+    exchangeRates: Array.isArray(compact.e)
+      ? compact.e.map((r: any) => Array.isArray(r) ? { from: r[0], to: r[1], rate: r[2], date: r[3] } : null)
+      : undefined
+  };
+};
+
+// --- Public API ---
+
+/** Builds the URL fragment (without "#") for a receipt, locked if a passphrase is given. */
+export const encodeSharePayload = async (receipt: ReceiptData, passphrase?: string): Promise<string> => {
+  const { mode, bytes } = await packJson(compactReceipt(receipt));
+
+  if (!passphrase) return `${SHARE_FORMAT_VERSION}.${mode}.${bytesToBase64Url(bytes)}`;
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes));
+  return [SHARE_FORMAT_VERSION, `e${mode}`, bytesToBase64Url(salt), bytesToBase64Url(iv), bytesToBase64Url(cipher)].join('.');
+};
+
+/** True for fragments in the versioned format (v2+), false for legacy base64 links. */
+export const isVersionedFragment = (fragment: string): boolean => /^\d+\./.test(fragment);
+
+export const isLockedFragment = (fragment: string): boolean => /^\d+\.e/.test(fragment);
+
+/**
+ * Reads a URL fragment in any supported format. Throws with a user-facing
+ * message for unknown versions, corrupt data or a wrong passphrase.
+ */
+export const decodeSharePayload = async (fragment: string, passphrase?: string): Promise<DecodedShareLink> => {
+  if (!isVersionedFragment(fragment)) {
+    // v1: base64 of the full receipt JSON
+    try {
+      const bytes = base64UrlToBytes(decodeURIComponent(fragment));
+      return { status: 'ok', data: JSON.parse(new TextDecoder().decode(bytes)) };
+    } catch (e) {
+      throw new Error(t('link.damaged'));
+    }
+  }
+
+  const [version, mode, ...parts] = fragment.split('.');
+  if (Number(version) !== SHARE_FORMAT_VERSION) {
+    throw new Error(t('link.newerFormat', { version }));
+  }
+
+  const locked = mode.startsWith('e');
+  const encoding = locked ? mode.slice(1) : mode;
+  if ((encoding !== 'z' && encoding !== 'j') || parts.length !== (locked ? 3 : 1)) {
+    throw new Error(t('link.damaged'));
+  }
+  if (encoding === 'z' && !canCompress()) {
+    throw new Error(t('link.noCompression'));
+  }
+
+  let bytes: Uint8Array | null = null;
+  if (locked) {
+    if (!passphrase) return { status: 'locked' };
+    try {
+      const key = await deriveKey(passphrase, base64UrlToBytes(parts[0]));
+      bytes = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64UrlToBytes(parts[1]) }, key, base64UrlToBytes(parts[2])));
+    } catch (e) {
+      throw new Error(t('link.wrongPassphrase'));
+    }
+  }
+
+  // Bad base64 in an open link is as damaged as bad JSON
+  try {
+    return { status: 'ok', data: expandReceipt(await unpackJson(encoding, bytes || base64UrlToBytes(parts[0]))) };
+  } catch (e) {
+    throw new Error(t('link.damaged'));
+  }
+};
+
+// --- Claims ---
+
+const CLAIM_PREFIX = 'c';
+
+export const isClaimFragment = (fragment: string): boolean => /^c\d+\./.test(fragment);
+
+/** Claim code for a diner's selections; only selected items are sent, as [itemId, portion, outOf]. */
+export const encodeClaim = async (claim: Claim): Promise<string> => {
+  const { mode, bytes } = await packJson({
+    r: claim.receiptId,
+    n: claim.name,
+    s: claim.selections.filter(sel => sel.isSelected).map(sel => [sel.itemId, sel.portion, sel.outOf])
+  });
+  return `${CLAIM_PREFIX}${SHARE_FORMAT_VERSION}.${mode}.${bytesToBase64Url(bytes)}`;
+};
+
+/**
+ * Reads a claim from a bare code or a full claim link. Malformed selections
+ * are dropped; the name still needs sanitizing by the caller.
+ */
+export const decodeClaim = async (input: string): Promise<Claim> => {
+  const code = readSharePayload(input.trim()) || input.trim();
+  if (!isClaimFragment(code)) throw new Error(t('link.notClaim'));
+
+  const [prefixedVersion, mode, payload] = code.split('.');
+  const version = prefixedVersion.slice(CLAIM_PREFIX.length);
+  if (Number(version) !== SHARE_FORMAT_VERSION) {
+    throw new Error(t('link.newerClaimFormat', { version }));
+  }
+
+  let raw: any;
+  try {
+    raw = await unpackJson(mode, base64UrlToBytes(payload || ''));
+  } catch (e) {
+    throw new Error(t('link.claimDamaged'));
+  }
+  if (!raw || typeof raw.r !== 'string' || typeof raw.n !== 'string' || !raw.n.trim() || !Array.isArray(raw.s)) {
+    throw new Error(t('link.claimDamaged'));
+  }
+
+  // Codes from before weighted shares send [itemId, splitCount], meaning 1 of splitCount
+  const selections = Object.values(readSelections(raw.s
+    .filter((s: any) => Array.isArray(s) && typeof s[0] === 'string')
+    .map((s: any) => s.length === 2
+      ? { itemId: s[0], portion: 1, outOf: s[1], isSelected: true }
+      : { itemId: s[0], portion: s[1], outOf: s[2], isSelected: true })));
+  return { receiptId: raw.r, name: raw.n, selections };
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { ItemAssignment, Participant, ReceiptData, SplitRule } from "../types";
+import { computeShares, computeSoloShares, SOLO_ID } from "./splitEngine";
+import { validateReceipt } from "./receiptValidation";
+
+const receipt = (data: Record<string, unknown>): ReceiptData =>
+  validateReceipt({ restaurantName: 'Test', currency: 'USD', subtotal: 0, tax: 0, tip: 0, total: 0, adjustments: [], ...data })!.receipt;
+
+const ann: Participant = { id: 'ann', name: 'Ann' };
+const bo: Participant = { id: 'bo', name: 'Bo' };
+const cleo: Participant = { id: 'cleo', name: 'Cleo' };
+
+const only = (itemId: string, ...ids: string[]): ItemAssignment =>
+  ({ itemId, shares: Object.fromEntries(ids.map(id => [id, 1])) });
+
+const totals = (split: ReturnType<typeof computeShares>) => split.shares.map(share => share.total);
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+describe('computeShares', () => {
+  it('prorates tax and the receipt tip by what each diner ordered', () => {
+    const bill = receipt({
+      items: [{ id: 'steak', description: 'Steak', price: 30 }, { id: 'salad', description: 'Salad', price: 10 }],
+      subtotal: 40, tax: 4, tip: 8, total: 52
+    });
+    const split = computeShares(bill, [ann, bo], { steak: only('steak', 'ann'), salad: only('salad', 'bo') });
+
+    expect(split.shares.map(s => [s.subtotal, s.tax, s.tip])).toEqual([[3000, 300, 600], [1000, 100, 200]]);
+    expect(totals(split)).toEqual([3900, 1300]);
+    expect(split.unclaimedAmount).toBe(0);
+    expect(split.billTotal).toBe(5200);
+  });
+
+  it('splits a shared item to the cent without losing or inventing one', () => {
+    const bill = receipt({ items: [{ id: 'pizza', description: 'Pizza', price: 10 }], subtotal: 10, tax: 1, total: 11 });
+    const split = computeShares(bill, [ann, bo, cleo], { pizza: only('pizza', 'ann', 'bo', 'cleo') });
+
+    expect(sum(totals(split))).toBe(1100);
+    // Each line rounds on its own, so a diner is at most one unit off per line (item and tax)
+    totals(split).forEach(total => expect(Math.abs(total - 1100 / 3)).toBeLessThan(2));
+  });
+
+  it('puts unassigned items in the unclaimed bucket so everything adds up to the bill', () => {
+    const bill = receipt({
+      items: [{ id: 'a', description: 'A', price: 12 }, { id: 'b', description: 'B', price: 8 }],
+      subtotal: 20, tax: 2, total: 22
+    });
+    const split = computeShares(bill, [ann, bo], { a: only('a', 'ann') });
+
+    expect(split.unclaimedItemIds).toEqual(['b']);
+    expect(sum(totals(split)) + split.unclaimedAmount).toBe(split.billTotal);
+    expect(split.shares[1].total).toBe(0);
+  });
+
+  it('uses the item prices as the subtotal when the receipt prints no totals', () => {
+    const bill = receipt({ items: [{ id: 'a', description: 'A', price: 10 }, { id: 'b', description: 'B', price: 20 }], tax: 3 });
+    const split = computeShares(bill, [ann, bo], { a: only('a', 'ann'), b: only('b', 'bo') });
+
+    expect(totals(split)).toEqual([1100, 2200]);
+    expect(split.roundingAdjustment).toBe(0);
+    expect(split.unclaimedAmount).toBe(0);
+    expect(split.billTotal).toBe(3300);
+  });
+
+  it('handles a zero-subtotal receipt without dividing by zero', () => {
+    const bill = receipt({ items: [{ id: 'water', description: 'Tap water', price: 0 }] });
+    const split = computeShares(bill, [ann, bo], { water: only('water', 'ann', 'bo') });
+
+    expect(totals(split)).toEqual([0, 0]);
+    split.shares.forEach(share => [share.subtotal, share.tax, share.tip, share.total].forEach(v => expect(Number.isFinite(v)).toBe(true)));
+    expect(split.billTotal).toBe(0);
+  });
+
+  it('spreads a printed total over free items evenly when there is nothing to prorate by', () => {
+    const bill = receipt({ items: [{ id: 'water', description: 'Tap water', price: 0 }], total: 3 });
+    const split = computeShares(bill, [ann, bo, cleo], { water: only('water', 'ann', 'bo', 'cleo') });
+
+    expect(totals(split)).toEqual([100, 100, 100]);
+    expect(split.roundingAdjustment).toBe(300);
+  });
+
+  it('splits a category between everyone and moves a covered diner onto the others', () => {
+    const bill = receipt({
+      items: [
+        { id: 'nachos', description: 'Nachos', price: 9 },
+        { id: 'steak', description: 'Steak', price: 30 }
+      ],
+      subtotal: 39, total: 39
+    });
+    const rules: SplitRule[] = [
+      { id: 'r1', kind: 'SHARE_EQUALLY', category: 'SHARED' },
+      { id: 'r2', kind: 'COVER', participantId: 'cleo' }
+    ];
+    const split = computeShares(bill, [ann, bo, cleo], { steak: only('steak', 'cleo') }, rules);
+
+    expect(split.shares[0].items).toEqual([{ itemId: 'nachos', amount: 300, ruleId: 'r1' }]);
+    expect(split.shares[2].total).toBe(0);
+    expect(split.shares[2].covers).toEqual([{ ruleId: 'r2', participantId: 'cleo', amount: -3300 }]);
+    expect(totals(split)).toEqual([1950, 1950, 0]);
+  });
+});
+
+describe('computeSoloShares', () => {
+  it('leaves only unclaimed items unclaimed when the receipt prints no totals', () => {
+    const bill = receipt({ items: [{ id: 'pizza', description: 'Pizza', price: 12 }, { id: 'beer', description: 'Beer', price: 5 }] });
+    const split = computeSoloShares(bill, { pizza: { itemId: 'pizza', isSelected: true, portion: 1, outOf: 1 } }, 'Me');
+
+    expect(split.shares[0].total).toBe(1200);
+    expect(split.unclaimedAmount).toBe(500);
+  });
+
+  it('claims only the selected portion and leaves the rest unclaimed', () => {
+    const bill = receipt({ items: [{ id: 'beer', description: 'Beer', quantity: 3, price: 15 }], subtotal: 15, total: 15 });
+    const split = computeSoloShares(bill, { beer: { itemId: 'beer', isSelected: true, portion: 2, outOf: 3 } }, 'Me');
+
+    expect(split.shares[0].participantId).toBe(SOLO_ID);
+    expect(split.shares[0].total).toBe(1000);
+    expect(split.unclaimedAmount).toBe(500);
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  AdjustmentType,
+  BillSplit,
+  ItemAssignment,
+  Participant,
+  ParticipantShare,
+  ReceiptAdjustment,
+  ReceiptData,
+  SavedBill,
+  SplitRule,
+  TipPolicy,
+  UserSelection
+} from "../types";
+import { allocate, currencyDecimals, fromMinor, sumMinor, toMinor } from "./money";
+import { itemFractions, selectionFraction } from "./itemShares";
+import { adjustmentsTotal, affectsTotal, DEFAULT_TIP_POLICY, isInAdjustmentScope, resolveAdjustmentAmount } from "./receiptValidation";
+import { SettlementEntry } from "./settleUp";
+import { applyCovers, ruleForItem, ruleFractions } from "./splitRules";
+
+/**
+ * Who owes what. Pure functions from a receipt and the claims on it to
+ * per-person shares in integer minor units; the UI only renders the result.
+ */
+
+/** Participant id of the one claimer in solo mode. */
+export const SOLO_ID = 'me';
+
+interface Claimer {
+  id: string;
+  name: string;
+  fractions: Record<string, number>; // itemId -> portion of the item this claimer pays (0..1)
+  tipOverride?: number; // Personal tip percentage replacing the policy share
+}
+
+/**
+ * Splits the bill across claimers in integer minor units. Every item, tax,
+ * tip and adjustment line is allocated with the largest-remainder method, and
+ * whatever nobody claims lands in an "unclaimed" bucket, so claimers plus
+ * unclaimed always add up exactly to the bill total.
+ *
+ * `extraTipDiners` counts people outside the claimer list who share an equal
+ * tip (used when only one person is claiming from a shared receipt).
+ */
+const splitBill = (receipt: ReceiptData, claimers: Claimer[], tipPolicy: TipPolicy, extraTipDiners = 0): BillSplit => {
+  const decimals = currencyDecimals(receipt.currency);
+  const minor = (amount: number) => toMinor(amount, decimals);
+  const buckets = claimers.length + 1; // Last bucket is "unclaimed"
+  const perBucket = (fill: (k: number) => number) => Array.from({ length: buckets }, (_, k) => fill(k));
+
+  // Items
+  const itemAllocations: Record<string, number[]> = {};
+  const unclaimedItemIds: string[] = [];
+  receipt.items.forEach(item => {
+    const claimed = claimers.map(c => Math.max(0, c.fractions[item.id] || 0));
+    const claimedSum = claimed.reduce((acc, f) => acc + f, 0);
+    if (claimedSum === 0) unclaimedItemIds.push(item.id);
+    const remainder = Math.max(0, 1 - claimedSum);
+    itemAllocations[item.id] = allocate(minor(item.price), [...claimed, remainder < 1e-9 ? 0 : remainder]);
+  });
+  const valueOf = (k: number, adjustment?: ReceiptAdjustment) => sumMinor(receipt.items
+    .filter(item => !adjustment || isInAdjustmentScope(adjustment, item.id))
+    .map(item => itemAllocations[item.id][k]));
+  const subtotals = perBucket(k => valueOf(k));
+
+  // Tax and adjustments follow what each bucket claimed
+  const taxes = allocate(minor(receipt.tax || 0), subtotals);
+  const adjustmentAllocations = receipt.adjustments.map(adjustment => ({
+    adjustment,
+    shares: allocate(minor(resolveAdjustmentAmount(adjustment, receipt.items)), perBucket(k => valueOf(k, adjustment)))
+  }));
+  const adjustmentSum = (k: number, include: (type: AdjustmentType) => boolean) => sumMinor(adjustmentAllocations
+    .filter(a => include(a.adjustment.type))
+    .map(a => a.shares[k]));
+
+  // Tip policy: the receipt's own tip line, a percentage, or a fixed amount
+  const preTax = perBucket(k => subtotals[k] + adjustmentSum(k, type => affectsTotal(type) && type !== 'TAX'));
+  const postTax = perBucket(k => preTax[k] + taxes[k] + adjustmentSum(k, type => type === 'TAX'));
+  const tipBase = tipPolicy.basis === 'POST_TAX' ? postTax : preTax;
+  const tipTotal = tipPolicy.mode === 'PERCENTAGE'
+    ? minor(fromMinor(sumMinor(tipBase), decimals) * tipPolicy.percentage / 100)
+    : minor(tipPolicy.mode === 'AMOUNT' ? tipPolicy.amount : (receipt.tip || 0));
+  const tips = tipPolicy.split === 'EQUAL'
+    ? allocate(tipTotal, perBucket(k => k < claimers.length ? (subtotals[k] > 0 ? 1 : 0) : extraTipDiners))
+    : allocate(tipTotal, subtotals);
+  let tableTip = tipTotal;
+  claimers.forEach((c, k) => {
+    if (c.tipOverride === undefined) return;
+    const personal = minor(fromMinor(tipBase[k], decimals) * c.tipOverride / 100);
+    tableTip += personal - tips[k];
+    tips[k] = personal;
+  });
+
+  const totals = perBucket(k => subtotals[k] + taxes[k] + tips[k] + adjustmentSum(k, affectsTotal));
+  const shares: ParticipantShare[] = claimers.map((c, k) => ({
+    participantId: c.id,
+    name: c.name,
+    items: receipt.items
+      .filter(item => itemAllocations[item.id][k] !== 0 || (c.fractions[item.id] || 0) > 0)
+      .map(item => ({ itemId: item.id, amount: itemAllocations[item.id][k] })),
+    subtotal: subtotals[k],
+    tax: taxes[k],
+    tip: tips[k],
+    adjustments: adjustmentAllocations.map(({ adjustment, shares: amounts }) => ({
+      adjustmentId: adjustment.id,
+      type: adjustment.type,
+      label: adjustment.label,
+      amount: amounts[k]
+    })),
+    roundingAdjustment: 0,
+    covers: [],
+    total: totals[k]
+  }));
+
+  // Anything the printed total disagrees with our computed lines by is a receipt-level rounding leftover.
+  // Without printed totals (typed in by hand, or a reader that missed them) the items are the subtotal.
+  const base = minor(receipt.subtotal || 0) || sumMinor(receipt.items.map(item => minor(item.price)));
+  const printedTotal = receipt.total
+    ? minor(receipt.total)
+    : base + minor(receipt.tax || 0) + minor(receipt.tip || 0) + minor(adjustmentsTotal(receipt));
+  const billTotal = printedTotal - minor(receipt.tip || 0) + tableTip;
+  const leftover = billTotal - sumMinor(totals);
+  let unclaimedAmount = totals[claimers.length];
+  let roundingAdjustment = 0;
+  if (unclaimedAmount !== 0 || unclaimedItemIds.length > 0 || claimers.length === 0) {
+    unclaimedAmount += leftover;
+  } else if (leftover !== 0) {
+    roundingAdjustment = leftover;
+    allocate(leftover, shares.map(share => share.total)).forEach((amount, k) => {
+      shares[k].roundingAdjustment = amount;
+      shares[k].total += amount;
+    });
+  }
+
+  return { decimals, shares, unclaimedItemIds, unclaimedAmount, roundingAdjustment, tipTotal, billTotal };
+};
+
+/**
+ * Every diner's share for a table-mode bill, by each item's weighted shares.
+ * Split rules come first: an item rule replaces the assignment of the items
+ * it matches, and cover rules move totals once everything else is split.
+ */
+export const computeShares = (
+  receipt: ReceiptData,
+  participants: Participant[],
+  assignments: Record<string, ItemAssignment>,
+  rules: SplitRule[] = [],
+  tipPolicy: TipPolicy = receipt.tipPolicy || DEFAULT_TIP_POLICY
+): BillSplit => {
+  const claimers: Claimer[] = participants.map(p => ({ id: p.id, name: p.name, fractions: {}, tipOverride: tipPolicy.overrides[p.id] }));
+  const participantIds = participants.map(p => p.id);
+  const ruleIds: Record<string, string> = {}; // itemId -> rule that split it
+  receipt.items.forEach(item => {
+    const rule = ruleForItem(rules, item);
+    const ruled = rule && ruleFractions(rule, participantIds);
+    if (ruled) ruleIds[item.id] = rule!.id;
+    const fractions = ruled || itemFractions(assignments[item.id], participantIds);
+    claimers.filter(c => fractions[c.id] !== undefined).forEach(c => { c.fractions[item.id] = fractions[c.id]; });
+  });
+  const split = splitBill(receipt, claimers, tipPolicy);
+  const shares = split.shares.map(share => ({
+    ...share,
+    items: share.items.map(line => ruleIds[line.itemId] ? { ...line, ruleId: ruleIds[line.itemId] } : line)
+  }));
+  return applyCovers({ ...split, shares }, rules);
+};
+
+/**
+ * One diner's share in solo mode: only their own selections are claimed and
+ * the rest of the table is "unclaimed". An equal tip still counts the other
+ * diners from the policy's headcount.
+ */
+export const computeSoloShares = (
+  receipt: ReceiptData,
+  selections: Record<string, UserSelection>,
+  name: string,
+  tipPolicy: TipPolicy = receipt.tipPolicy || DEFAULT_TIP_POLICY
+): BillSplit => {
+  const fractions: Record<string, number> = {};
+  (Object.values(selections) as UserSelection[])
+    .filter(sel => sel.isSelected)
+    .forEach(sel => { fractions[sel.itemId] = selectionFraction(sel); });
+  return splitBill(receipt, [{ id: SOLO_ID, name, fractions }], tipPolicy, Math.max(0, tipPolicy.headcount - 1));
+};
+
+/** A saved bill reduced to names and amounts for the settle-up engine. */
+export const settlementEntry = (bill: SavedBill): SettlementEntry => {
+  const nameOf = (id: string) => bill.participants.find(p => p.id === id)?.name;
+  return {
+    currency: bill.receipt.currency,
+    shares: computeShares(bill.receipt, bill.participants, bill.assignments, bill.splitRules).shares.map(s => ({ name: s.name, amount: s.total })),
+    payments: (bill.payments || [])
+      .filter(p => nameOf(p.participantId))
+      .map(p => ({ name: nameOf(p.participantId)!, amount: p.amount }))
+  };
+};
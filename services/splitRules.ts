@@ -0,0 +1,99 @@
+import { BillSplit, CoverShare, ITEM_CATEGORIES, Participant, ParticipantShare, ReceiptItem, SplitRule } from "../types";
+import { allocate } from "./money";
+import { categoryName, t } from "./i18n";
+import { itemCategory } from "./itemCategories";
+
+/**
+ * Table-wide split rules, applied while shares are calculated. Item rules
+ * ("appetizers between everyone", "alcohol only between the drinkers") take
+ * over whole categories from the item assignments; cover rules ("the
+ * birthday person pays nothing") move a diner's finished total onto everyone
+ * else. Assignments stay as they were, so removing a rule brings them back.
+ */
+
+export const newRuleId = (): string => `rule-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** The first item rule for this item's category, if any. */
+export const ruleForItem = (rules: SplitRule[], item: ReceiptItem): SplitRule | undefined => {
+  const category = itemCategory(item);
+  return rules.find(rule => rule.kind !== 'COVER' && rule.category === category);
+};
+
+/**
+ * Who shares an item under a rule, equally. A rule whose people have all
+ * left the table returns nothing and the item's own assignment applies.
+ */
+export const ruleFractions = (rule: SplitRule, participantIds: string[]): Record<string, number> | undefined => {
+  if (rule.kind === 'COVER') return undefined;
+  const sharers = rule.kind === 'ONLY_AMONG' ? participantIds.filter(id => rule.participantIds.includes(id)) : participantIds;
+  if (sharers.length === 0) return undefined;
+  return Object.fromEntries(sharers.map(id => [id, 1 / sharers.length]));
+};
+
+/**
+ * Applies cover rules to finished shares: each covered diner's total is
+ * split equally between the diners nobody covers, to the minor unit, so the
+ * bill still adds up. Does nothing when everyone at the table is covered.
+ */
+export const applyCovers = (split: BillSplit, rules: SplitRule[]): BillSplit => {
+  const covered = new Set(rules.flatMap(rule => rule.kind === 'COVER' ? [rule.participantId] : []));
+  const payers = split.shares.filter(share => !covered.has(share.participantId));
+  if (covered.size === 0 || payers.length === 0) return split;
+
+  const shares = split.shares.map(share => ({ ...share, covers: [...share.covers] }));
+  rules.forEach(rule => {
+    if (rule.kind !== 'COVER') return;
+    const guest = shares.find(share => share.participantId === rule.participantId);
+    if (!guest || guest.total === 0) return;
+    const amount = guest.total;
+    guest.covers.push({ ruleId: rule.id, participantId: guest.participantId, amount: -amount });
+    guest.total = 0;
+    allocate(amount, payers.map(() => 1)).forEach((part, k) => {
+      const payer = shares.find(share => share.participantId === payers[k].participantId)!;
+      payer.covers.push({ ruleId: rule.id, participantId: guest.participantId, amount: part });
+      payer.total += part;
+    });
+  });
+  return { ...split, shares };
+};
+
+/** The rules with a diner who left the table taken out of them. */
+export const withoutParticipant = (rules: SplitRule[], participantId: string): SplitRule[] => rules
+  .map(rule => rule.kind === 'ONLY_AMONG' ? { ...rule, participantIds: rule.participantIds.filter(id => id !== participantId) } : rule)
+  .filter(rule => rule.kind === 'COVER' ? rule.participantId !== participantId : rule.kind !== 'ONLY_AMONG' || rule.participantIds.length > 0);
+
+/** "Appetizers: between everyone", "Alcohol: only Ann, Bo", "Cleo pays nothing". */
+export const describeRule = (rule: SplitRule, participants: Participant[]): string => {
+  const nameOf = (id: string) => participants.find(p => p.id === id)?.name || '?';
+  switch (rule.kind) {
+    case 'SHARE_EQUALLY': return t('rule.shareEqually', { category: categoryName(rule.category) });
+    case 'ONLY_AMONG': return t('rule.onlyAmong', { category: categoryName(rule.category), names: rule.participantIds.map(nameOf).join(', ') });
+    case 'COVER': return t('rule.cover', { name: nameOf(rule.participantId) });
+  }
+};
+
+/** A cover line as it reads on `share`'s summary: "Covered by the table" or "Covering Cleo". */
+export const coverLabel = (cover: CoverShare, share: ParticipantShare, shares: ParticipantShare[]): string =>
+  cover.participantId === share.participantId
+    ? t('summary.coveredByTable')
+    : t('summary.covering', { name: shares.find(s => s.participantId === cover.participantId)?.name || '?' });
+
+// --- Reading stored data ---
+
+/** Rules as stored or imported; anything malformed or naming someone not at the table is dropped. */
+export const readSplitRules = (raw: any, participantIds: string[]): SplitRule[] => (Array.isArray(raw) ? raw : [])
+  .map((rule: any): SplitRule | null => {
+    const id = typeof rule?.id === 'string' && rule.id ? rule.id.slice(0, 64) : newRuleId();
+    if (rule?.kind === 'SHARE_EQUALLY' && ITEM_CATEGORIES.includes(rule.category)) {
+      return { id, kind: 'SHARE_EQUALLY', category: rule.category };
+    }
+    if (rule?.kind === 'ONLY_AMONG' && ITEM_CATEGORIES.includes(rule.category) && Array.isArray(rule.participantIds)) {
+      const ids = rule.participantIds.filter((p: any) => participantIds.includes(p));
+      return ids.length > 0 ? { id, kind: 'ONLY_AMONG', category: rule.category, participantIds: ids } : null;
+    }
+    if (rule?.kind === 'COVER' && participantIds.includes(rule.participantId)) {
+      return { id, kind: 'COVER', participantId: rule.participantId };
+    }
+    return null;
+  })
+  .filter((rule): rule is SplitRule => rule !== null);
@@ -1,13 +1,74 @@
 
+/** A region of a receipt photo, as fractions (0..1) of its width and height. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Where an extracted value was read from and how sure the extractor was. Backends may leave any of it out. */
+export interface FieldSource {
+  confidence?: number; // 0..1
+  box?: BoundingBox;
+  page?: number; // Index into the bill's photos; 0 for a single photo
+}
+
+/** Values below this are flagged for a second look on the confirm screen. */
+export const LOW_CONFIDENCE = 0.75;
+
+export type ItemCategory = 'FOOD' | 'DRINK' | 'ALCOHOL' | 'DESSERT' | 'SHARED' | 'KIDS';
+
+export const ITEM_CATEGORIES: ItemCategory[] = ['FOOD', 'DRINK', 'ALCOHOL', 'DESSERT', 'SHARED', 'KIDS'];
+
 export interface ReceiptItem {
   id: string;
   quantity: number;
   description: string;
-  price: number;
-  originalDescription?: string;
+  price: number; // Line total (quantity × unit price)
+  unitPrice?: number; // Per-unit price when printed on the receipt
+  originalDescription?: string; // As printed, when `description` is a translation of it
+  category?: ItemCategory; // From the reader or the editor; the keyword classifier fills in when absent
+  source?: FieldSource;
+}
+
+export type TotalField = 'subtotal' | 'tax' | 'tip' | 'total';
+
+export type AdjustmentType = 'DISCOUNT' | 'COUPON' | 'SERVICE_CHARGE' | 'TAX' | 'INCLUDED_TAX' | 'FEE';
+
+export interface ReceiptAdjustment {
+  id: string;
+  type: AdjustmentType;
+  label: string;
+  amount?: number; // Fixed amount, always positive; the type decides whether it adds or subtracts
+  percentage?: number; // Percent of the scoped items' subtotal, used when no fixed amount is given
+  itemIds?: string[]; // Items the adjustment applies to; empty or missing means the whole bill
+}
+
+export type TipMode = 'RECEIPT' | 'PERCENTAGE' | 'AMOUNT';
+export type TipBasis = 'PRE_TAX' | 'POST_TAX';
+export type TipSplit = 'PROPORTIONAL' | 'EQUAL';
+
+export interface TipPolicy {
+  mode: TipMode; // RECEIPT uses the tip printed on the receipt
+  percentage: number;
+  amount: number;
+  basis: TipBasis;
+  split: TipSplit;
+  headcount: number; // Diners sharing an equal tip outside table mode
+  overrides: Record<string, number>; // participantId -> personal tip percentage
+}
+
+export interface ExchangeRate {
+  from: string; // ISO 4217 code
+  to: string; // ISO 4217 code
+  rate: number; // 1 unit of `from` = `rate` units of `to`
+  date: string; // YYYY-MM-DD the rate was taken on
+  source?: string;
 }
 
 export interface ReceiptData {
+  id?: string; // Stable across share links so claims find the right bill; assigned on validation
   restaurantName: string;
   date: string;
   items: ReceiptItem[];
@@ -15,30 +76,257 @@ export interface ReceiptData {
   tax: number;
   tip: number;
   total: number;
-  currency: string;
+  currency: string; // ISO 4217 code
+  adjustments: ReceiptAdjustment[];
+  tipPolicy?: TipPolicy;
+  exchangeRates?: ExchangeRate[]; // Recorded so shared links reproduce the same conversion
+  totalSources?: Partial<Record<TotalField, FieldSource>>;
+  language?: string; // Locale code the item descriptions are in, when known
+}
+
+export type ReconciliationIssueKind = 'LINE_TOTAL' | 'ITEMS_VS_SUBTOTAL' | 'SUBTOTAL_VS_TOTAL';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  itemId?: string;
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  isBalanced: boolean;
+  tolerance: number;
+  itemsSum: number;
+  issues: ReconciliationIssue[];
+}
+
+export interface ValidatedReceipt {
+  receipt: ReceiptData;
+  reconciliation: ReconciliationReport;
 }
 
 export interface UserSelection {
   itemId: string;
-  splitCount: number; // 1 means full, 2 means split by 2, etc.
+  portion: number; // How much of the item is mine, out of `outOf` ("2" of 3 beers, "60" of a 60/40 bottle)
+  outOf: number; // What the item is divided into; 1 means the whole item
   isSelected: boolean;
 }
 
+export interface Participant {
+  id: string;
+  name: string;
+  homeCurrency?: string; // ISO 4217 code to show this diner's share in
+  initials?: string; // Shown on their avatar instead of letters taken from the name
+  color?: AvatarColor;
+  paymentHandle?: string; // Where to send them money ("@sam-lee", an IBAN); added to payment requests
+}
+
+export type AvatarColor = 'gray' | 'blue' | 'green' | 'amber' | 'rose' | 'violet' | 'teal';
+
+/** A standing preference a group member brings to every bill. */
+export type MemberRule =
+  | { kind: 'NO_ALCOHOL' }
+  | { kind: 'EXCLUDE_WORDS'; words: string[] }; // Lines mentioning any of these are left off them
+
+/** Someone in a saved group: the diner they become on each bill, plus their rules. */
+export interface GroupMember extends Participant {
+  rules: MemberRule[];
+}
+
+/** People who often eat together, picked on HOME to start a table bill with everyone already in it. */
+export interface Group {
+  id: string;
+  name: string;
+  members: GroupMember[];
+  updatedAt: number;
+}
+
+/**
+ * The one set of shares for an item, for the whole table. Each diner owes
+ * their weight over `totalShares`, or over the sum of the weights when no
+ * total is set (so everyone on 1 is an equal split).
+ */
+export interface ItemAssignment {
+  itemId: string;
+  shares: Record<string, number>; // participantId -> weight (2 of 3 beers, 60 of 100)
+  totalShares?: number; // What the weights are out of; anything not covered is unclaimed
+}
+
+/** What a diner sends back to the organizer: who they are and what they had. */
+export interface Claim {
+  receiptId: string;
+  name: string;
+  selections: UserSelection[];
+}
+
+export type ClaimConflictKind = 'UNCLAIMED' | 'OVER_CLAIMED' | 'UNDER_CLAIMED';
+
+export interface ClaimConflict {
+  itemId: string;
+  kind: ClaimConflictKind;
+  message: string;
+}
+
+// Shares below are in integer minor units of the receipt currency (see services/money.ts)
+
+export interface AdjustmentShare {
+  adjustmentId: string;
+  type: AdjustmentType;
+  label: string;
+  amount: number; // Signed: discounts are negative. INCLUDED_TAX is informational only.
+}
+
+export interface ItemShare {
+  itemId: string;
+  amount: number;
+  ruleId?: string; // The split rule that decided this share instead of the table's assignment
+}
+
+/** Money moved by a "pays nothing" rule: negative for the person covered, positive for each one covering them. */
+export interface CoverShare {
+  ruleId: string;
+  participantId: string; // The person covered
+  amount: number;
+}
+
+export interface ParticipantShare {
+  participantId: string;
+  name: string;
+  items: ItemShare[];
+  subtotal: number;
+  tax: number;
+  tip: number;
+  adjustments: AdjustmentShare[];
+  roundingAdjustment: number; // Units added/removed so all shares add up to the receipt total
+  covers: CoverShare[];
+  total: number;
+}
+
+export interface BillSplit {
+  decimals: number; // Minor-unit decimals of the receipt currency
+  shares: ParticipantShare[];
+  unclaimedItemIds: string[];
+  unclaimedAmount: number; // Portion of the total (incl. prorated tax & tip) nobody has claimed
+  roundingAdjustment: number;
+  tipTotal: number; // Tip the policy asks for, before personal overrides
+  billTotal: number; // Receipt total with the chosen tip policy applied
+}
+
+export type SplitMode = 'solo' | 'table';
+
+/**
+ * A table-wide rule applied when shares are calculated, on top of the item
+ * assignments. Item rules are checked in order and the first one matching
+ * an item's category decides it.
+ */
+export type SplitRule =
+  | { id: string; kind: 'SHARE_EQUALLY'; category: ItemCategory } // "Appetizers are split between everyone"
+  | { id: string; kind: 'ONLY_AMONG'; category: ItemCategory; participantIds: string[] } // "Alcohol only among the drinkers"
+  | { id: string; kind: 'COVER'; participantId: string }; // "The birthday person pays nothing, the others cover them"
+
+/** A bill as kept in local history: the receipt plus everything needed to re-open the split. */
+export interface SavedBill {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  receipt: ReceiptData;
+  splitMode: SplitMode;
+  userSelections: Record<string, UserSelection>;
+  participants: Participant[];
+  assignments: Record<string, ItemAssignment>;
+  splitRules?: SplitRule[]; // Absent on bills saved before split rules
+  payments?: Payment[]; // Who paid the restaurant; absent on bills saved before payers were tracked
+  images?: string[]; // The processed photos the receipt was read from, for checking values against
+  isSettled: boolean;
+}
+
+/** Money a diner handed over to the restaurant for one bill. */
+export interface Payment {
+  participantId: string;
+  amount: number; // Minor units of the receipt currency
+}
+
+/** "from pays to amount" between people, matched across bills by name. */
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number; // Minor units
+  currency: string;
+}
+
+/** A transfer someone has marked as paid, scoped to the bills it settled. */
+export interface RecordedTransfer extends Transfer {
+  id: string;
+  billIds: string[];
+  paidAt: number;
+}
+
+export type ExtractorId = 'gemini' | 'local' | 'mock';
+
+export interface ExtractionInput {
+  image?: string; // data: URL of a receipt photo
+  text?: string; // Receipt text typed or pasted by the user
+  targetLanguage: string; // Locale code; descriptions are translated into it when the backend can
+  signal?: AbortSignal; // Aborted when the user cancels on the PROCESSING screen
+  onRetry?: (attempt: number, reason: string) => void; // Called before a transient failure is retried
+}
+
+/** A problem with one field of the extracted data, e.g. { path: 'items[2].price', message: 'not a number' }. */
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+/** Extractor output. Lines that failed validation are dropped and listed in fieldErrors. */
+export type ExtractedReceipt = ReceiptData & { fieldErrors?: FieldError[] };
+
+export type ExtractionErrorKind = 'NO_API_KEY' | 'NETWORK' | 'QUOTA' | 'SERVICE' | 'UNREADABLE_IMAGE' | 'SCHEMA_MISMATCH' | 'UNEXPECTED' | 'CANCELLED';
+
+/** A backend that turns a receipt photo or text into structured data. */
+export interface ReceiptExtractor {
+  id: ExtractorId;
+  name: string;
+  description: string;
+  input: 'image' | 'text';
+  offline: boolean; // Reads without a connection; scans for the others are queued while offline
+  extract: (input: ExtractionInput) => Promise<ExtractedReceipt>;
+}
+
+/** Photos taken without a connection, kept until they can be read into a bill in history. */
+export interface QueuedScan {
+  id: string;
+  images: string[]; // Processed photos; dropped once the bill holds them
+  extractorId: ExtractorId;
+  targetLanguage: string;
+  queuedAt: number;
+  groupId?: string; // Group picked when the photos were taken; fills in the table once read
+  error?: string; // Why the last read failed; the scan waits for "try again" until cleared
+  attempts?: number; // Reads that found no connection although the browser said it was online
+  billId?: string; // Set once read
+}
+
 export enum AppState {
   HOME = 'HOME',
   CAMERA = 'CAMERA',
+  PREVIEW = 'PREVIEW',
   PROCESSING = 'PROCESSING',
   CONFIRM_INFO = 'CONFIRM_INFO',
   SELECT_ITEMS = 'SELECT_ITEMS',
-  SUMMARY = 'SUMMARY'
+  SUMMARY = 'SUMMARY',
+  HISTORY = 'HISTORY',
+  SETTLE_UP = 'SETTLE_UP',
+  GROUPS = 'GROUPS'
 }
 
-export const SUPPORTED_LANGUAGES = [
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },
-  { code: 'it', name: 'Italian' },
-  { code: 'zh', name: 'Chinese' },
-  { code: 'ja', name: 'Japanese' }
+export const ADJUSTMENT_TYPES: { code: AdjustmentType; name: string }[] = [
+  { code: 'DISCOUNT', name: 'Discount' },
+  { code: 'COUPON', name: 'Coupon' },
+  { code: 'SERVICE_CHARGE', name: 'Service Charge' },
+  { code: 'TAX', name: 'Tax' },
+  { code: 'INCLUDED_TAX', name: 'Included Tax (VAT)' },
+  { code: 'FEE', name: 'Fee' }
 ];
+
+export const TIP_PRESETS = [15, 18, 20, 25];
+